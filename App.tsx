@@ -1,15 +1,31 @@
-import React, { useState, useCallback, useRef, useEffect } from 'react';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import { UrlInputForm } from './components/UrlInputForm';
 import { Disclaimer } from './components/Disclaimer';
 import { Loader } from './components/Loader';
-import { fetchWebsiteSource, downloadZipFile, retryFailedDownloads, retryFailedDownloadsAsDataURI } from './services/downloader';
+import { fetchWebsiteSource, resumeWebsiteSource, downloadZipFile, downloadBlob, retryFailedDownloads, retryFailedDownloadsAsDataURI, downloadSelectedPages, findRootUrl } from './services/downloader';
 import { InspectorView } from './components/InspectorView';
-import { AlertTriangleIcon, RefreshCwIcon, CodeIcon, HistoryIcon, Link2Icon } from './components/Icons';
-import { AppPhase, NetworkLogEntry, HistoryEntry } from './types';
+import { AlertTriangleIcon, RefreshCwIcon, CodeIcon, HistoryIcon, Link2Icon, SettingsIcon, UploadIcon, HardDriveIcon } from './components/Icons';
+import { AppPhase, NetworkLogEntry, HistoryEntry, InternalLink, ScanOptions, TransportSettings, RefreshSummary, ScanBaseline, EvictionPolicy } from './types';
 import { HistorySidebar } from './components/HistorySidebar';
-import { getKV, setKV, getSession, setSession, deleteSession as idbDeleteSession, clearAll as idbClearAll } from './utils/idb';
+import { getKV, setKV, getSession, setSession, deleteSession as idbDeleteSession, clearAll as idbClearAll, snapshotId } from './utils/idb';
 import { ThemeSwitcher } from './components/ThemeSwitcher';
 import { EngineSwitcher } from './components/EngineSwitcher';
+import { SettingsModal } from './components/SettingsModal';
+import { StoragePanel } from './components/StoragePanel';
+import { createTransport, loadTransportSettings, saveTransportSettings, DEFAULT_TRANSPORT_SETTINGS } from './services/transport';
+import { DEFAULT_POLITENESS_OPTIONS } from './services/politeness';
+import { createOfflineSnapshot } from './services/snapshotExport';
+import { exportHar, importHar } from './services/har';
+import { exportWarc } from './services/warc';
+import { createScanController, ScanController } from './services/scanControl';
+import { clearScanCheckpoint, loadScanCheckpoint, ScanCheckpoint } from './services/scanCheckpoint';
+import { summarizeRefresh } from './services/revalidation';
+import { diffSessions, SessionDiff, SessionSnapshot } from './services/sessionDiff';
+import { SessionDiffView } from './components/SessionDiffView';
+import { exportSessionArchive, importSessionArchive, SavedSession, SESSION_ARCHIVE_EXTENSION } from './services/sessionArchive';
+import { DEFAULT_EVICTION_POLICY, estimateSessionSize, EVICTION_POLICY_LABELS, loadEvictionPolicy, pickEvictionCandidate, saveEvictionPolicy } from './services/storageQuota';
+import { formatBytes } from './utils/fileUtils';
+import { ScanResult } from './features/security/types';
 
 
 declare const JSZip: any;
@@ -30,20 +46,34 @@ const App: React.FC = () => {
   const [phase, setPhase] = useState<AppPhase>('initial');
   const [error, setError] = useState<string | null>(null);
   const [saveError, setSaveError] = useState<string | null>(null);
+  const [snapshotNotice, setSnapshotNotice] = useState<string | null>(null);
   const [progressMessage, setProgressMessage] = useState<string>('');
   const [etr, setEtr] = useState<string>('');
   const [warnings, setWarnings] = useState<{url: string; message: string}[]>([]);
-  const [scanResult, setScanResult] = useState<{ zip: any; networkLog: NetworkLogEntry[]; internalLinks: string[] } | null>(null);
+  const [scanResult, setScanResult] = useState<{ zip: any; networkLog: NetworkLogEntry[]; internalLinks: InternalLink[]; refresh?: RefreshSummary; analysis?: Record<string, any>; security?: ScanResult } | null>(null);
+  const [sessionDiff, setSessionDiff] = useState<SessionDiff | null>(null);
   const [failedDownloads, setFailedDownloads] = useState<string[]>([]);
   const [siteName, setSiteName] = useState<string>('');
   const downloadStartTimeRef = useRef<number | null>(null);
   const avgTimeRef = useRef(0);
+  const scanOptionsRef = useRef<ScanOptions | null>(null);
+  const scanControllerRef = useRef<ScanController | null>(null);
+  const [isPaused, setIsPaused] = useState(false);
+  const [isPausable, setIsPausable] = useState(false);
+  const [interruptedScan, setInterruptedScan] = useState<ScanCheckpoint | null>(null);
+  // The snapshot being viewed. Null until a new scan is first saved, which creates a snapshot.
+  const activeSnapshotRef = useRef<{ id: string; timestamp: number } | null>(null);
   const [retryAttempt, setRetryAttempt] = useState(0);
   const [isHistoryOpen, setIsHistoryOpen] = useState(false);
   const [history, setHistory] = useState<HistoryEntry[]>([]);
   const [isLoaded, setIsLoaded] = useState(false);
   const [theme, setTheme] = useState<Theme>('light');
   const [engineVersion, setEngineVersion] = useState<EngineVersion>('v2');
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isStorageOpen, setIsStorageOpen] = useState(false);
+  const [evictionPolicy, setEvictionPolicy] = useState<EvictionPolicy>(DEFAULT_EVICTION_POLICY);
+  const [transportSettings, setTransportSettings] = useState<TransportSettings>(DEFAULT_TRANSPORT_SETTINGS);
+  const transport = useMemo(() => createTransport(transportSettings), [transportSettings]);
 
 
   // --- Theme Management ---
@@ -74,17 +104,18 @@ const App: React.FC = () => {
 
   // --- Session Management ---
 
-  const loadSession = useCallback(async (sessionUrl: string, sessionData?: any) => {
+  const loadSession = useCallback(async (id: string, sessionData?: any) => {
     try {
       let dataToLoad = sessionData;
       if (!dataToLoad) {
-        dataToLoad = await getSession(sessionUrl);
+        dataToLoad = await getSession(id);
       }
 
       if (!dataToLoad) {
         throw new Error("Session data not found in database.");
       }
 
+      setSessionDiff(null);
       setPhase('viewing'); // Show loading in viewing state
       setProgressMessage('Loading session from history...');
 
@@ -92,10 +123,19 @@ const App: React.FC = () => {
       // Load from Blob instead of Base64
       await zip.loadAsync(dataToLoad.scanResult.zipAsBlob);
       
+      const sessionUrl: string = dataToLoad.url;
+      activeSnapshotRef.current = { id, timestamp: dataToLoad.timestamp };
       setUrl(sessionUrl);
       setPhase(dataToLoad.phase);
       setSiteName(dataToLoad.siteName);
-      setScanResult({ zip, networkLog: dataToLoad.scanResult.networkLog, internalLinks: dataToLoad.scanResult.internalLinks || [] });
+      // Sessions saved before crawl mode stored internal links as plain URL strings,
+      // and ones saved before sitemap discovery have no source.
+      const internalLinks: InternalLink[] = (dataToLoad.scanResult.internalLinks || []).map((link: string | InternalLink) =>
+        typeof link === 'string' ? { url: link, foundOn: sessionUrl, depth: 1, source: 'anchor' } : { ...link, source: link.source || 'anchor' }
+      );
+      setScanResult({ zip, networkLog: dataToLoad.scanResult.networkLog, internalLinks, refresh: dataToLoad.scanResult.refresh, analysis: dataToLoad.scanResult.analysis, security: dataToLoad.scanResult.security });
+      // Sessions saved before scan options were stored fall back to the defaults when needed.
+      scanOptionsRef.current = dataToLoad.scanOptions || null;
       setFailedDownloads(dataToLoad.failedDownloads);
       setWarnings(dataToLoad.warnings);
       setRetryAttempt(dataToLoad.retryAttempt);
@@ -103,8 +143,8 @@ const App: React.FC = () => {
       setSaveError(null);
       setProgressMessage('');
       
-      // Update last active URL in IndexedDB
-      await setKV('lastActiveUrl', sessionUrl);
+      // Update last active snapshot in IndexedDB
+      await setKV('lastActiveSnapshot', id);
 
     } catch (e) {
       console.error("Failed to load session:", e);
@@ -113,23 +153,51 @@ const App: React.FC = () => {
     }
   }, []);
 
-  const deleteSession = useCallback(async (urlToDelete: string) => {
-    await idbDeleteSession(urlToDelete);
+  const deleteSessions = useCallback(async (idsToDelete: string[]) => {
+    for (const id of idsToDelete) {
+      await idbDeleteSession(id);
+    }
     const oldHistory = await getKV<HistoryEntry[]>('history') || [];
-    const newHistory = oldHistory.filter((h) => h.url !== urlToDelete);
+    const newHistory = oldHistory.filter((h) => !idsToDelete.includes(h.id));
     await setKV('history', newHistory);
     
-    const lastActive = await getKV<string>('lastActiveUrl');
-    if (lastActive === urlToDelete) {
-        await setKV('lastActiveUrl', null);
+    const lastActive = await getKV<string>('lastActiveSnapshot');
+    if (lastActive && idsToDelete.includes(lastActive)) {
+        await setKV('lastActiveSnapshot', null);
         await handleReset(true);
     }
     setHistory(newHistory);
   }, []);
 
+  const handleSaveTransportSettings = useCallback(async (settings: TransportSettings) => {
+    setTransportSettings(settings);
+    try {
+      await saveTransportSettings(settings);
+    } catch (e) {
+      console.error("Failed to persist transport settings:", e);
+    }
+  }, []);
+
+  const handleEvictionPolicyChange = useCallback(async (policy: EvictionPolicy) => {
+    setEvictionPolicy(policy);
+    try {
+      await saveEvictionPolicy(policy);
+    } catch (e) {
+      console.error("Failed to persist eviction policy:", e);
+    }
+  }, []);
+
+  const handleTogglePin = useCallback(async (id: string) => {
+    const oldHistory = await getKV<HistoryEntry[]>('history') || [];
+    const newHistory = oldHistory.map((h) => h.id === id ? { ...h, pinned: !h.pinned } : h);
+    await setKV('history', newHistory);
+    setHistory(newHistory);
+  }, []);
+
   const clearHistory = useCallback(async () => {
     await idbClearAll();
     setHistory([]);
+    setInterruptedScan(null);
     await handleReset(true);
   }, []);
 
@@ -137,12 +205,15 @@ const App: React.FC = () => {
     const loadInitialData = async () => {
       try {
         const historyData = await getKV<HistoryEntry[]>('history') || [];
-        const urlToLoad = await getKV<string>('lastActiveUrl');
+        const idToLoad = await getKV<string>('lastActiveSnapshot');
         setHistory(historyData);
-        if (urlToLoad) {
-          const sessionData = await getSession(urlToLoad);
+        setTransportSettings(await loadTransportSettings());
+        setEvictionPolicy(await loadEvictionPolicy());
+        setInterruptedScan(await loadScanCheckpoint());
+        if (idToLoad) {
+          const sessionData = await getSession(idToLoad);
           if (sessionData) {
-            await loadSession(urlToLoad, sessionData);
+            await loadSession(idToLoad, sessionData);
           }
         }
       } catch (e) {
@@ -160,19 +231,36 @@ const App: React.FC = () => {
       return;
     }
 
-    const attemptSaveWithCleanup = async (sessionDataToSave: any) => {
+    // A new scan becomes a new snapshot; later saves (retries, analysis results) update it.
+    if (!activeSnapshotRef.current) {
+      const timestamp = Date.now();
+      activeSnapshotRef.current = { id: snapshotId(url, timestamp), timestamp };
+    }
+    const snapshot = activeSnapshotRef.current;
+
+    const attemptSaveWithCleanup = async (sessionDataToSave: SavedSession) => {
         const MAX_CLEANUP_ATTEMPTS = 5; // Prevent infinite loops
 
         for (let attempt = 0; attempt < MAX_CLEANUP_ATTEMPTS; attempt++) {
             try {
-                const newHistoryEntry = { url, siteName, timestamp: sessionDataToSave.timestamp };
+                const savedHistory = await getKV<HistoryEntry[]>('history') || [];
+                // Saves only happen while the snapshot is open, so each one counts as opening it.
+                const newHistoryEntry: HistoryEntry = {
+                  id: snapshot.id,
+                  url,
+                  siteName,
+                  timestamp: snapshot.timestamp,
+                  size: estimateSessionSize(sessionDataToSave),
+                  pinned: savedHistory.find((h) => h.id === snapshot.id)?.pinned,
+                  lastOpened: Date.now(),
+                };
                 
-                const otherHistory = (await getKV<HistoryEntry[]>('history') || []).filter((h: HistoryEntry) => h.url !== url);
+                const otherHistory = savedHistory.filter((h: HistoryEntry) => h.id !== snapshot.id);
                 const newHistory = [newHistoryEntry, ...otherHistory].sort((a, b) => b.timestamp - a.timestamp);
 
                 await setSession(sessionDataToSave);
                 await setKV('history', newHistory);
-                await setKV('lastActiveUrl', url);
+                await setKV('lastActiveSnapshot', snapshot.id);
 
                 setHistory(newHistory);
                 return; // Success!
@@ -180,28 +268,30 @@ const App: React.FC = () => {
             } catch (e: any) {
                 // Check for Quota Exceeded error
                 if (e.name === 'QuotaExceededError' || e.name === 'NS_ERROR_DOM_QUOTA_REACHED') {
-                    console.warn(`IndexedDB quota exceeded. Attempting to clear oldest session (Attempt ${attempt + 1}).`);
+                    console.warn(`IndexedDB quota exceeded. Asking to evict a snapshot (Attempt ${attempt + 1}).`);
                     
                     const historyToClean = await getKV<HistoryEntry[]>('history') || [];
-                    const prunableHistory = historyToClean.filter((h) => h.url !== url);
+                    const policy = await loadEvictionPolicy();
+                    const candidate = pickEvictionCandidate(historyToClean, policy, snapshot.id);
 
-                    if (prunableHistory.length === 0) {
-                        // There are no *other* sessions to delete. The current one is just too big.
-                        throw new Error("The website source is too large to save, and no older sessions can be cleared to make space.");
+                    if (!candidate) {
+                        // Every other snapshot is pinned, or there are none. The current one is just too big.
+                        throw new Error("The website source is too large to save, and no unpinned snapshots can be evicted to make space.");
                     }
 
-                    // Sort to find the oldest entry (ascending by timestamp)
-                    const sortedPrunableHistory = prunableHistory.sort((a, b) => a.timestamp - b.timestamp);
-                    const oldestSession = sortedPrunableHistory.shift();
-                    
-                    if (oldestSession) {
-                        console.log(`Pruning session: ${oldestSession.url}`);
-                        await idbDeleteSession(oldestSession.url);
-                        const newHistoryAfterPrune = historyToClean.filter((h) => h.url !== oldestSession.url);
-                        await setKV('history', newHistoryAfterPrune);
-                    } else {
-                        throw new Error("Failed to identify an old session to prune.");
+                    const sizeNote = candidate.size ? ` (${formatBytes(candidate.size)})` : '';
+                    const confirmed = window.confirm(
+                        `Browser storage is full. Following the "${EVICTION_POLICY_LABELS[policy]}" policy, evict the ${new Date(candidate.timestamp).toLocaleString()} snapshot of ${candidate.siteName}${sizeNote} to make room for this one?`
+                    );
+                    if (!confirmed) {
+                        throw new Error("Browser storage is full, so this snapshot was not saved. Free up space from the Storage panel.");
                     }
+
+                    console.log(`Evicting snapshot: ${candidate.id}`);
+                    await idbDeleteSession(candidate.id);
+                    const newHistoryAfterEviction = historyToClean.filter((h) => h.id !== candidate.id);
+                    await setKV('history', newHistoryAfterEviction);
+                    setHistory(newHistoryAfterEviction);
                 } else {
                     throw e;
                 }
@@ -215,15 +305,17 @@ const App: React.FC = () => {
       try {
         // Generate a Blob instead of Base64: more efficient for IndexedDB
         const zipAsBlob = await scanResult.zip.generateAsync({ type: 'blob' });
-        const sessionData = {
+        const sessionData: SavedSession = {
+          id: snapshot.id,
           url,
           phase,
           siteName,
-          scanResult: { zipAsBlob, networkLog: scanResult.networkLog, internalLinks: scanResult.internalLinks },
+          scanResult: { zipAsBlob, networkLog: scanResult.networkLog, internalLinks: scanResult.internalLinks, refresh: scanResult.refresh, analysis: scanResult.analysis, security: scanResult.security },
+          scanOptions: scanOptionsRef.current,
           failedDownloads,
           warnings,
           retryAttempt,
-          timestamp: Date.now(),
+          timestamp: snapshot.timestamp,
         };
         await attemptSaveWithCleanup(sessionData);
         setSaveError(null); // Clear any previous save errors on success
@@ -238,22 +330,77 @@ const App: React.FC = () => {
   }, [phase, scanResult, siteName, failedDownloads, warnings, retryAttempt, url, isLoaded]);
 
 
+  // Starts pause/cancel control for a new download, cancelling any that is still running.
+  const startScanControl = useCallback((pausable: boolean): ScanController => {
+    scanControllerRef.current?.cancel();
+    const controller = createScanController();
+    scanControllerRef.current = controller;
+    setIsPaused(false);
+    setIsPausable(pausable);
+    return controller;
+  }, []);
+
+  const endScanControl = useCallback((controller: ScanController) => {
+    if (scanControllerRef.current === controller) {
+      scanControllerRef.current = null;
+    }
+  }, []);
+
+  // Don't leave requests running when the page goes away.
+  useEffect(() => {
+    const cancelRunningScan = () => scanControllerRef.current?.cancel();
+    window.addEventListener('pagehide', cancelRunningScan);
+    return () => {
+      window.removeEventListener('pagehide', cancelRunningScan);
+      cancelRunningScan();
+    };
+  }, []);
+
+  const handlePauseResume = () => {
+    const controller = scanControllerRef.current;
+    if (!controller) return;
+    if (controller.isPaused()) {
+      controller.resume();
+      setIsPaused(false);
+    } else {
+      controller.pause();
+      setIsPaused(true);
+    }
+  };
+
+  const handleCancelScan = () => {
+    scanControllerRef.current?.cancel();
+    setIsPaused(false);
+    setProgressMessage('Cancelling...');
+    // Only a cancel from the user drops the checkpoint; one caused by leaving the page keeps it.
+    clearScanCheckpoint().catch(e => console.warn('Could not clear the scan checkpoint.', e));
+  };
+
+  const handleDiscardInterruptedScan = () => {
+    setInterruptedScan(null);
+    clearScanCheckpoint().catch(e => console.warn('Could not clear the scan checkpoint.', e));
+  };
+
   const handleReset = async (fullReset = false) => {
+    scanControllerRef.current?.cancel();
     setUrl('');
     setPhase('initial');
     setError(null);
     setSaveError(null);
+    setSnapshotNotice(null);
     setProgressMessage('');
     setEtr('');
     setWarnings([]);
     setScanResult(null);
+    setSessionDiff(null);
+    activeSnapshotRef.current = null;
     setFailedDownloads([]);
     setSiteName('');
     setRetryAttempt(0);
     downloadStartTimeRef.current = null;
     avgTimeRef.current = 0; // Reset ETR smoother
     if (fullReset) {
-      await setKV('lastActiveUrl', null);
+      await setKV('lastActiveSnapshot', null);
     }
   };
 
@@ -297,7 +444,25 @@ const App: React.FC = () => {
     setWarnings(prev => [...prev, warning]);
   }, []);
 
-  const handleFetch = useCallback(async (fetchUrl: string, options: { headers: Record<string, string>, userAgent: string }) => {
+  const showScanResult = useCallback((result: { zip: any; networkLog: NetworkLogEntry[]; failedUrls: string[]; internalLinks: InternalLink[]; cancelled?: boolean }, baseline?: ScanBaseline) => {
+    const { zip, networkLog, failedUrls, internalLinks, cancelled } = result;
+    if (cancelled && !networkLog.some(entry => entry.status > 0 && !entry.isError)) {
+      setError('The scan was cancelled before any files were downloaded.');
+      setPhase('error');
+      return;
+    }
+    setScanResult({ zip, networkLog, internalLinks, refresh: baseline && summarizeRefresh(networkLog, baseline) });
+
+    // A cancelled scan goes straight to the partial result instead of offering retries.
+    if (failedUrls.length > 0 && !cancelled) {
+        setFailedDownloads(failedUrls);
+        setPhase('post-download-prompt');
+    } else {
+        setPhase('viewing');
+    }
+  }, []);
+
+  const handleFetch = useCallback(async (fetchUrl: string, options: ScanOptions) => {
     if (!fetchUrl) {
       setError('Please enter a valid URL.');
       setPhase('error');
@@ -310,6 +475,10 @@ const App: React.FC = () => {
     setPhase('downloading');
     downloadStartTimeRef.current = Date.now();
     setProgressMessage('Initializing...');
+    // Only the settings are kept with the session; the runtime parts are per scan.
+    const { baseline, control: _control, transport: _transport, ...scanOptions } = options;
+    scanOptionsRef.current = scanOptions;
+    const control = startScanControl(true);
 
     try {
       const fullUrl = fetchUrl.startsWith('http') ? fetchUrl : `https://${fetchUrl}`;
@@ -317,15 +486,9 @@ const App: React.FC = () => {
       const name = urlObject.hostname;
       setSiteName(name);
 
-      const { zip, networkLog, failedUrls, internalLinks } = await fetchWebsiteSource(fullUrl, options, handleProgressUpdate, handleAddWarning, engineVersion);
-      setScanResult({ zip, networkLog, internalLinks });
-      
-      if (failedUrls.length > 0) {
-          setFailedDownloads(failedUrls);
-          setPhase('post-download-prompt');
-      } else {
-          setPhase('viewing');
-      }
+      // A fresh scan replaces the saved checkpoint, if any.
+      setInterruptedScan(null);
+      showScanResult(await fetchWebsiteSource(fullUrl, { ...options, transport, control }, handleProgressUpdate, handleAddWarning, engineVersion), baseline);
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
       setError(`Failed to fetch website source. ${errorMessage}`);
@@ -334,9 +497,130 @@ const App: React.FC = () => {
     } finally {
         downloadStartTimeRef.current = null;
         setEtr('');
+        endScanControl(control);
+    }
+  }, [handleProgressUpdate, handleAddWarning, engineVersion, transport, startScanControl, endScanControl, showScanResult]);
+
+  // Re-scans a site from history, only downloading what changed since the given snapshot.
+  const handleRefreshSession = useCallback(async (id: string) => {
+    try {
+      const session = await getSession<any>(id);
+      if (!session) {
+        throw new Error("Session data not found in database.");
+      }
+      const zip = new JSZip();
+      await zip.loadAsync(session.scanResult.zipAsBlob);
+      const baseline: ScanBaseline = { zip, networkLog: session.scanResult.networkLog, timestamp: session.timestamp };
+      const options: ScanOptions = session.scanOptions || { headers: {}, userAgent: '', politeness: DEFAULT_POLITENESS_OPTIONS };
+      await handleFetch(session.url, { ...options, baseline });
+    } catch (e) {
+      console.error("Failed to refresh session:", e);
+      setError("Could not load the saved session to refresh it. It might be corrupted or in an old format.");
+      setPhase('error');
+    }
+  }, [handleFetch]);
+
+  // Keeps AI analysis and security scan results with the session, so they are saved and can be compared.
+  const handleAnalysisResult = useCallback((type: string, result: any) => {
+    setScanResult(prev => prev && { ...prev, analysis: { ...prev.analysis, [type]: result } });
+  }, []);
+
+  const handleSecurityResults = useCallback((results: ScanResult) => {
+    setScanResult(prev => prev && { ...prev, security: results });
+  }, []);
+
+  const loadSnapshot = async (id: string): Promise<SessionSnapshot> => {
+    const session = await getSession<any>(id);
+    if (!session) {
+      throw new Error("Session data not found in database.");
+    }
+    const zip = new JSZip();
+    await zip.loadAsync(session.scanResult.zipAsBlob);
+    return {
+      url: session.url,
+      timestamp: session.timestamp,
+      zip,
+      networkLog: session.scanResult.networkLog,
+      security: session.scanResult.security,
+      techStack: session.scanResult.analysis?.tech?.error ? undefined : session.scanResult.analysis?.tech,
+    };
+  };
+
+  const handleCompareSessions = async (idA: string, idB: string) => {
+    try {
+      const snapshots = await Promise.all([loadSnapshot(idA), loadSnapshot(idB)]);
+      const [before, after] = snapshots.sort((a, b) => a.timestamp - b.timestamp);
+      setSessionDiff(await diffSessions(before, after));
+    } catch (e) {
+      console.error("Failed to compare sessions:", e);
+      setError("Could not load the saved sessions to compare them. They might be corrupted or in an old format.");
+      setPhase('error');
+    }
+  };
+
+  const handleResumeScan = async () => {
+    if (!interruptedScan) return;
+    const checkpoint = interruptedScan;
+    setInterruptedScan(null);
+    await handleReset();
+    setUrl(checkpoint.rootUrl);
+    setSiteName(new URL(checkpoint.rootUrl).hostname);
+    setPhase('downloading');
+    downloadStartTimeRef.current = Date.now();
+    setProgressMessage('Initializing...');
+    scanOptionsRef.current = checkpoint.options;
+    const control = startScanControl(true);
+
+    try {
+      showScanResult(await resumeWebsiteSource(checkpoint, { transport, control }, handleProgressUpdate, handleAddWarning));
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+      setError(`Failed to resume the scan. ${errorMessage}`);
+      setPhase('error');
+      console.error(err);
+    } finally {
+      downloadStartTimeRef.current = null;
+      setEtr('');
+      endScanControl(control);
     }
-  }, [handleProgressUpdate, handleAddWarning, engineVersion]);
+  };
   
+  const handleDownloadPages = async (pageUrls: string[]) => {
+    if (!scanResult || pageUrls.length === 0) return;
+
+    setPhase('retrying');
+    setEtr('');
+    setProgressMessage(`Queueing ${pageUrls.length} page(s) for download...`);
+    const control = startScanControl(true);
+
+    try {
+        // Sessions restored from history don't keep their scan options; fall back to the defaults.
+        const options: ScanOptions = scanOptionsRef.current || { headers: {}, userAgent: '', politeness: DEFAULT_POLITENESS_OPTIONS };
+        const { zip, networkLog, failedUrls, cancelled } = await downloadSelectedPages(
+            pageUrls,
+            scanResult.zip,
+            scanResult.networkLog,
+            { ...options, transport, control },
+            (progress) => setProgressMessage(`[${progress.downloaded}/${progress.total}] ${progress.message}`),
+            handleAddWarning
+        );
+        setScanResult({ ...scanResult, zip, networkLog });
+
+        if (failedUrls.length > 0 && !cancelled) {
+            setFailedDownloads(prev => Array.from(new Set([...prev, ...failedUrls])));
+            setPhase('post-download-prompt');
+        } else {
+            setPhase('viewing');
+        }
+    } catch (err) {
+        console.error("Page download failed:", err);
+        setError("An error occurred while downloading the selected pages. Continuing with available files.");
+        setPhase('viewing');
+    } finally {
+        endScanControl(control);
+    }
+  };
+
   const handleSkipRetry = () => {
     setPhase('viewing');
   };
@@ -348,6 +632,7 @@ const App: React.FC = () => {
     setRetryAttempt(prev => prev + 1);
     setEtr('');
     setProgressMessage('Starting forceful retry...');
+    const control = startScanControl(false);
 
     try {
         const { zip, networkLog, stillFailedUrls } = await retryFailedDownloads(
@@ -359,9 +644,11 @@ const App: React.FC = () => {
                     ? `[${progress.downloaded}/${progress.total}] ${progress.message}`
                     : progress.message;
                 setProgressMessage(progressText);
-            }
+            },
+            transport,
+            control.signal
         );
-        setScanResult({ zip, networkLog, internalLinks: scanResult.internalLinks });
+        setScanResult({ ...scanResult, zip, networkLog });
 
         if (stillFailedUrls.length > 0) {
             setFailedDownloads(stillFailedUrls);
@@ -374,6 +661,8 @@ const App: React.FC = () => {
         console.error("Retry failed:", err);
         setError("An error occurred during the retry process. Continuing with available files.");
         setPhase('viewing'); 
+    } finally {
+        endScanControl(control);
     }
   };
 
@@ -384,6 +673,7 @@ const App: React.FC = () => {
     setRetryAttempt(prev => prev + 1);
     setEtr('');
     setProgressMessage('Resolving assets as Data URIs...');
+    const control = startScanControl(false);
 
     try {
         const { zip, networkLog, stillFailedUrls } = await retryFailedDownloadsAsDataURI(
@@ -393,9 +683,11 @@ const App: React.FC = () => {
             (progress) => {
                 const progressText = `[${progress.downloaded}/${progress.total}] ${progress.message}`;
                 setProgressMessage(progressText);
-            }
+            },
+            transport,
+            control.signal
         );
-        setScanResult({ zip, networkLog, internalLinks: scanResult.internalLinks });
+        setScanResult({ ...scanResult, zip, networkLog });
 
         if (stillFailedUrls.length > 0) {
             setFailedDownloads(stillFailedUrls);
@@ -408,6 +700,8 @@ const App: React.FC = () => {
         console.error("Data URI resolution failed:", err);
         setError("An error occurred during the Data URI resolution process. Continuing with available files.");
         setPhase('viewing'); 
+    } finally {
+        endScanControl(control);
     }
   };
 
@@ -418,6 +712,105 @@ const App: React.FC = () => {
     await downloadZipFile(scanResult.zip, sanitizedSiteName);
   }, [scanResult, siteName]);
 
+  const handleDownloadSnapshot = useCallback(async () => {
+    if (!scanResult?.zip || !siteName) return;
+    try {
+      const { zip, unresolved } = await createOfflineSnapshot(scanResult.zip, findRootUrl(scanResult.networkLog, `https://${siteName}/`));
+      setSnapshotNotice(unresolved.length > 0
+        ? `${unresolved.length} reference(s) in the offline snapshot point at files that were not downloaded. They are listed in _inspector/unresolved.json.`
+        : null);
+      await downloadZipFile(zip, siteName.replace(/\./g, '_'), 'offline');
+    } catch (err) {
+      console.error("Failed to build offline snapshot:", err);
+      alert("An error occurred while creating the offline snapshot.");
+    }
+  }, [scanResult, siteName]);
+
+  const handleExportHar = useCallback(async () => {
+    if (!scanResult?.zip || !siteName) return;
+    try {
+      const har = await exportHar(scanResult.zip, scanResult.networkLog, findRootUrl(scanResult.networkLog, `https://${siteName}/`));
+      downloadBlob(new Blob([JSON.stringify(har, null, 2)], { type: 'application/json' }), `${siteName.replace(/\./g, '_')}.har`);
+    } catch (err) {
+      console.error("Failed to export HAR:", err);
+      alert("An error occurred while creating the HAR file.");
+    }
+  }, [scanResult, siteName]);
+
+  const handleExportWarc = useCallback(async () => {
+    if (!scanResult?.zip || !siteName) return;
+    try {
+      const warc = await exportWarc(scanResult.zip, scanResult.networkLog, findRootUrl(scanResult.networkLog, `https://${siteName}/`), scanOptionsRef.current?.userAgent);
+      downloadBlob(warc, `${siteName.replace(/\./g, '_')}.warc`);
+    } catch (err) {
+      console.error("Failed to export WARC:", err);
+      alert("An error occurred while creating the WARC file.");
+    }
+  }, [scanResult, siteName]);
+
+  const handleExportSession = useCallback(async () => {
+    if (!scanResult?.zip || !siteName || !activeSnapshotRef.current) return;
+    try {
+      const session: SavedSession = {
+        id: activeSnapshotRef.current.id,
+        url,
+        phase,
+        siteName,
+        scanResult: { zipAsBlob: await scanResult.zip.generateAsync({ type: 'blob' }), networkLog: scanResult.networkLog, internalLinks: scanResult.internalLinks, refresh: scanResult.refresh, analysis: scanResult.analysis, security: scanResult.security },
+        scanOptions: scanOptionsRef.current,
+        failedDownloads,
+        warnings,
+        retryAttempt,
+        timestamp: activeSnapshotRef.current.timestamp,
+      };
+      downloadBlob(await exportSessionArchive(session), `${siteName.replace(/\./g, '_')}${SESSION_ARCHIVE_EXTENSION}`);
+    } catch (err) {
+      console.error("Failed to export session:", err);
+      alert("An error occurred while creating the session archive.");
+    }
+  }, [scanResult, siteName, url, phase, failedDownloads, warnings, retryAttempt]);
+
+  // Imported sessions are opened like a snapshot from history, which also saves them to it.
+  const handleImportSession = async (file: File) => {
+    try {
+      const session = await importSessionArchive(file);
+      let { timestamp } = session;
+      if (await getSession(snapshotId(session.url, timestamp))) {
+        const replace = window.confirm(
+          `The ${new Date(timestamp).toLocaleString()} snapshot of ${session.siteName} is already saved. Replace it with the imported copy? Cancel keeps both.`
+        );
+        // Snapshots are keyed by URL and time, so a kept copy moves to the next free millisecond.
+        while (!replace && await getSession(snapshotId(session.url, timestamp))) timestamp++;
+      }
+      await loadSession(snapshotId(session.url, timestamp), { ...session, timestamp });
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+      await handleReset();
+      setError(`Failed to import session archive. ${errorMessage}`);
+      setPhase('error');
+    }
+  };
+
+  const handleImportHar = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Allow importing the same file again.
+    if (!file) return;
+
+    await handleReset();
+    try {
+      const { zip, networkLog, internalLinks, rootUrl } = await importHar(await file.text());
+      scanOptionsRef.current = null;
+      setUrl(rootUrl);
+      setSiteName(new URL(rootUrl).hostname);
+      setScanResult({ zip, networkLog, internalLinks });
+      setPhase('viewing');
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+      setError(`Failed to import HAR file. ${errorMessage}`);
+      setPhase('error');
+    }
+  };
+
   const isLoading = phase === 'downloading' || phase === 'retrying';
 
   if (!isLoaded) {
@@ -449,6 +842,23 @@ const App: React.FC = () => {
                 />
             </div>
              <ThemeSwitcher theme={theme} onToggle={toggleTheme} />
+             <button
+                onClick={() => setIsSettingsOpen(true)}
+                disabled={isLoading}
+                className="p-2 rounded-full bg-white/50 dark:bg-gray-800/50 hover:bg-white/80 dark:hover:bg-gray-700/80 backdrop-blur-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                aria-label="Open network settings"
+                title={`Transport: ${transport.label}`}
+            >
+                <SettingsIcon className="h-5 w-5 text-gray-700 dark:text-gray-300" />
+            </button>
+             <button
+                onClick={() => setIsStorageOpen(true)}
+                className="p-2 rounded-full bg-white/50 dark:bg-gray-800/50 hover:bg-white/80 dark:hover:bg-gray-700/80 backdrop-blur-sm transition-colors"
+                aria-label="Open storage panel"
+                title="Storage usage and eviction"
+            >
+                <HardDriveIcon className="h-5 w-5 text-gray-700 dark:text-gray-300" />
+            </button>
              <button
                 onClick={() => setIsHistoryOpen(true)}
                 className="inline-flex items-center gap-2 px-3 py-2 text-sm font-semibold text-gray-600 dark:text-gray-300 bg-white/50 dark:bg-gray-800/50 rounded-lg hover:bg-white/80 dark:hover:bg-gray-700/80 backdrop-blur-sm"
@@ -457,6 +867,14 @@ const App: React.FC = () => {
                 <HistoryIcon className="h-5 w-5" />
                 History
             </button>
+             <label
+                className={`inline-flex items-center gap-2 px-3 py-2 text-sm font-semibold text-gray-600 dark:text-gray-300 bg-white/50 dark:bg-gray-800/50 rounded-lg hover:bg-white/80 dark:hover:bg-gray-700/80 backdrop-blur-sm ${isLoading ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}
+                title="Load a HAR file saved from the browser's Network panel"
+            >
+                <UploadIcon className="h-5 w-5" />
+                Import HAR
+                <input type="file" accept=".har,application/json" onChange={handleImportHar} disabled={isLoading} className="hidden" />
+            </label>
           </div>
           <p className="text-lg text-gray-700 dark:text-gray-300" style={{textShadow: '1px 1px 2px rgba(0,0,0,0.1)'}}>
             Fetch a website's static source, then use AI to analyze its architecture, security, and secrets.
@@ -464,17 +882,57 @@ const App: React.FC = () => {
         </header>
 
         <main className="bg-transparent p-0">
-          {phase === 'viewing' && scanResult ? (
+          {sessionDiff ? (
+            <SessionDiffView diff={sessionDiff} onClose={() => setSessionDiff(null)} />
+          ) : phase === 'viewing' && scanResult ? (
             <InspectorView
               result={scanResult}
               siteName={siteName}
               onDownload={handleDownload}
+              onDownloadSnapshot={handleDownloadSnapshot}
+              onExportHar={handleExportHar}
+              onExportWarc={handleExportWarc}
+              onExportSession={handleExportSession}
               onReset={() => handleReset(true)}
               saveError={saveError}
+              snapshotNotice={snapshotNotice}
+              onDismissSnapshotNotice={() => setSnapshotNotice(null)}
               engineVersion={engineVersion}
+              onDownloadPages={handleDownloadPages}
+              onAnalysisResult={handleAnalysisResult}
+              onSecurityResults={handleSecurityResults}
             />
           ) : (
              <div className="bg-white/70 dark:bg-slate-800 backdrop-blur-lg p-4 sm:p-8 rounded-xl shadow-2xl border border-white/30 dark:border-slate-700/50">
+              {phase === 'initial' && interruptedScan && (
+                <div className="mb-6 bg-blue-50/80 dark:bg-blue-900/30 text-blue-800 dark:text-blue-200 p-4 rounded-lg border border-blue-200 dark:border-blue-700 animate-fade-in">
+                  <div className="flex flex-col sm:flex-row items-center justify-between gap-3">
+                    <div className="flex items-center gap-3 min-w-0">
+                      <RefreshCwIcon className="h-6 w-6 flex-shrink-0" />
+                      <div className="min-w-0">
+                        <p className="font-semibold">Resume interrupted scan?</p>
+                        <p className="text-sm break-all">
+                          {interruptedScan.rootUrl} stopped after {interruptedScan.downloadedCount} files, with {interruptedScan.queue.length} still queued (saved {new Date(interruptedScan.updatedAt).toLocaleString()}).
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex gap-2 flex-shrink-0">
+                      <button
+                        onClick={handleResumeScan}
+                        className="px-4 py-2 text-sm font-semibold text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors"
+                      >
+                        Resume interrupted scan
+                      </button>
+                      <button
+                        onClick={handleDiscardInterruptedScan}
+                        className="px-4 py-2 text-sm font-semibold text-gray-700 dark:text-gray-200 bg-gray-200 dark:bg-gray-700 rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+                      >
+                        Discard
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              )}
               <UrlInputForm
                 url={url}
                 setUrl={setUrl}
@@ -497,6 +955,25 @@ const App: React.FC = () => {
                       {etr}
                     </p>
                   )}
+                  <div className="mt-4 flex justify-center gap-3">
+                    {isPausable && (
+                      <button
+                        onClick={handlePauseResume}
+                        className="px-4 py-2 text-sm font-semibold text-gray-700 dark:text-gray-200 bg-gray-200 dark:bg-gray-700 rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+                      >
+                        {isPaused ? 'Resume' : 'Pause'}
+                      </button>
+                    )}
+                    <button
+                      onClick={handleCancelScan}
+                      className="px-4 py-2 text-sm font-semibold text-red-700 dark:text-red-300 bg-red-100 dark:bg-red-900/40 rounded-lg hover:bg-red-200 dark:hover:bg-red-900/60 transition-colors"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                  {isPaused && (
+                    <p className="text-sm text-gray-500 dark:text-gray-400 mt-2">Paused. Requests already in flight will finish; nothing new starts until you resume.</p>
+                  )}
                 </div>
               )}
 
@@ -620,9 +1097,27 @@ const App: React.FC = () => {
         history={history}
         onClose={() => setIsHistoryOpen(false)}
         onLoad={loadSession}
-        onDelete={deleteSession}
+        onRefresh={handleRefreshSession}
+        onDelete={deleteSessions}
+        onCompare={handleCompareSessions}
+        onImport={handleImportSession}
         onClear={clearHistory}
       />
+      <StoragePanel
+        isOpen={isStorageOpen}
+        history={history}
+        policy={evictionPolicy}
+        onClose={() => setIsStorageOpen(false)}
+        onPolicyChange={handleEvictionPolicyChange}
+        onTogglePin={handleTogglePin}
+        onDelete={deleteSessions}
+      />
+      <SettingsModal
+        isOpen={isSettingsOpen}
+        settings={transportSettings}
+        onClose={() => setIsSettingsOpen(false)}
+        onSave={handleSaveTransportSettings}
+      />
     </div>
   );
 };
@@ -0,0 +1,206 @@
+import React, { useMemo, useState } from 'react';
+import { ApiEndpoint, SourceLocation } from '../types';
+import { ScannedEndpoint } from '../services/assetDiscovery';
+import { describeShape, EndpointCall, mergeEndpoints, RequestBody } from '../services/apiExtractor';
+import { buildOpenApiDocument, buildPostmanCollection } from '../services/apiSpecExport';
+import { downloadBlob } from '../services/downloader';
+import { DownloadIcon, LoaderIcon, ServerIcon } from './Icons';
+
+interface ApiEndpointsViewProps {
+    codeEndpoints: ScannedEndpoint[] | null; // Null while the code is being read.
+    aiEndpoints?: ApiEndpoint[];
+    aiLoading: boolean;
+    aiError?: string;
+    rootUrl?: string; // The scanned URL; the exports need it to place relative endpoints.
+    onOpenSource: (location: SourceLocation) => void;
+}
+
+type ViewMode = 'merged' | 'sideBySide';
+
+const ENDPOINT_CALL_LABELS: Record<EndpointCall, string> = {
+    fetch: 'fetch()',
+    axios: 'axios',
+    xhr: 'XMLHttpRequest',
+    jquery: 'jQuery',
+    sendBeacon: 'sendBeacon()',
+    eventSource: 'EventSource',
+    webSocket: 'WebSocket',
+};
+
+const METHOD_CLASSES: Record<string, string> = {
+    GET: 'bg-green-100 text-green-800 dark:bg-green-900/50 dark:text-green-300',
+    POST: 'bg-blue-100 text-blue-800 dark:bg-blue-900/50 dark:text-blue-300',
+    PUT: 'bg-amber-100 text-amber-800 dark:bg-amber-900/50 dark:text-amber-300',
+    PATCH: 'bg-amber-100 text-amber-800 dark:bg-amber-900/50 dark:text-amber-300',
+    DELETE: 'bg-red-100 text-red-800 dark:bg-red-900/50 dark:text-red-300',
+};
+
+const MethodBadge: React.FC<{ method: string }> = ({ method }) => (
+    <span className={`w-16 flex-shrink-0 px-2 py-0.5 text-xs font-bold text-center rounded ${METHOD_CLASSES[method] ?? 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-200'}`}>{method}</span>
+);
+
+const SourceBadge: React.FC<{ label: string; className: string }> = ({ label, className }) => (
+    <span className={`px-1.5 py-0.5 text-[10px] font-semibold uppercase rounded ${className}`}>{label}</span>
+);
+
+const describeBody = (body: RequestBody) =>
+    body.shape ? `${body.encoding} ${describeShape(body.shape)}` : body.encoding;
+
+const methodOf = (endpoint: ScannedEndpoint) => endpoint.method ?? (endpoint.call === 'webSocket' ? 'WS' : '?');
+
+/**
+ * The API endpoints of a scan: those found in the code by the static extractor, which are the
+ * same on every run and point at their call, and those the AI inferred. They can be shown merged
+ * into one list per method and path, or side by side.
+ */
+export const ApiEndpointsView: React.FC<ApiEndpointsViewProps> = ({ codeEndpoints, aiEndpoints, aiLoading, aiError, rootUrl, onOpenSource }) => {
+    const [viewMode, setViewMode] = useState<ViewMode>('merged');
+    const merged = useMemo(() => mergeEndpoints(codeEndpoints ?? [], aiEndpoints ?? []), [codeEndpoints, aiEndpoints]);
+
+    const LocationLink: React.FC<{ endpoint: ScannedEndpoint }> = ({ endpoint }) => (
+        <button
+            onClick={() => onOpenSource({ path: endpoint.path, line: endpoint.provenance.line ?? 1, column: endpoint.provenance.column ?? 0 })}
+            className="font-mono text-xs text-blue-600 dark:text-blue-400 hover:underline break-all text-left"
+        >
+            {endpoint.path}{endpoint.provenance.line !== undefined ? `:${endpoint.provenance.line}` : ''}
+        </button>
+    );
+
+    const CallDetails: React.FC<{ endpoint: ScannedEndpoint }> = ({ endpoint }) => {
+        const headers = Object.entries(endpoint.headers);
+        return (
+            <div className="text-xs text-gray-600 dark:text-gray-400 space-y-0.5">
+                <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-gray-500">{ENDPOINT_CALL_LABELS[endpoint.call]} in</span>
+                    <LocationLink endpoint={endpoint} />
+                </div>
+                {headers.length > 0 && (
+                    <p className="font-mono break-all">Headers: {headers.map(([name, value]) => `${name}: ${value ?? '…'}`).join(', ')}</p>
+                )}
+                {endpoint.body && <p className="font-mono break-all">Body: {describeBody(endpoint.body)}</p>}
+            </div>
+        );
+    };
+
+    const aiStatus = aiLoading ? (
+        <div className="flex justify-center py-4"><LoaderIcon className="h-6 w-6 animate-spin text-blue-500" /></div>
+    ) : aiError ? (
+        <p className="p-3 text-sm text-center text-red-500 dark:text-red-400">{aiError}</p>
+    ) : null;
+
+    if (!codeEndpoints) {
+        return <div className="flex items-center justify-center h-full"><LoaderIcon className="h-8 w-8 animate-spin text-blue-500" /></div>;
+    }
+
+    const renderCodeList = () => codeEndpoints.length > 0 ? (
+        <ul className="space-y-2">
+            {codeEndpoints.map((endpoint, index) => (
+                <li key={index} className="p-3 bg-gray-50 dark:bg-gray-800/50 rounded-lg border border-gray-200 dark:border-gray-700 space-y-1">
+                    <div className="flex items-center gap-3">
+                        <MethodBadge method={methodOf(endpoint)} />
+                        <code className="font-mono text-sm font-semibold text-gray-800 dark:text-gray-200 break-all">{endpoint.url}</code>
+                    </div>
+                    <CallDetails endpoint={endpoint} />
+                </li>
+            ))}
+        </ul>
+    ) : <p className="text-sm text-gray-500">No request calls with a static URL were found.</p>;
+
+    const renderAiList = () => aiStatus ?? ((aiEndpoints ?? []).length > 0 ? (
+        <ul className="space-y-2">
+            {aiEndpoints!.map((api, index) => (
+                <li key={index} className="p-3 bg-gray-50 dark:bg-gray-800/50 rounded-lg border border-gray-200 dark:border-gray-700">
+                    <div className="flex items-center gap-3">
+                        <MethodBadge method={(api.method || '?').toUpperCase()} />
+                        <code className="font-mono text-sm font-semibold text-gray-800 dark:text-gray-200 break-all">{api.endpoint}</code>
+                    </div>
+                    <p className="text-sm text-gray-600 dark:text-gray-400 mt-2 pl-1">{api.purpose}</p>
+                    <p className="text-xs text-gray-500 mt-2 pl-1">Found in: <code>{api.filePath}</code></p>
+                </li>
+            ))}
+        </ul>
+    ) : <p className="text-sm text-gray-500">The AI identified no API endpoints.</p>);
+
+    const renderMerged = () => merged.length > 0 ? (
+        <ul className="space-y-2">
+            {merged.map(group => (
+                <li key={`${group.method} ${group.path}`} className="p-3 bg-gray-50 dark:bg-gray-800/50 rounded-lg border border-gray-200 dark:border-gray-700 space-y-2">
+                    <div className="flex flex-wrap items-center gap-3">
+                        <MethodBadge method={group.method} />
+                        <code className="font-mono text-sm font-semibold text-gray-800 dark:text-gray-200 break-all flex-grow">
+                            {group.found[0]?.url ?? group.inferred[0].endpoint}
+                        </code>
+                        {group.found.length > 0 && <SourceBadge label="Code" className="bg-purple-100 text-purple-800 dark:bg-purple-900/50 dark:text-purple-300" />}
+                        {group.inferred.length > 0 && <SourceBadge label="AI" className="bg-sky-100 text-sky-800 dark:bg-sky-900/50 dark:text-sky-300" />}
+                    </div>
+                    {group.inferred.map((api, index) => (
+                        <p key={`ai-${index}`} className="text-sm text-gray-600 dark:text-gray-400">{api.purpose}</p>
+                    ))}
+                    {group.found.map((endpoint, index) => <CallDetails key={`code-${index}`} endpoint={endpoint} />)}
+                </li>
+            ))}
+        </ul>
+    ) : (
+        <div className="text-center py-8 text-gray-500">
+            <ServerIcon className="h-10 w-10 mx-auto mb-2" />
+            <p>No API endpoints were identified in the source code.</p>
+        </div>
+    );
+
+    const exportSpec = (format: 'openapi' | 'postman') => {
+        if (!rootUrl) return;
+        const spec = format === 'openapi' ? buildOpenApiDocument(merged, rootUrl) : buildPostmanCollection(merged, rootUrl);
+        const fileName = `${new URL(rootUrl).hostname.replace(/\./g, '_')}_${format === 'openapi' ? 'openapi' : 'postman_collection'}.json`;
+        downloadBlob(new Blob([JSON.stringify(spec, null, 2)], { type: 'application/json' }), fileName);
+    };
+
+    const ViewButton: React.FC<{ mode: ViewMode; label: string }> = ({ mode, label }) => (
+        <button onClick={() => setViewMode(mode)} className={`px-3 py-1 text-sm rounded-md ${viewMode === mode ? 'bg-blue-600 text-white' : 'bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-200 hover:bg-gray-300 dark:hover:bg-gray-600'}`}>
+            {label}
+        </button>
+    );
+
+    return (
+        <div className="overflow-y-auto h-full p-4 sm:p-6">
+            <div className="flex flex-wrap items-start justify-between gap-3 mb-4">
+                <div>
+                    <h3 className="text-lg font-semibold">Discovered API Endpoints</h3>
+                    <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+                        {codeEndpoints.length} request call{codeEndpoints.length === 1 ? '' : 's'} found in the code, and the endpoints the AI inferred. Parts of a URL only known at runtime are shown as <code>{'{placeholders}'}</code>.
+                    </p>
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                    <ViewButton mode="merged" label="Merged" />
+                    <ViewButton mode="sideBySide" label="Side by Side" />
+                    {rootUrl && merged.length > 0 && (
+                        <>
+                            <button onClick={() => exportSpec('openapi')} title="Export an OpenAPI 3.1 document, grouped by host" className="flex items-center gap-1.5 px-3 py-1 text-sm rounded-md border border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700">
+                                <DownloadIcon className="h-4 w-4" /> OpenAPI
+                            </button>
+                            <button onClick={() => exportSpec('postman')} title="Export a Postman collection, one folder per host" className="flex items-center gap-1.5 px-3 py-1 text-sm rounded-md border border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700">
+                                <DownloadIcon className="h-4 w-4" /> Postman
+                            </button>
+                        </>
+                    )}
+                </div>
+            </div>
+            {viewMode === 'merged' ? (
+                <>
+                    {renderMerged()}
+                    {aiStatus && <div className="mt-4">{aiStatus}</div>}
+                </>
+            ) : (
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                    <section>
+                        <h4 className="font-semibold mb-2">Found in the Code <span className="text-sm font-normal text-gray-500">({codeEndpoints.length})</span></h4>
+                        {renderCodeList()}
+                    </section>
+                    <section>
+                        <h4 className="font-semibold mb-2">Inferred by the AI <span className="text-sm font-normal text-gray-500">({aiEndpoints?.length ?? 0})</span></h4>
+                        {renderAiList()}
+                    </section>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,214 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { DiscoveryMechanism, DiscoveryProvenance, NetworkLogEntry, SourceLocation } from '../types';
+import { loadPathMapper, PathMapper } from '../services/pathMapper';
+import { findRootUrl } from '../services/downloader';
+import { GitForkIcon, SearchIcon } from './Icons';
+
+interface DependencyGraphProps {
+    zip: any;
+    networkLog: NetworkLogEntry[];
+    onOpenSource: (location: SourceLocation) => void;
+}
+
+interface GraphNode {
+    entry: NetworkLogEntry;
+    depth: number;
+    row: number;
+    parent?: GraphNode;
+}
+
+export const MECHANISM_LABELS: Record<DiscoveryMechanism, string> = {
+    attribute: 'HTML attribute',
+    cssUrl: 'CSS url()',
+    cssImport: 'CSS @import',
+    astLiteral: 'String literal in a script',
+    dynamicImport: 'Dynamic import()',
+    callArgument: 'Argument of a code-loading call',
+    importMap: 'Import map entry',
+    manifestIcon: 'Web manifest icon',
+    manifestScreenshot: 'Web manifest screenshot',
+    manifestStartUrl: 'Web manifest start_url',
+    sourceMapComment: 'sourceMappingURL comment',
+    bundlerTable: 'Bundler chunk table',
+    regexFallback: 'Regex fallback (the script could not be parsed)',
+    stringExpression: 'Constant string expression in a script',
+    urlConstructor: 'new URL(…, import.meta.url)',
+    requestCall: 'Argument of a request call',
+};
+
+/** Describes how and where a URL was found, e.g. "CSS url() in @media print, line 12:5". */
+export const describeProvenance = (provenance: DiscoveryProvenance): string => {
+    let label = provenance.mechanism === 'attribute' && provenance.attribute ? `${provenance.attribute} attribute` : MECHANISM_LABELS[provenance.mechanism];
+    if (provenance.atRules?.length) label += ` in ${provenance.atRules.join(' › ')}`;
+    return provenance.line !== undefined ? `${label}, line ${provenance.line}:${(provenance.column ?? 0) + 1}` : label;
+};
+
+const ROW_HEIGHT = 28;
+const COLUMN_WIDTH = 230;
+const NODE_WIDTH = 200;
+const NODE_HEIGHT = 22;
+const PADDING = 12;
+
+const NODE_STYLES: { label: string; test: (contentType: string) => boolean; className: string }[] = [
+    { label: 'Document', test: type => type.includes('html'), className: 'fill-blue-100 stroke-blue-500 dark:fill-blue-900/60' },
+    { label: 'Script', test: type => type.includes('javascript') || type.includes('ecmascript'), className: 'fill-yellow-100 stroke-yellow-500 dark:fill-yellow-900/60' },
+    { label: 'Stylesheet', test: type => type.includes('css'), className: 'fill-purple-100 stroke-purple-500 dark:fill-purple-900/60' },
+    { label: 'Image', test: type => type.startsWith('image/'), className: 'fill-green-100 stroke-green-500 dark:fill-green-900/60' },
+    { label: 'Font', test: type => type.startsWith('font/') || type.includes('woff'), className: 'fill-pink-100 stroke-pink-500 dark:fill-pink-900/60' },
+    { label: 'Data', test: type => type.includes('json') || type.includes('xml'), className: 'fill-orange-100 stroke-orange-500 dark:fill-orange-900/60' },
+];
+const OTHER_NODE_CLASS = 'fill-gray-100 stroke-gray-400 dark:fill-gray-700';
+
+const nodeClass = (entry: NetworkLogEntry) =>
+    entry.isError ? 'fill-red-100 stroke-red-500 dark:fill-red-900/60' : (NODE_STYLES.find(style => style.test(entry.contentType))?.className ?? OTHER_NODE_CLASS);
+
+const fileNameOf = (url: string) => {
+    const name = url.substring(url.lastIndexOf('/') + 1) || url;
+    return name.length > 28 ? `${name.slice(0, 27)}…` : name;
+};
+
+/**
+ * Lays the requests out as a tree: each URL under the file that referenced it, one row per
+ * request in depth-first order. Requests whose initiator wasn't downloaded become roots.
+ */
+function buildGraph(networkLog: NetworkLogEntry[]): GraphNode[] {
+    // The last entry of a URL wins, since retries replace earlier failures.
+    const entries = new Map(networkLog.map(entry => [entry.url, entry]));
+    const children = new Map<string, NetworkLogEntry[]>();
+    const roots: NetworkLogEntry[] = [];
+    entries.forEach(entry => {
+        if (entry.initiator !== entry.url && entries.has(entry.initiator)) {
+            if (!children.has(entry.initiator)) children.set(entry.initiator, []);
+            children.get(entry.initiator)!.push(entry);
+        } else {
+            roots.push(entry);
+        }
+    });
+
+    const nodes: GraphNode[] = [];
+    const visited = new Set<string>();
+    const visit = (entry: NetworkLogEntry, depth: number, parent?: GraphNode) => {
+        if (visited.has(entry.url)) return;
+        visited.add(entry.url);
+        const node: GraphNode = { entry, depth, row: nodes.length, parent };
+        nodes.push(node);
+        (children.get(entry.url) || []).forEach(child => visit(child, depth + 1, node));
+    };
+    roots.forEach(root => visit(root, 0));
+    // Initiator loops have no root; they're listed at the end.
+    entries.forEach(entry => visit(entry, 0));
+    return nodes;
+}
+
+export const DependencyGraph: React.FC<DependencyGraphProps> = ({ zip, networkLog, onOpenSource }) => {
+    const [paths, setPaths] = useState<PathMapper | null>(null);
+    const [searchTerm, setSearchTerm] = useState('');
+    const nodes = useMemo(() => buildGraph(networkLog), [networkLog]);
+
+    useEffect(() => {
+        const rootUrl = findRootUrl(networkLog);
+        if (!rootUrl) return;
+        let cancelled = false;
+        loadPathMapper(zip, rootUrl).then(mapper => { if (!cancelled) setPaths(mapper); });
+        return () => { cancelled = true; };
+    }, [zip, networkLog]);
+
+    // Archives made before the path manifest existed stored files at their URL path.
+    const pathOf = (url: string): string | null => {
+        let path: string | undefined;
+        try {
+            path = paths?.lookup(url) ?? (new URL(url).pathname.substring(1) || 'index.html');
+        } catch (e) {
+            return null;
+        }
+        return zip.file(path) ? path : null;
+    };
+
+    // Where a node's URL is referenced: its position in the initiator's file, or the file itself for roots.
+    const sourceLocationFor = (node: GraphNode): SourceLocation | null => {
+        if (!node.parent) {
+            const path = pathOf(node.entry.url);
+            return path ? { path, line: 1, column: 0 } : null;
+        }
+        const path = pathOf(node.parent.entry.url);
+        if (!path) return null;
+        return { path, line: node.entry.provenance?.line ?? 1, column: node.entry.provenance?.column ?? 0 };
+    };
+
+    const term = searchTerm.trim().toLowerCase();
+    const matches = (node: GraphNode) => !term || node.entry.url.toLowerCase().includes(term);
+    const maxDepth = nodes.reduce((max, node) => Math.max(max, node.depth), 0);
+    const width = (maxDepth + 1) * COLUMN_WIDTH + PADDING * 2;
+    const height = nodes.length * ROW_HEIGHT + PADDING * 2;
+    const nodeX = (node: GraphNode) => PADDING + node.depth * COLUMN_WIDTH;
+    const nodeY = (node: GraphNode) => PADDING + node.row * ROW_HEIGHT;
+
+    if (nodes.length === 0) {
+        return (
+            <div className="text-center py-8 text-gray-500">
+                <GitForkIcon className="h-10 w-10 mx-auto mb-2" />
+                <p>No requests were recorded.</p>
+            </div>
+        );
+    }
+
+    return (
+        <div className="h-full flex flex-col">
+            <div className="flex-shrink-0 p-2 border-b border-gray-200 dark:border-gray-700 bg-gray-50/80 dark:bg-gray-800/50 flex flex-wrap items-center gap-3">
+                <div className="relative w-64">
+                    <input
+                        type="text"
+                        placeholder="Highlight URLs..."
+                        value={searchTerm}
+                        onChange={(e) => setSearchTerm(e.target.value)}
+                        className="w-full pl-8 pr-3 py-1 text-sm bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md focus:ring-1 focus:ring-blue-500 outline-none"
+                    />
+                    <SearchIcon className="absolute left-2 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+                </div>
+                <div className="flex flex-wrap items-center gap-3 text-xs text-gray-600 dark:text-gray-400">
+                    {[...NODE_STYLES, { label: 'Other', className: OTHER_NODE_CLASS }, { label: 'Failed', className: 'fill-red-100 stroke-red-500 dark:fill-red-900/60' }].map(style => (
+                        <span key={style.label} className="inline-flex items-center gap-1">
+                            <svg width="12" height="12" aria-hidden="true"><rect x="1" y="1" width="10" height="10" rx="2" className={style.className} /></svg>
+                            {style.label}
+                        </span>
+                    ))}
+                </div>
+                <p className="text-xs text-gray-500 dark:text-gray-400 ml-auto">Click a request to open where it was referenced.</p>
+            </div>
+            <div className="flex-grow overflow-auto">
+                <svg width={width} height={height} className="block">
+                    <g className="stroke-gray-300 dark:stroke-gray-600" fill="none">
+                        {nodes.filter(node => node.parent).map(node => {
+                            const startX = nodeX(node.parent!) + NODE_WIDTH;
+                            const startY = nodeY(node.parent!) + NODE_HEIGHT / 2;
+                            const endX = nodeX(node);
+                            const endY = nodeY(node) + NODE_HEIGHT / 2;
+                            const midX = (startX + endX) / 2;
+                            return <path key={`edge-${node.row}`} d={`M${startX},${startY} C${midX},${startY} ${midX},${endY} ${endX},${endY}`} opacity={matches(node) ? 1 : 0.3} />;
+                        })}
+                    </g>
+                    {nodes.map(node => {
+                        const location = sourceLocationFor(node);
+                        const { entry } = node;
+                        const foundBy = entry.provenance ? describeProvenance(entry.provenance) : node.parent ? 'Unknown' : entry.initiator;
+                        return (
+                            <g
+                                key={`node-${node.row}`}
+                                transform={`translate(${nodeX(node)},${nodeY(node)})`}
+                                opacity={matches(node) ? 1 : 0.25}
+                                onClick={() => location && onOpenSource(location)}
+                                className={location ? 'cursor-pointer hover:opacity-80' : 'cursor-not-allowed'}
+                            >
+                                <title>{`${entry.url}\nStatus: ${entry.status} ${entry.statusText}\nFound by: ${foundBy}${location ? '' : '\nThe referencing file is not in the archive.'}`}</title>
+                                <rect width={NODE_WIDTH} height={NODE_HEIGHT} rx={4} className={nodeClass(entry)} />
+                                <text x={8} y={NODE_HEIGHT / 2} dominantBaseline="central" className="fill-gray-800 dark:fill-gray-100 font-mono" fontSize={11}>
+                                    {fileNameOf(entry.url)}
+                                </text>
+                            </g>
+                        );
+                    })}
+                </svg>
+            </div>
+        </div>
+    );
+};
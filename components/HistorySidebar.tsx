@@ -1,30 +1,86 @@
-import React from 'react';
-import { HistoryIcon, Trash2Icon, XIcon } from './Icons';
+import React, { useMemo, useState } from 'react';
+import { HistoryIcon, PinIcon, RefreshCwIcon, Trash2Icon, UploadIcon, XIcon } from './Icons';
 import { HistoryEntry } from '../types';
 
 interface HistorySidebarProps {
   isOpen: boolean;
   history: HistoryEntry[];
   onClose: () => void;
-  onLoad: (url: string) => void;
-  onDelete: (url: string) => void;
+  onLoad: (id: string) => void;
+  onRefresh: (id: string) => void;
+  onDelete: (ids: string[]) => void;
+  onCompare: (idA: string, idB: string) => void;
+  onImport: (file: File) => void;
   onClear: () => void;
 }
 
-export const HistorySidebar: React.FC<HistorySidebarProps> = ({ isOpen, history, onClose, onLoad, onDelete, onClear }) => {
+// The snapshots of one site, newest first.
+interface SiteHistory {
+  url: string;
+  siteName: string;
+  snapshots: HistoryEntry[];
+}
+
+const groupBySite = (history: HistoryEntry[]): SiteHistory[] => {
+  const sites = new Map<string, SiteHistory>();
+  [...history].sort((a, b) => b.timestamp - a.timestamp).forEach(entry => {
+    const site = sites.get(entry.url);
+    if (site) {
+      site.snapshots.push(entry);
+    } else {
+      sites.set(entry.url, { url: entry.url, siteName: entry.siteName, snapshots: [entry] });
+    }
+  });
+  return Array.from(sites.values());
+};
+
+export const HistorySidebar: React.FC<HistorySidebarProps> = ({ isOpen, history, onClose, onLoad, onRefresh, onDelete, onCompare, onImport, onClear }) => {
+  const [selected, setSelected] = useState<string[]>([]);
+  const sites = useMemo(() => groupBySite(history), [history]);
+
   if (!isOpen) return null;
 
-  const handleLoad = (e: React.MouseEvent, url: string) => {
+  const handleLoad = (e: React.MouseEvent, id: string) => {
+    e.stopPropagation();
+    onLoad(id);
+    onClose();
+  };
+
+  const handleRefresh = (e: React.MouseEvent, id: string) => {
     e.stopPropagation();
-    onLoad(url);
+    onRefresh(id);
     onClose();
   };
 
-  const handleDelete = (e: React.MouseEvent, url: string) => {
+  const handleDelete = (e: React.MouseEvent, ids: string[]) => {
+    e.stopPropagation();
+    if (ids.length > 1 && !window.confirm(`Delete all ${ids.length} snapshots of this site?`)) {
+      return;
+    }
+    setSelected(prev => prev.filter(id => !ids.includes(id)));
+    onDelete(ids);
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelected(prev => prev.includes(id) ? prev.filter(i => i !== id) : [...prev, id]);
+  };
+
+  const handleCompare = (e: React.MouseEvent) => {
     e.stopPropagation();
-    onDelete(url);
+    if (selected.length !== 2) return;
+    onCompare(selected[0], selected[1]);
+    setSelected([]);
+    onClose();
   };
   
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow importing the same file again.
+    if (!file) return;
+    onImport(file);
+    onClose();
+  };
+
   const handleClear = (e: React.MouseEvent) => {
       e.stopPropagation();
       if (window.confirm("Are you sure you want to delete all inspection history? This action cannot be undone.")) {
@@ -44,9 +100,18 @@ export const HistorySidebar: React.FC<HistorySidebarProps> = ({ isOpen, history,
             <HistoryIcon className="h-6 w-6" />
             Inspection History
           </h2>
-          <button onClick={onClose} className="p-1 rounded-full text-gray-500 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-700">
-            <XIcon className="h-6 w-6" />
-          </button>
+          <div className="flex items-center gap-1">
+            <label
+              className="p-1 rounded-full text-gray-500 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-700 cursor-pointer"
+              title="Import a session archive (.wpi)"
+            >
+              <UploadIcon className="h-6 w-6" />
+              <input type="file" accept=".wpi,application/zip" onChange={handleImport} className="hidden" aria-label="Import a session archive" />
+            </label>
+            <button onClick={onClose} className="p-1 rounded-full text-gray-500 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-700">
+              <XIcon className="h-6 w-6" />
+            </button>
+          </div>
         </header>
         <div className="flex-grow overflow-y-auto">
           {history.length === 0 ? (
@@ -56,29 +121,79 @@ export const HistorySidebar: React.FC<HistorySidebarProps> = ({ isOpen, history,
             </div>
           ) : (
             <ul className="divide-y divide-gray-200 dark:divide-gray-700">
-              {history.map((item) => (
-                <li key={item.url} className="p-4 hover:bg-gray-50 dark:hover:bg-gray-700/50 cursor-pointer group" onClick={(e) => handleLoad(e, item.url)}>
-                  <div className="flex justify-between items-center">
-                    <div>
-                      <p className="font-semibold text-blue-600 dark:text-blue-400 truncate" title={item.siteName}>{item.siteName}</p>
-                      <p className="text-sm text-gray-500 dark:text-gray-400 truncate" title={item.url}>{item.url}</p>
-                      <p className="text-xs text-gray-400 mt-1">{new Date(item.timestamp).toLocaleString()}</p>
+              {sites.map((site) => (
+                <li key={site.url} className="p-4">
+                  <div className="flex justify-between items-center gap-3 cursor-pointer group" onClick={(e) => handleLoad(e, site.snapshots[0].id)}>
+                    <div className="flex-grow min-w-0">
+                      <p className="font-semibold text-blue-600 dark:text-blue-400 truncate" title={site.siteName}>{site.siteName}</p>
+                      <p className="text-sm text-gray-500 dark:text-gray-400 truncate" title={site.url}>{site.url}</p>
+                      <p className="text-xs text-gray-400 mt-1">{site.snapshots.length} snapshot{site.snapshots.length > 1 ? 's' : ''}</p>
+                    </div>
+                    <div className="flex flex-shrink-0">
+                      <button
+                        onClick={(e) => handleRefresh(e, site.snapshots[0].id)}
+                        className="p-2 rounded-full text-gray-400 hover:text-blue-500 hover:bg-blue-100 dark:hover:bg-blue-900/50 opacity-0 group-hover:opacity-100 transition-opacity"
+                        aria-label={`Refresh ${site.siteName}`}
+                        title="Refresh: re-scan and only download what changed since the latest snapshot"
+                      >
+                        <RefreshCwIcon className="h-5 w-5" />
+                      </button>
+                      <button
+                        onClick={(e) => handleDelete(e, site.snapshots.map(snapshot => snapshot.id))}
+                        className="p-2 rounded-full text-gray-400 hover:text-red-500 hover:bg-red-100 dark:hover:bg-red-900/50 opacity-0 group-hover:opacity-100 transition-opacity"
+                        aria-label={`Delete all snapshots of ${site.siteName}`}
+                      >
+                        <Trash2Icon className="h-5 w-5" />
+                      </button>
                     </div>
-                    <button
-                      onClick={(e) => handleDelete(e, item.url)}
-                      className="p-2 rounded-full text-gray-400 hover:text-red-500 hover:bg-red-100 dark:hover:bg-red-900/50 opacity-0 group-hover:opacity-100 transition-opacity flex-shrink-0"
-                      aria-label={`Delete ${item.siteName}`}
-                    >
-                      <Trash2Icon className="h-5 w-5" />
-                    </button>
                   </div>
+                  <ul className="mt-2 space-y-1">
+                    {site.snapshots.map((snapshot, index) => (
+                      <li
+                        key={snapshot.id}
+                        className="flex items-center gap-3 pl-2 pr-1 py-1 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700/50 cursor-pointer group/snapshot"
+                        onClick={(e) => handleLoad(e, snapshot.id)}
+                      >
+                        <input
+                          type="checkbox"
+                          checked={selected.includes(snapshot.id)}
+                          onClick={(e) => e.stopPropagation()}
+                          onChange={() => toggleSelected(snapshot.id)}
+                          className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500 flex-shrink-0"
+                          aria-label={`Select the ${new Date(snapshot.timestamp).toLocaleString()} snapshot for comparison`}
+                        />
+                        <span className="flex-grow text-xs text-gray-600 dark:text-gray-300">
+                          {new Date(snapshot.timestamp).toLocaleString()}
+                          {index === 0 && <span className="ml-2 px-1.5 py-0.5 rounded bg-blue-100 dark:bg-blue-900/50 text-blue-700 dark:text-blue-300">Latest</span>}
+                          {snapshot.pinned && <PinIcon className="inline ml-2 h-3 w-3 text-blue-500" />}
+                        </span>
+                        {site.snapshots.length > 1 && (
+                          <button
+                            onClick={(e) => handleDelete(e, [snapshot.id])}
+                            className="p-1 rounded-full text-gray-400 hover:text-red-500 hover:bg-red-100 dark:hover:bg-red-900/50 opacity-0 group-hover/snapshot:opacity-100 transition-opacity"
+                            aria-label={`Delete the ${new Date(snapshot.timestamp).toLocaleString()} snapshot`}
+                          >
+                            <Trash2Icon className="h-4 w-4" />
+                          </button>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
                 </li>
               ))}
             </ul>
           )}
         </div>
         {history.length > 0 && (
-          <footer className="p-4 border-t border-gray-200 dark:border-gray-700 flex-shrink-0">
+          <footer className="p-4 border-t border-gray-200 dark:border-gray-700 flex-shrink-0 space-y-2">
+            <button
+              onClick={handleCompare}
+              disabled={selected.length !== 2}
+              className="w-full text-center px-4 py-2 text-sm font-medium text-blue-700 bg-blue-100 hover:bg-blue-200 dark:text-blue-300 dark:bg-blue-900/50 dark:hover:bg-blue-900 rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
+              title="Tick two snapshots to compare them"
+            >
+              Compare Selected ({selected.length}/2)
+            </button>
             <button onClick={handleClear} className="w-full text-center px-4 py-2 text-sm font-medium text-red-700 bg-red-100 hover:bg-red-200 dark:text-red-300 dark:bg-red-900/50 dark:hover:bg-red-900 rounded-md">
               Clear All History
             </button>
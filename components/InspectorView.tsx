@@ -1,14 +1,24 @@
 import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
-import { NetworkLogEntry, ZippedFile, FileNode, AiChatMessage, TechStack, PageVitals, ApiEndpoint } from '../types';
+import { NetworkLogEntry, ZippedFile, FileNode, AiChatMessage, TechStack, PageVitals, InternalLink, RefreshSummary, AssetChange, DiscoveryMethod, SourceLocation } from '../types';
 import { runLighthouseAudit, analyzeTechStack, getPageVitals, createAiChat, explainFile, analyzeApiEndpoints } from '../services/aiService';
 import { buildFileTree, formatBytes, getLanguageFromPath } from '../utils/fileUtils';
+import { diffLines, DiffRow } from '../utils/textDiff';
+import { FileChange } from '../services/sessionDiff';
+import { loadSourceMaps, originalPositionFor, OriginalPosition, SourceMapIndex } from '../services/sourceMaps';
 import { formatCode, deobfuscate } from '../utils/prettify';
-import { DownloadIcon, RefreshCwIcon, FileTextIcon, ImageIcon, LoaderIcon, BotIcon, AlertTriangleIcon, ClipboardListIcon, NetworkIcon, FileSearchIcon, SearchIcon, SparklesIcon, GaugeCircleIcon, ChevronRightIcon, FolderIcon, FolderOpenIcon, LayersIcon, NewspaperIcon, MessageSquareIcon, Wand2Icon, EyeIcon, XIcon, ShieldAlertIcon, SitemapIcon, HammerIcon, ServerIcon } from './Icons';
+import { DownloadIcon, RefreshCwIcon, FileTextIcon, ImageIcon, LoaderIcon, BotIcon, AlertTriangleIcon, ClipboardListIcon, NetworkIcon, FileSearchIcon, SearchIcon, SparklesIcon, GaugeCircleIcon, ChevronRightIcon, FolderIcon, FolderOpenIcon, LayersIcon, NewspaperIcon, MessageSquareIcon, Wand2Icon, EyeIcon, XIcon, ShieldAlertIcon, SitemapIcon, HammerIcon, ServerIcon, GitForkIcon, CodeIcon } from './Icons';
 import { Chat } from '@google/genai';
 import { EthicsSurveyModal } from './EthicsSurveyModal';
 import { CerberusEngine } from '../features/security/CerberusEngine';
 import { CerberusEngineV2 } from '../features/security/CerberusEngineV2';
 import { RecreationView } from './RecreationView';
+import { DependencyGraph, describeProvenance } from './DependencyGraph';
+import { findEndpointsInScan, ScannedEndpoint } from '../services/assetDiscovery';
+import { findRootUrl } from '../services/downloader';
+import { ApiEndpointsView } from './ApiEndpointsView';
+import { StylesheetStructure } from './StylesheetStructure';
+import { createInspectionZip, InlineScriptFile, InspectionZip } from '../services/inlineScripts';
+import { ScanResult as SecurityScanResult } from '../features/security/types';
 
 
 declare const Prism: any;
@@ -228,8 +238,107 @@ const AiChat: React.FC<{ zip: any; networkLog: NetworkLogEntry[] }> = ({ zip, ne
 };
 
 
+// --- SIDE-BY-SIDE DIFF ---
+
+// Unchanged runs longer than this are folded, keeping this many lines of context on each side.
+const DIFF_CONTEXT_LINES = 3;
+
+const SideBySideDiff: React.FC<{ rows: DiffRow[] }> = ({ rows }) => {
+    const items = useMemo(() => {
+        const result: (DiffRow | { folded: number })[] = [];
+        for (let i = 0; i < rows.length;) {
+            if (rows[i].kind !== 'same') {
+                result.push(rows[i++]);
+                continue;
+            }
+            let end = i;
+            while (end < rows.length && rows[end].kind === 'same') end++;
+            const keepHead = i === 0 ? 0 : DIFF_CONTEXT_LINES;
+            const keepTail = end === rows.length ? 0 : DIFF_CONTEXT_LINES;
+            if (end - i > keepHead + keepTail + 1) {
+                result.push(...rows.slice(i, i + keepHead), { folded: end - i - keepHead - keepTail }, ...rows.slice(end - keepTail, end));
+            } else {
+                result.push(...rows.slice(i, end));
+            }
+            i = end;
+        }
+        return result;
+    }, [rows]);
+
+    const sideClass = (row: DiffRow, side: 'left' | 'right') => {
+        if (!row[side]) return 'bg-gray-100 dark:bg-gray-800';
+        if (row.kind === 'same') return '';
+        return side === 'left' ? 'bg-red-50 dark:bg-red-900/30' : 'bg-green-50 dark:bg-green-900/30';
+    };
+
+    return (
+        <div className="h-full w-full overflow-auto bg-white dark:bg-gray-900 text-gray-800 dark:text-gray-200">
+            <table className="w-full text-xs font-mono table-fixed border-collapse">
+                <colgroup><col className="w-12" /><col /><col className="w-12" /><col /></colgroup>
+                <tbody>
+                    {items.map((item, i) => 'folded' in item ? (
+                        <tr key={i} className="bg-blue-50 dark:bg-blue-900/20 text-blue-700 dark:text-blue-300">
+                            <td colSpan={4} className="px-2 py-1 text-center">{item.folded} unchanged lines</td>
+                        </tr>
+                    ) : (
+                        <tr key={i} className="align-top">
+                            <td className="px-2 text-right text-gray-400 select-none border-r border-gray-200 dark:border-gray-700">{item.left?.number}</td>
+                            <td className={`px-2 whitespace-pre-wrap break-all border-r border-gray-200 dark:border-gray-700 ${sideClass(item, 'left')}`}>{item.left?.text}</td>
+                            <td className="px-2 text-right text-gray-400 select-none border-r border-gray-200 dark:border-gray-700">{item.right?.number}</td>
+                            <td className={`px-2 whitespace-pre-wrap break-all ${sideClass(item, 'right')}`}>{item.right?.text}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+};
+
+const FILE_CHANGE_STYLES: Record<FileChange['status'], { label: string; className: string }> = {
+    added: { label: 'A', className: 'text-green-600 dark:text-green-400' },
+    modified: { label: 'M', className: 'text-yellow-600 dark:text-yellow-400' },
+    removed: { label: 'D', className: 'text-red-600 dark:text-red-400' },
+};
+
+const FileChangeMarker: React.FC<{ status: FileChange['status'] }> = ({ status }) => (
+    <span className={`ml-auto pl-2 text-xs font-bold font-mono ${FILE_CHANGE_STYLES[status].className}`} title={status}>{FILE_CHANGE_STYLES[status].label}</span>
+);
+
+const zipFileSize = (file: ZipFile | null): number => {
+    let size = file?._data?.uncompressedSize || 0;
+    if (size === 0 && file?._data?.data) {
+        const data = file._data.data;
+        if (data instanceof ArrayBuffer || data instanceof Uint8Array) {
+            size = data.byteLength;
+        } else if (typeof data === 'string') {
+            size = new Blob([data]).size;
+        }
+    }
+    return size;
+};
+
+const collectFolderPaths = (nodes: FileNode[]): string[] =>
+    nodes.flatMap(node => node.children ? [node.path, ...collectFolderPaths(node.children)] : []);
+
+const ancestorFolders = (path: string): string[] =>
+    path.split('/').slice(0, -1).map((_, i, parts) => parts.slice(0, i + 1).join('/'));
+
+
+const INLINE_SCRIPT_LABELS: Record<InlineScriptFile['kind'], (attribute?: string) => string> = {
+    script: () => 'Inline script',
+    eventHandler: attribute => `${attribute} event handler`,
+    javascriptUrl: attribute => `javascript: URL in ${attribute}`,
+};
+
 // --- FILE EXPLORER COMPONENT ---
-const FileExplorer: React.FC<{ zip: any, baseUrl: string }> = ({ zip, baseUrl }) => {
+// With `compare`, only the changed files are listed; removed files are read from the older
+// zip and modified text files are shown as a side-by-side diff against their previous version.
+// Otherwise, when the scan has source maps, an "Original Sources" tree lists the sources they
+// rebuild, and a click in a minified file offers to jump to the original file and line.
+// `openAt` opens a file at a line when the explorer is shown, instead of the index page.
+// `inlineScripts` lists the code extracted from pages (`page.html#script-1.js`), which links back
+// to where it sits in the page.
+export const FileExplorer: React.FC<{ zip: any, baseUrl: string, compare?: { previousZip: any; changes: FileChange[] }, openAt?: SourceLocation, inlineScripts?: InlineScriptFile[] }> = ({ zip, baseUrl, compare, openAt, inlineScripts }) => {
     const [files, setFiles] = useState<ZippedFile[]>([]);
     const [fileTree, setFileTree] = useState<FileNode[]>([]);
     const [selectedFile, setSelectedFile] = useState<ZippedFile | null>(null);
@@ -242,47 +351,74 @@ const FileExplorer: React.FC<{ zip: any, baseUrl: string }> = ({ zip, baseUrl })
     const [markdownView, setMarkdownView] = useState<'rendered' | 'raw'>('rendered');
     const [isAiExplaining, setIsAiExplaining] = useState(false);
     const [aiExplanation, setAiExplanation] = useState<string | null>(null);
+    const [diffRows, setDiffRows] = useState<DiffRow[] | null>(null);
     const codeRef = useRef<HTMLElement>(null);
+    const codeScrollRef = useRef<HTMLDivElement>(null);
+    const changesByPath = useMemo(() => new Map(compare?.changes.map(change => [change.path, change])), [compare]);
+    const [sourceMaps, setSourceMaps] = useState<SourceMapIndex | null>(null);
+    const [treeMode, setTreeMode] = useState<'downloaded' | 'original'>('downloaded');
+    const [mappedPosition, setMappedPosition] = useState<OriginalPosition | null>(null);
+    // Set by a jump to an original source: the file to open once its tree is listed, then the line to scroll to.
+    const [jumpTarget, setJumpTarget] = useState<SourceLocation | null>(openAt ?? null);
+    const [pendingLine, setPendingLine] = useState<number | null>(null);
+    const inlineScriptsByPath = useMemo(() => new Map(inlineScripts?.map(file => [file.path, file])), [inlineScripts]);
+    const activeZip = treeMode === 'original' && sourceMaps ? sourceMaps.zip : zip;
 
     // State for new formatting logic
     const [viewMode, setViewMode] = useState<'original' | 'formatted' | 'deobfuscated'>('original');
 
     useEffect(() => {
-        const fileList: ZippedFile[] = Object.values(zip.files as Record<string, ZipFile>)
-            .filter((file) => !file.dir)
-            .map((file) => {
-                let size = file._data?.uncompressedSize || 0;
-                if (size === 0 && file._data?.data) {
-                    const data = file._data.data;
-                    if (data instanceof ArrayBuffer || data instanceof Uint8Array) {
-                        size = data.byteLength;
-                    } else if (typeof data === 'string') {
-                        size = new Blob([data]).size;
-                    }
-                }
-                return { name: file.name, size };
-            });
+        setSourceMaps(null);
+        setTreeMode('downloaded');
+        if (compare) return;
+        let cancelled = false;
+        loadSourceMaps(zip, baseUrl)
+            .then(index => { if (!cancelled && index.maps.size > 0) setSourceMaps(index); })
+            .catch(err => console.error('Failed to load source maps', err));
+        return () => { cancelled = true; };
+    }, [zip, baseUrl, compare]);
+
+    useEffect(() => {
+        const fileList: ZippedFile[] = compare
+            ? compare.changes.map(change => ({ name: change.path, size: zipFileSize((change.status === 'removed' ? compare.previousZip : zip).file(change.path)) }))
+            : Object.values(activeZip.files as Record<string, ZipFile>)
+                .filter((file) => !file.dir)
+                .map((file) => ({ name: file.name, size: zipFileSize(file) }));
         setFiles(fileList);
         const tree = buildFileTree(fileList);
         setFileTree(tree);
+        if (compare) {
+            // The list only holds changed files, so show them all.
+            setOpenFolders(new Set(collectFolderPaths(tree)));
+        }
 
+        const jumpFile = jumpTarget && fileList.find(f => f.name === jumpTarget.path);
         const indexFile = fileList.find(f => f.name === 'index.html');
-        if (indexFile) {
+        if (jumpFile) {
+            setOpenFolders(prev => new Set([...prev, ...ancestorFolders(jumpFile.name)]));
+            handleFileClick(jumpFile);
+            setPendingLine(jumpTarget!.line);
+            setJumpTarget(null);
+        } else if (indexFile) {
             handleFileClick(indexFile);
         } else if (fileList.length > 0) {
             handleFileClick(fileList[0]);
         }
-    }, [zip]);
+    }, [activeZip, compare]);
 
     const handleFileClick = useCallback(async (file: { name: string, size: number }) => {
-        if (!zip) return;
+        if (!activeZip) return;
         setSelectedFile(file);
         setIsLoadingContent(true);
         setFileContent(null);
         setOriginalContent(null);
+        setDiffRows(null);
+        setMappedPosition(null);
         setViewMode('original'); // Reset view mode on new file selection
 
-        const zipEntry = zip.file(file.name) as ZipFile | null;
+        const change = changesByPath.get(file.name);
+        const sourceZip = change?.status === 'removed' ? compare!.previousZip : activeZip;
+        const zipEntry = sourceZip.file(file.name) as ZipFile | null;
         if (!zipEntry) { setIsLoadingContent(false); return; }
 
         const extension = file.name.split('.').pop()?.toLowerCase() || '';
@@ -318,6 +454,10 @@ const FileExplorer: React.FC<{ zip: any, baseUrl: string }> = ({ zip, baseUrl })
                 } else {
                     setFileContent(textContent);
                     setOriginalContent(textContent);
+                    if (change?.status === 'modified' && change.previousPath) {
+                        const previousEntry = compare!.previousZip.file(change.previousPath) as ZipFile | null;
+                        if (previousEntry) setDiffRows(diffLines(await previousEntry.async('text'), textContent));
+                    }
                 }
             } catch (e) {
                 setContentType('binary');
@@ -325,7 +465,7 @@ const FileExplorer: React.FC<{ zip: any, baseUrl: string }> = ({ zip, baseUrl })
             }
         }
         setIsLoadingContent(false);
-    }, [zip]);
+    }, [activeZip, compare, changesByPath]);
     
      useEffect(() => {
         if (codeRef.current && fileContent && (contentType === 'text' || (contentType ==='markdown' && markdownView === 'raw')) && typeof Prism !== 'undefined') {
@@ -333,6 +473,48 @@ const FileExplorer: React.FC<{ zip: any, baseUrl: string }> = ({ zip, baseUrl })
         }
       }, [fileContent, contentType, selectedFile, viewMode, markdownView]);
 
+    useEffect(() => {
+        if (pendingLine === null || isLoadingContent || !codeRef.current || !codeScrollRef.current) return;
+        const lineHeight = parseFloat(getComputedStyle(codeRef.current).lineHeight) || 20;
+        // Leave a few lines of context above the target.
+        codeScrollRef.current.scrollTop = Math.max(0, (pendingLine - 4) * lineHeight);
+        setPendingLine(null);
+    }, [pendingLine, isLoadingContent, fileContent]);
+
+    const selectedSourceMap = treeMode === 'downloaded' && selectedFile ? sourceMaps?.maps.get(selectedFile.name) : undefined;
+
+    // Maps the clicked (or selected) position in a minified file through its source map.
+    const handleCodeMouseUp = () => {
+        const selection = window.getSelection();
+        const code = codeRef.current;
+        if (!selectedSourceMap || viewMode !== 'original' || !code || !selection?.anchorNode || !code.contains(selection.anchorNode)) return;
+        const range = document.createRange();
+        range.setStart(code, 0);
+        range.setEnd(selection.anchorNode, selection.anchorOffset);
+        const before = range.toString();
+        const line = before.split('\n').length;
+        const column = before.length - before.lastIndexOf('\n') - 1;
+        setMappedPosition(originalPositionFor(selectedSourceMap, line, column));
+    };
+
+    const selectedInlineScript = treeMode === 'downloaded' && selectedFile ? inlineScriptsByPath.get(selectedFile.name) : undefined;
+
+    const handleOpenHostPage = () => {
+        const page = selectedInlineScript && files.find(f => f.name === selectedInlineScript.document);
+        if (!page) return;
+        setSearchTerm('');
+        setOpenFolders(prev => new Set([...prev, ...ancestorFolders(page.name)]));
+        handleFileClick(page);
+        setPendingLine(selectedInlineScript!.line);
+    };
+
+    const handleJumpToOriginal = () => {
+        if (!mappedPosition) return;
+        setSearchTerm('');
+        setJumpTarget(mappedPosition);
+        setTreeMode('original');
+    };
+
     const handleFormat = () => {
         if (!originalContent || !selectedFile) return;
 
@@ -426,6 +608,7 @@ const FileExplorer: React.FC<{ zip: any, baseUrl: string }> = ({ zip, baseUrl })
                            <div className="w-5 shrink-0" />
                            <FileTextIcon className="h-5 w-5 mr-2 flex-shrink-0"/>
                            <span className="truncate">{node.name}</span>
+                           {changesByPath.has(node.path) && <FileChangeMarker status={changesByPath.get(node.path)!.status} />}
                         </button>
                     </div>
                 );
@@ -441,6 +624,21 @@ const FileExplorer: React.FC<{ zip: any, baseUrl: string }> = ({ zip, baseUrl })
     return (
         <div className="h-full flex flex-col md:flex-row">
             <aside className="w-full md:w-1/3 lg:w-1/4 border-b md:border-b-0 md:border-r border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800/50 flex flex-col">
+                {sourceMaps && (
+                    <div className="p-2 border-b border-gray-200 dark:border-gray-700 flex gap-1" role="tablist">
+                        {(['downloaded', 'original'] as const).map(mode => (
+                            <button
+                                key={mode}
+                                onClick={() => setTreeMode(mode)}
+                                role="tab"
+                                aria-selected={treeMode === mode}
+                                className={`flex-1 px-2 py-1 text-xs font-semibold rounded-md ${treeMode === mode ? 'bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200' : 'text-gray-600 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-700'}`}
+                            >
+                                {mode === 'downloaded' ? 'Downloaded' : `Original Sources (${Object.values(sourceMaps.zip.files as Record<string, ZipFile>).filter(file => !file.dir).length})`}
+                            </button>
+                        ))}
+                    </div>
+                )}
                 <div className="p-2 border-b border-gray-200 dark:border-gray-700">
                     <div className="relative">
                         <input
@@ -459,6 +657,7 @@ const FileExplorer: React.FC<{ zip: any, baseUrl: string }> = ({ zip, baseUrl })
                              <button key={file.name} onClick={() => handleFileClick(file)} className={`w-full text-left py-1 text-sm rounded-md flex items-center ${selectedFile?.name === file.name ? 'bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200 font-semibold' : 'text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700'}`}>
                                 <FileTextIcon className="h-5 w-5 mr-2 flex-shrink-0"/>
                                 <span className="truncate">{file.name}</span>
+                                {changesByPath.has(file.name) && <FileChangeMarker status={changesByPath.get(file.name)!.status} />}
                             </button>
                         ))
                     ) : (
@@ -471,6 +670,28 @@ const FileExplorer: React.FC<{ zip: any, baseUrl: string }> = ({ zip, baseUrl })
                     <span className="font-mono text-gray-600 dark:text-gray-400 truncate" title={selectedFile?.name}>{selectedFile?.name ?? 'No file selected'}</span>
                     {selectedFile && (
                         <div className="flex items-center gap-2">
+                            {selectedInlineScript && (
+                                <button
+                                    onClick={handleOpenHostPage}
+                                    title={`${INLINE_SCRIPT_LABELS[selectedInlineScript.kind](selectedInlineScript.attribute)}: open it in ${selectedInlineScript.document}`}
+                                    className="inline-flex items-center gap-1.5 px-2 py-1 text-xs font-semibold text-sky-700 dark:text-sky-300 bg-sky-100 dark:bg-sky-900/50 rounded-md hover:bg-sky-200 dark:hover:bg-sky-800/50 max-w-xs"
+                                >
+                                    <span className="truncate">← {selectedInlineScript.document.split('/').pop()}:{selectedInlineScript.line}:{selectedInlineScript.column + 1}</span>
+                                </button>
+                            )}
+                            {selectedSourceMap && viewMode === 'original' && (
+                                mappedPosition ? (
+                                    <button
+                                        onClick={handleJumpToOriginal}
+                                        title={`Open ${mappedPosition.path} at line ${mappedPosition.line}${mappedPosition.name ? ` (${mappedPosition.name})` : ''}`}
+                                        className="inline-flex items-center gap-1.5 px-2 py-1 text-xs font-semibold text-amber-700 dark:text-amber-300 bg-amber-100 dark:bg-amber-900/50 rounded-md hover:bg-amber-200 dark:hover:bg-amber-800/50 max-w-xs"
+                                    >
+                                        <span className="truncate">→ {mappedPosition.path.split('/').pop()}:{mappedPosition.line}:{mappedPosition.column + 1}</span>
+                                    </button>
+                                ) : (
+                                    <span className="text-xs text-gray-500 dark:text-gray-500">Source map: click in the code to find the original</span>
+                                )
+                            )}
                             <span className="text-xs text-gray-500 dark:text-gray-500">{formatBytes(selectedFile.size)}</span>
                              <button
                                 onClick={handleExplainFile}
@@ -489,7 +710,7 @@ const FileExplorer: React.FC<{ zip: any, baseUrl: string }> = ({ zip, baseUrl })
                                     {markdownView === 'rendered' ? 'View Raw' : 'Render View'}
                                 </button>
                             )}
-                            {contentType === 'text' && (
+                            {contentType === 'text' && !diffRows && (
                                 <button
                                     onClick={handleFormat}
                                     className="inline-flex items-center gap-1.5 px-2 py-1 text-xs font-semibold text-blue-700 dark:text-blue-300 bg-blue-100 dark:bg-blue-900/50 rounded-md hover:bg-blue-200 dark:hover:bg-blue-800/50"
@@ -498,7 +719,7 @@ const FileExplorer: React.FC<{ zip: any, baseUrl: string }> = ({ zip, baseUrl })
                                     {viewMode === 'formatted' ? 'Show Original' : 'Format'}
                                 </button>
                             )}
-                             {contentType === 'text' && (
+                             {contentType === 'text' && !diffRows && (
                                 <button
                                     onClick={handleDeobfuscate}
                                     className="inline-flex items-center gap-1.5 px-2 py-1 text-xs font-semibold text-purple-700 dark:text-purple-300 bg-purple-100 dark:bg-purple-900/50 rounded-md hover:bg-purple-200 dark:hover:bg-purple-800/50"
@@ -542,8 +763,10 @@ const FileExplorer: React.FC<{ zip: any, baseUrl: string }> = ({ zip, baseUrl })
                                 <pre className="!m-0 !p-4 text-sm h-full w-full"><code ref={codeRef} className={`language-markdown`}>{fileContent}</code></pre>
                             )}
                         </div>
+                    ) : diffRows ? (
+                        <SideBySideDiff rows={diffRows} />
                     ) : (
-                        <div className="h-full w-full overflow-auto"><pre className="!m-0 !p-4 text-sm h-full w-full" tabIndex={0}><code ref={codeRef} className={`language-${getLanguageFromPath(selectedFile.name)}`}>{fileContent}</code></pre></div>
+                        <div ref={codeScrollRef} className="h-full w-full overflow-auto"><pre className="!m-0 !p-4 text-sm h-full w-full" tabIndex={0} onMouseUp={handleCodeMouseUp}><code ref={codeRef} className={`language-${getLanguageFromPath(selectedFile.name)}`}>{fileContent}</code></pre></div>
                     )}
                 </div>
             </main>
@@ -579,16 +802,78 @@ const FileExplorer: React.FC<{ zip: any, baseUrl: string }> = ({ zip, baseUrl })
 };
 
 
+const DISCOVERY_LABELS: Record<DiscoveryMethod, string> = {
+    modulepreload: 'Module preload',
+    importmap: 'Import map',
+    serviceWorker: 'Service worker registration',
+    worker: 'Worker constructor',
+    importScripts: 'importScripts() in a worker',
+    sourceMap: 'sourceMappingURL comment',
+    webpackChunk: 'Webpack chunk table',
+    viteChunk: 'Vite preload dependencies',
+    nextBuildManifest: 'Next.js build manifest',
+};
+
+// --- REFRESH SUMMARY ---
+
+const ChangeBadge: React.FC<{ change: AssetChange }> = ({ change }) => (
+    <span className={`mr-2 px-1.5 py-0.5 rounded text-[10px] font-sans font-semibold uppercase ${change === 'added' ? 'bg-green-100 text-green-800 dark:bg-green-900/50 dark:text-green-300' : change === 'changed' ? 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/50 dark:text-yellow-300' : 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300'}`}>
+        {change === 'added' ? 'New' : change}
+    </span>
+);
+
+const RefreshSummaryPanel: React.FC<{ summary: RefreshSummary }> = ({ summary }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const groups: { label: string; urls: string[] }[] = [
+        { label: 'Changed', urls: summary.changed },
+        { label: 'New', urls: summary.added },
+        { label: 'Removed', urls: summary.removed },
+    ];
+
+    return (
+        <div className="my-2 mx-2 bg-blue-50 dark:bg-blue-900/20 text-blue-900 dark:text-blue-200 p-3 rounded-lg border border-blue-200 dark:border-blue-700">
+            <button onClick={() => setIsOpen(!isOpen)} className="w-full flex items-center gap-2 text-left text-sm">
+                <ChevronRightIcon className={`h-4 w-4 flex-shrink-0 transition-transform ${isOpen ? 'rotate-90' : ''}`} />
+                <span>
+                    <strong>Refreshed</strong> since the snapshot of {new Date(summary.previousTimestamp).toLocaleString()}:{' '}
+                    {summary.changed.length} changed, {summary.added.length} new, {summary.removed.length} removed, {summary.unchanged.length} unchanged.
+                </span>
+            </button>
+            {isOpen && (
+                <div className="mt-2 pl-6 space-y-2 max-h-48 overflow-y-auto text-xs animate-fade-in">
+                    {groups.filter(group => group.urls.length > 0).map(group => (
+                        <div key={group.label}>
+                            <h5 className="font-semibold">{group.label}</h5>
+                            <ul className="font-mono break-all">
+                                {group.urls.map(url => <li key={url}>{url}</li>)}
+                            </ul>
+                        </div>
+                    ))}
+                    {groups.every(group => group.urls.length === 0) && <p>Nothing changed.</p>}
+                </div>
+            )}
+        </div>
+    );
+};
+
+
 // --- ANALYSIS VIEW COMPONENT ---
-const AnalysisView: React.FC<{ zip: any, networkLog: NetworkLogEntry[], internalLinks: string[] }> = ({ zip, networkLog, internalLinks }) => {
-    type AnalysisTab = 'network' | 'pages' | 'tech' | 'vitals' | 'apiEndpoints';
+const AnalysisView: React.FC<{ zip: any, networkLog: NetworkLogEntry[], internalLinks: InternalLink[], onDownloadPages: (pageUrls: string[]) => void, savedAnalysis?: Record<string, any>, onAnalysisResult: (type: string, result: any) => void, onOpenSource: (location: SourceLocation) => void }> = ({ zip, networkLog, internalLinks, onDownloadPages, savedAnalysis, onAnalysisResult, onOpenSource }) => {
+    type AnalysisTab = 'network' | 'pages' | 'graph' | 'stylesheets' | 'tech' | 'vitals' | 'apiEndpoints';
     const [activeTab, setActiveTab] = useState<AnalysisTab>('network');
-    const [analysisCache, setAnalysisCache] = useState<Record<string, any>>({});
+    // Results saved with the session are shown without asking the AI again.
+    const [analysisCache, setAnalysisCache] = useState<Record<string, any>>(savedAnalysis || {});
+    const rootUrl = useMemo(() => findRootUrl(networkLog), [networkLog]);
     const [isLoading, setIsLoading] = useState<Record<string, boolean>>({});
     
     // State for Network tab filter
     type FilterType = 'All' | 'Doc' | 'XHR' | 'JS' | 'CSS' | 'Img' | 'Font' | 'Other';
     const [filter, setFilter] = useState<FilterType>('All');
+    const [selectedEntry, setSelectedEntry] = useState<NetworkLogEntry | null>(null);
+    const [pageSourceFilter, setPageSourceFilter] = useState<'all' | InternalLink['source']>('all');
+    const [selectedPages, setSelectedPages] = useState<Set<string>>(new Set());
+    // Endpoints requested by the downloaded code, found without the AI. Loaded with the API Endpoints tab.
+    const [codeEndpoints, setCodeEndpoints] = useState<ScannedEndpoint[] | null>(null);
     
     const getResourceType = (contentType: string): FilterType => {
         if (contentType.includes('html')) return 'Doc';
@@ -615,8 +900,30 @@ const AnalysisView: React.FC<{ zip: any, networkLog: NetworkLogEntry[], internal
         });
     }, [networkLog, filter]);
 
+    const crawledPages = useMemo(() => {
+        return new Set(networkLog.filter(entry => !entry.isError && entry.contentType.includes('html')).map(entry => entry.url));
+    }, [networkLog]);
+
+    const visibleLinks = useMemo(() => {
+        if (pageSourceFilter === 'all') return internalLinks;
+        return internalLinks.filter(link => link.source === pageSourceFilter);
+    }, [internalLinks, pageSourceFilter]);
+
+    const togglePageSelection = (pageUrl: string) => {
+        setSelectedPages(prev => {
+            const next = new Set(prev);
+            if (next.has(pageUrl)) next.delete(pageUrl);
+            else next.add(pageUrl);
+            return next;
+        });
+    };
+
+    const selectAllVisiblePages = () => {
+        setSelectedPages(new Set(visibleLinks.filter(link => !crawledPages.has(link.url)).map(link => link.url)));
+    };
+
     const runAnalysis = useCallback(async (type: AnalysisTab) => {
-        if (analysisCache[type] || type === 'network' || type === 'pages') return;
+        if (analysisCache[type] || type === 'network' || type === 'pages' || type === 'graph' || type === 'stylesheets') return;
 
         setIsLoading(prev => ({ ...prev, [type]: true }));
         try {
@@ -657,20 +964,33 @@ const AnalysisView: React.FC<{ zip: any, networkLog: NetworkLogEntry[], internal
                     break;
             }
             setAnalysisCache(prev => ({ ...prev, [type]: result }));
+            onAnalysisResult(type, result);
         } catch (error) {
             console.error(`Analysis failed for ${type}:`, error);
             setAnalysisCache(prev => ({ ...prev, [type]: { error: `Failed to fetch analysis. ${error instanceof Error ? error.message : ''}` }}));
         } finally {
             setIsLoading(prev => ({ ...prev, [type]: false }));
         }
-    }, [zip, analysisCache]);
+    }, [zip, analysisCache, onAnalysisResult]);
     
     useEffect(() => {
-        if (activeTab !== 'network' && activeTab !== 'pages' && !analysisCache[activeTab]) {
+        if (activeTab !== 'network' && activeTab !== 'pages' && activeTab !== 'graph' && activeTab !== 'stylesheets' && !analysisCache[activeTab]) {
             runAnalysis(activeTab);
         }
     }, [activeTab, runAnalysis, analysisCache]);
     
+    useEffect(() => {
+        if (activeTab !== 'apiEndpoints' || codeEndpoints) return;
+        if (!rootUrl) {
+            setCodeEndpoints([]);
+            return;
+        }
+        findEndpointsInScan(zip, rootUrl).then(setCodeEndpoints).catch(error => {
+            console.error('Failed to look for endpoints in the code:', error);
+            setCodeEndpoints([]);
+        });
+    }, [activeTab, codeEndpoints, zip, rootUrl]);
+
     const TabButton = ({ id, label, icon }: { id: AnalysisTab, label: string, icon: React.ReactNode }) => (
         <button onClick={() => setActiveTab(id)} role="tab" aria-selected={activeTab === id} className={`flex items-center gap-2 px-4 py-3 text-sm font-semibold border-b-2 transition-colors ${activeTab === id ? 'border-blue-600 text-blue-600 dark:text-blue-400 dark:border-blue-400' : 'border-transparent text-gray-500 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200 hover:border-gray-300 dark:hover:border-gray-600'}`}>
             {icon} {label}
@@ -686,13 +1006,18 @@ const AnalysisView: React.FC<{ zip: any, networkLog: NetworkLogEntry[], internal
         const data = analysisCache[activeTab];
         const loading = isLoading[activeTab];
 
+        // The endpoints found in the code don't depend on the AI, so they show while it works or if it fails.
+        if (activeTab === 'apiEndpoints') {
+            return <ApiEndpointsView codeEndpoints={codeEndpoints} aiEndpoints={data?.error ? undefined : data} aiLoading={!!loading} aiError={data?.error} rootUrl={rootUrl} onOpenSource={onOpenSource} />;
+        }
+
         if (loading) {
             return <div className="flex items-center justify-center h-full"><LoaderIcon className="h-8 w-8 animate-spin text-blue-500" /></div>;
         }
         if (data?.error) {
             return <div className="p-4 text-center text-red-500 dark:text-red-400">{data.error}</div>;
         }
-        if (!data && !['network', 'pages', 'assets'].includes(activeTab)) return null;
+        if (!data && !['network', 'pages', 'graph', 'stylesheets', 'assets'].includes(activeTab)) return null;
 
         switch (activeTab) {
             case 'network': return (
@@ -700,6 +1025,7 @@ const AnalysisView: React.FC<{ zip: any, networkLog: NetworkLogEntry[], internal
                     <div className="flex-shrink-0 p-2 border-b border-gray-200 dark:border-gray-700 bg-gray-50/80 dark:bg-gray-800/50 flex items-center gap-2">
                         {(['All', 'Doc', 'XHR', 'JS', 'CSS', 'Img', 'Font', 'Other'] as FilterType[]).map(f => <FilterButton key={f} type={f} />)}
                     </div>
+                    <div className="flex-grow flex overflow-hidden">
                     <div className="overflow-auto flex-grow">
                          <table className="w-full text-sm text-left">
                             <thead className="text-xs text-gray-700 dark:text-gray-400 uppercase bg-gray-50 dark:bg-gray-800 sticky top-0 z-10">
@@ -718,8 +1044,11 @@ const AnalysisView: React.FC<{ zip: any, networkLog: NetworkLogEntry[], internal
                                     const initiatorName = entry.initiator.substring(entry.initiator.lastIndexOf('/') + 1) || entry.initiator;
 
                                     return (
-                                        <tr key={index} className="hover:bg-gray-50 dark:hover:bg-gray-800/50">
-                                            <td className="px-4 py-2 font-medium text-gray-900 dark:text-white truncate font-mono" title={entry.url}>{fileName}</td>
+                                        <tr key={index} onClick={() => setSelectedEntry(entry)} className={`cursor-pointer ${selectedEntry === entry ? 'bg-blue-50 dark:bg-blue-900/30' : 'hover:bg-gray-50 dark:hover:bg-gray-800/50'}`}>
+                                            <td className="px-4 py-2 font-medium text-gray-900 dark:text-white truncate font-mono" title={entry.url}>
+                                                {entry.change && entry.change !== 'unchanged' && <ChangeBadge change={entry.change} />}
+                                                {fileName}
+                                            </td>
                                             <td className={`px-4 py-2 font-semibold ${statusColor}`}>{entry.status}</td>
                                             <td className="px-4 py-2 text-gray-600 dark:text-gray-400">{getResourceType(entry.contentType)}</td>
                                             <td className="px-4 py-2 text-gray-600 dark:text-gray-400 truncate" title={entry.initiator}>{initiatorName}</td>
@@ -730,32 +1059,101 @@ const AnalysisView: React.FC<{ zip: any, networkLog: NetworkLogEntry[], internal
                             </tbody>
                         </table>
                     </div>
+                    {selectedEntry && (
+                        <aside className="w-2/5 flex-shrink-0 border-l border-gray-200 dark:border-gray-700 overflow-y-auto bg-gray-50 dark:bg-gray-800/50">
+                            <header className="flex items-center justify-between px-4 py-2 border-b border-gray-200 dark:border-gray-700 sticky top-0 bg-gray-100 dark:bg-gray-800">
+                                <h4 className="text-sm font-semibold truncate" title={selectedEntry.url}>Request Details</h4>
+                                <button onClick={() => setSelectedEntry(null)} className="p-1 rounded-full text-gray-500 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-700" aria-label="Close request details">
+                                    <XIcon className="h-4 w-4" />
+                                </button>
+                            </header>
+                            <div className="p-4 space-y-4 text-xs">
+                                <section>
+                                    <h5 className="font-semibold text-gray-700 dark:text-gray-300 mb-1">General</h5>
+                                    <dl className="grid grid-cols-[max-content_1fr] gap-x-3 gap-y-1 font-mono">
+                                        <dt className="text-gray-500">URL</dt><dd className="break-all">{selectedEntry.url}</dd>
+                                        <dt className="text-gray-500">Status</dt><dd>{selectedEntry.status} {selectedEntry.statusText}</dd>
+                                        <dt className="text-gray-500">Type</dt><dd className="break-all">{selectedEntry.contentType}</dd>
+                                        <dt className="text-gray-500">Initiator</dt><dd className="break-all">{selectedEntry.initiator}</dd>
+                                        <dt className="text-gray-500">Size</dt><dd>{formatBytes(selectedEntry.size)}</dd>
+                                        {selectedEntry.discoveredVia && <><dt className="text-gray-500">Found via</dt><dd>{DISCOVERY_LABELS[selectedEntry.discoveredVia]}</dd></>}
+                                        {selectedEntry.provenance && <><dt className="text-gray-500">Found by</dt><dd>{describeProvenance(selectedEntry.provenance)}</dd></>}
+                                        {selectedEntry.change && <><dt className="text-gray-500">Since last scan</dt><dd className="capitalize">{selectedEntry.change}</dd></>}
+                                    </dl>
+                                </section>
+                                <section>
+                                    <h5 className="font-semibold text-gray-700 dark:text-gray-300 mb-1">Response Headers</h5>
+                                    {selectedEntry.headers && Object.keys(selectedEntry.headers).length > 0 ? (
+                                        <dl className="grid grid-cols-[max-content_1fr] gap-x-3 gap-y-1 font-mono">
+                                            {Object.entries(selectedEntry.headers).map(([name, value]) => (
+                                                <React.Fragment key={name}>
+                                                    <dt className="text-gray-500">{name}</dt><dd className="break-all">{value}</dd>
+                                                </React.Fragment>
+                                            ))}
+                                        </dl>
+                                    ) : (
+                                        <p className="text-gray-500">No headers were captured for this request. The transport may have stripped them.</p>
+                                    )}
+                                </section>
+                            </div>
+                        </aside>
+                    )}
+                    </div>
                 </div>
             );
             case 'pages': return (
                 <div className="overflow-y-auto h-full p-4 sm:p-6">
                     <h3 className="text-lg font-semibold mb-3">Discovered Internal Pages</h3>
                     <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
-                        The following pages were linked from the main document. This may not be a complete list, but it provides an overview of the site's structure.
+                        The following pages were linked from the downloaded documents or listed in the site's sitemaps. Pages marked as downloaded can be browsed in the File Explorer; select others to download them with their assets.
                     </p>
-                    {internalLinks.length > 0 ? (
+                    <div className="flex flex-wrap items-center gap-2 mb-3">
+                        {(['all', 'anchor', 'sitemap'] as const).map(source => (
+                            <button key={source} onClick={() => setPageSourceFilter(source)} className={`px-3 py-1 text-xs font-semibold rounded-full ${pageSourceFilter === source ? 'bg-blue-600 text-white' : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-300 dark:hover:bg-gray-600'}`}>
+                                {source === 'all' ? 'All' : source === 'anchor' ? 'Links' : 'Sitemap'}
+                            </button>
+                        ))}
+                        <div className="flex-grow" />
+                        <button onClick={selectAllVisiblePages} className="px-3 py-1 text-xs font-semibold text-blue-600 dark:text-blue-400 hover:underline">Select all</button>
+                        {selectedPages.size > 0 && (
+                            <button onClick={() => setSelectedPages(new Set())} className="px-3 py-1 text-xs font-semibold text-gray-600 dark:text-gray-400 hover:underline">Clear</button>
+                        )}
+                        <button onClick={() => onDownloadPages(Array.from(selectedPages))} disabled={selectedPages.size === 0} className="inline-flex items-center px-3 py-1.5 text-xs font-semibold text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed">
+                            <DownloadIcon className="h-4 w-4 mr-1" /> Download Selected ({selectedPages.size})
+                        </button>
+                    </div>
+                    {visibleLinks.length > 0 ? (
                         <ul className="divide-y divide-gray-200 dark:divide-gray-700 border-t border-b border-gray-200 dark:border-gray-700">
-                            {internalLinks.map((link, index) => (
+                            {visibleLinks.map((link, index) => (
                                 <li key={index} className="p-3">
-                                    <a href={link} target="_blank" rel="noopener noreferrer" className="font-mono text-sm text-blue-600 dark:text-blue-400 hover:underline break-all">
-                                        {link}
-                                    </a>
+                                    <div className="flex items-center gap-2">
+                                        <input type="checkbox" aria-label={`Select ${link.url}`} checked={selectedPages.has(link.url)} onChange={() => togglePageSelection(link.url)} disabled={crawledPages.has(link.url)} className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500 disabled:opacity-30 flex-shrink-0"/>
+                                        <a href={link.url} target="_blank" rel="noopener noreferrer" className="font-mono text-sm text-blue-600 dark:text-blue-400 hover:underline break-all">
+                                            {link.url}
+                                        </a>
+                                        {crawledPages.has(link.url) && (
+                                            <span className="px-2 py-0.5 text-xs font-semibold rounded bg-green-100 text-green-800 dark:bg-green-900/50 dark:text-green-300 flex-shrink-0">Downloaded</span>
+                                        )}
+                                    </div>
+                                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1 ml-6 break-all">
+                                        <span className={`px-1.5 py-0.5 mr-1 rounded font-semibold ${link.source === 'sitemap' ? 'bg-purple-100 text-purple-800 dark:bg-purple-900/50 dark:text-purple-300' : 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300'}`}>{link.source === 'sitemap' ? 'Sitemap' : 'Link'}</span>
+                                        {link.source === 'sitemap' ? <>listed in <code>{link.foundOn}</code></> : <>Depth {link.depth} &middot; found on <code>{link.foundOn}</code></>}
+                                        {link.lastmod && <> &middot; last modified {link.lastmod}</>}
+                                        {link.priority !== undefined && <> &middot; priority {link.priority}</>}
+                                    </p>
                                 </li>
                             ))}
                         </ul>
                     ) : (
                         <div className="text-center py-8 text-gray-500">
                             <SitemapIcon className="h-10 w-10 mx-auto mb-2" />
-                            <p>No internal page links were found on the main HTML document.</p>
+                            <p>No internal pages were found in the downloaded documents or the site's sitemaps.</p>
                         </div>
                     )}
                 </div>
             );
+            case 'graph': return <DependencyGraph zip={zip} networkLog={networkLog} onOpenSource={onOpenSource} />;
+            case 'stylesheets': return <StylesheetStructure zip={zip} networkLog={networkLog} onOpenSource={onOpenSource} />;
             case 'tech': return (
                 <div className="p-6 space-y-4">
                     {Object.entries(data as TechStack).map(([key, values]) => (
@@ -780,35 +1178,6 @@ const AnalysisView: React.FC<{ zip: any, networkLog: NetworkLogEntry[], internal
                     ))}
                 </div>
             );
-            case 'apiEndpoints': 
-                const apiData = data as ApiEndpoint[];
-                return (
-                    <div className="overflow-y-auto h-full p-4 sm:p-6">
-                        <h3 className="text-lg font-semibold mb-3">Discovered API Endpoints</h3>
-                        <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
-                            The following API endpoints were inferred by analyzing the application's source code. This may not be a complete list.
-                        </p>
-                        {apiData.length > 0 ? (
-                            <div className="space-y-3">
-                                {apiData.map((api, index) => (
-                                    <div key={index} className="p-3 bg-gray-50 dark:bg-gray-800/50 rounded-lg border border-gray-200 dark:border-gray-700">
-                                        <div className="flex items-center gap-3">
-                                            <span className={`px-2 py-0.5 text-xs font-bold rounded ${api.method === 'GET' ? 'bg-green-100 text-green-800 dark:bg-green-900/50 dark:text-green-300' : 'bg-blue-100 text-blue-800 dark:bg-blue-900/50 dark:text-blue-300'}`}>{api.method}</span>
-                                            <code className="font-mono text-sm font-semibold text-gray-800 dark:text-gray-200 break-all">{api.endpoint}</code>
-                                        </div>
-                                        <p className="text-sm text-gray-600 dark:text-gray-400 mt-2 pl-1">{api.purpose}</p>
-                                        <p className="text-xs text-gray-500 dark:text-gray-500 mt-2 pl-1">Found in: <code>{api.filePath}</code></p>
-                                    </div>
-                                ))}
-                            </div>
-                        ) : (
-                            <div className="text-center py-8 text-gray-500">
-                                <ServerIcon className="h-10 w-10 mx-auto mb-2" />
-                                <p>No API endpoints were identified in the source code.</p>
-                            </div>
-                        )}
-                    </div>
-                );
         }
     };
 
@@ -817,6 +1186,8 @@ const AnalysisView: React.FC<{ zip: any, networkLog: NetworkLogEntry[], internal
             <div className="flex border-b border-gray-200 dark:border-gray-700 bg-gray-50/50 dark:bg-gray-800/50 px-2 flex-shrink-0" role="tablist">
                 <TabButton id="network" label={`Network (${networkLog.length})`} icon={<NetworkIcon className="h-5 w-5"/>} />
                 <TabButton id="pages" label={`Site Pages (${internalLinks.length})`} icon={<SitemapIcon className="h-5 w-5"/>} />
+                <TabButton id="graph" label="Dependency Graph" icon={<GitForkIcon className="h-5 w-5"/>} />
+                <TabButton id="stylesheets" label="Stylesheets" icon={<CodeIcon className="h-5 w-5"/>} />
                 <TabButton id="apiEndpoints" label="API Endpoints" icon={<ServerIcon className="h-5 w-5"/>} />
                 <TabButton id="tech" label="Technology Stack" icon={<LayersIcon className="h-5 w-5"/>} />
                 <TabButton id="vitals" label="Page Vitals" icon={<NewspaperIcon className="h-5 w-5"/>} />
@@ -889,19 +1260,50 @@ const LighthouseAudit: React.FC<{ zip: any }> = ({ zip }) => {
 
 // --- MAIN INSPECTOR VIEW ---
 export const InspectorView: React.FC<{
-  result: { zip: any; networkLog: NetworkLogEntry[]; internalLinks: string[] };
+  result: { zip: any; networkLog: NetworkLogEntry[]; internalLinks: InternalLink[]; refresh?: RefreshSummary; analysis?: Record<string, any>; security?: SecurityScanResult };
   siteName: string;
   onDownload: () => void;
+  onDownloadSnapshot: () => void;
+  onExportHar: () => void;
+  onExportWarc: () => void;
+  onExportSession: () => void;
   onReset: () => void;
   saveError: string | null;
+  snapshotNotice: string | null; // Set after an offline snapshot with unresolved references.
+  onDismissSnapshotNotice: () => void;
   engineVersion: 'v1' | 'v2';
-}> = ({ result, siteName, onDownload, onReset, saveError, engineVersion }) => {
+  onDownloadPages: (pageUrls: string[]) => void;
+  onAnalysisResult: (type: string, result: any) => void;
+  onSecurityResults: (results: SecurityScanResult) => void;
+}> = ({ result, siteName, onDownload, onDownloadSnapshot, onExportHar, onExportWarc, onExportSession, onReset, saveError, snapshotNotice, onDismissSnapshotNotice, engineVersion, onDownloadPages, onAnalysisResult, onSecurityResults }) => {
     type MainTab = 'explorer' | 'analysis' | 'security' | 'audit' | 'recreation';
     const [activeTab, setActiveTab] = useState<MainTab>('explorer');
     const [isEthicsModalOpen, setIsEthicsModalOpen] = useState(false);
     const [hasPassedEthicsCheck, setHasPassedEthicsCheck] = useState(false);
     const [isSecurityScanActive, setIsSecurityScanActive] = useState(false);
+    // Where the File Explorer opens next, when a dependency graph node was clicked.
+    const [explorerLocation, setExplorerLocation] = useState<SourceLocation | null>(null);
+    // The scan's files plus the code embedded in its pages, for the explorer and the security scanners.
+    // Analysis reads inline code from the pages themselves, so it keeps the scan zip.
+    const [inspection, setInspection] = useState<InspectionZip | null>(null);
+
+    useEffect(() => {
+        setInspection(null);
+        let cancelled = false;
+        createInspectionZip(result.zip)
+            .catch(err => {
+                console.error('Failed to extract inline scripts', err);
+                return { zip: result.zip, inlineScripts: [] };
+            })
+            .then(view => { if (!cancelled) setInspection(view); });
+        return () => { cancelled = true; };
+    }, [result.zip, result.networkLog]);
     
+    const handleOpenSource = (location: SourceLocation) => {
+        setExplorerLocation(location);
+        setActiveTab('explorer');
+    };
+
     const handleScanStart = () => setIsSecurityScanActive(true);
     const handleScanEnd = () => setIsSecurityScanActive(false);
 
@@ -936,26 +1338,29 @@ export const InspectorView: React.FC<{
         const activeClasses = `border-${colorClass}-600 text-${colorClass}-600 dark:text-${colorClass}-400 dark:border-${colorClass}-400`;
         const inactiveClasses = 'border-transparent text-gray-500 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200 hover:border-gray-300 dark:hover:border-gray-600';
         return (
-            <button onClick={onClick || (() => setActiveTab(id))} role="tab" aria-selected={activeTab === id} className={`flex items-center gap-2 px-4 py-2 text-sm font-semibold border-b-2 transition-colors -mb-px ${activeTab === id ? activeClasses : inactiveClasses}`}>
+            <button onClick={onClick || (() => { setExplorerLocation(null); setActiveTab(id); })} role="tab" aria-selected={activeTab === id} className={`flex items-center gap-2 px-4 py-2 text-sm font-semibold border-b-2 transition-colors -mb-px ${activeTab === id ? activeClasses : inactiveClasses}`}>
                 {icon} {label}
             </button>
         );
     };
 
     const renderActiveTabContent = () => {
+        if (!inspection) {
+            return <div className="flex items-center justify-center h-full"><LoaderIcon className="h-8 w-8 animate-spin text-blue-500" /></div>;
+        }
         switch (activeTab) {
             case 'explorer':
-                return <div className="h-full"><FileExplorer zip={result.zip} baseUrl={baseUrl} /></div>;
+                return <div className="h-full"><FileExplorer zip={inspection.zip} baseUrl={baseUrl} openAt={explorerLocation ?? undefined} inlineScripts={inspection.inlineScripts} /></div>;
             case 'analysis':
-                return <div className="h-full"><AnalysisView zip={result.zip} networkLog={result.networkLog} internalLinks={result.internalLinks} /></div>;
+                return <div className="h-full"><AnalysisView zip={result.zip} networkLog={result.networkLog} internalLinks={result.internalLinks} onDownloadPages={onDownloadPages} savedAnalysis={result.analysis} onAnalysisResult={onAnalysisResult} onOpenSource={handleOpenSource} /></div>;
             case 'security':
                 return (
                     <div className="h-full flex flex-col bg-white dark:bg-slate-900">
                         <div className="flex-grow overflow-y-auto relative">
                             {engineVersion === 'v1' ? (
-                                <CerberusEngine zip={result.zip} networkLog={result.networkLog} onScanStart={handleScanStart} onScanEnd={handleScanEnd} />
+                                <CerberusEngine zip={inspection.zip} networkLog={result.networkLog} onScanStart={handleScanStart} onScanEnd={handleScanEnd} onScanComplete={onSecurityResults} />
                             ) : (
-                                <CerberusEngineV2 zip={result.zip} networkLog={result.networkLog} onScanStart={handleScanStart} onScanEnd={handleScanEnd} />
+                                <CerberusEngineV2 zip={inspection.zip} networkLog={result.networkLog} onScanStart={handleScanStart} onScanEnd={handleScanEnd} onScanComplete={onSecurityResults} />
                             )}
                         </div>
                     </div>
@@ -984,12 +1389,22 @@ export const InspectorView: React.FC<{
                     <button onClick={onDownload} className="inline-flex items-center justify-center px-4 py-2 font-semibold text-white bg-blue-600 rounded-lg hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors">
                         <DownloadIcon className="-ml-1 mr-2 h-5 w-5" /> Download .zip
                     </button>
+                    <button onClick={onDownloadSnapshot} title="Links are rewritten to local files so the snapshot opens from disk" className="inline-flex items-center justify-center px-4 py-2 font-semibold text-blue-700 dark:text-blue-300 bg-blue-100 dark:bg-blue-900/40 rounded-lg hover:bg-blue-200 dark:hover:bg-blue-900/60 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors">
+                        <DownloadIcon className="-ml-1 mr-2 h-5 w-5" /> Offline Snapshot
+                    </button>
+                    <div className="inline-flex rounded-lg overflow-hidden border border-gray-300 dark:border-gray-600" role="group" aria-label="Export capture">
+                        <button onClick={onExportHar} title="HTTP Archive (HAR 1.2) with response bodies" className="px-3 py-2 text-sm font-semibold text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-800 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors">HAR</button>
+                        <button onClick={onExportWarc} title="Web ARChive (WARC 1.1) with request and response records" className="px-3 py-2 text-sm font-semibold text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-800 hover:bg-gray-100 dark:hover:bg-gray-700 border-l border-gray-300 dark:border-gray-600 transition-colors">WARC</button>
+                        <button onClick={onExportSession} title="Portable session archive (.wpi) with findings and analysis, for importing in another browser" className="px-3 py-2 text-sm font-semibold text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-800 hover:bg-gray-100 dark:hover:bg-gray-700 border-l border-gray-300 dark:border-gray-600 transition-colors">Session</button>
+                    </div>
                     <button onClick={onReset} className="inline-flex items-center justify-center px-4 py-2 font-semibold text-gray-700 dark:text-gray-200 bg-gray-200 dark:bg-gray-700 rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 transition-colors">
                         <RefreshCwIcon className="-ml-1 mr-2 h-5 w-5" /> Start Over
                     </button>
                 </div>
             </div>
 
+            {result.refresh && <RefreshSummaryPanel summary={result.refresh} />}
+
             {saveError && (
               <div className="my-2 mx-2 bg-yellow-50 dark:bg-yellow-900/20 text-yellow-900 dark:text-yellow-200 p-3 rounded-lg border border-yellow-200 dark:border-yellow-700 flex items-start gap-3" role="alert">
                   <AlertTriangleIcon className="h-5 w-5 flex-shrink-0 text-yellow-500 mt-0.5" />
@@ -1000,6 +1415,19 @@ export const InspectorView: React.FC<{
               </div>
             )}
 
+            {snapshotNotice && (
+              <div className="my-2 mx-2 bg-yellow-50 dark:bg-yellow-900/20 text-yellow-900 dark:text-yellow-200 p-3 rounded-lg border border-yellow-200 dark:border-yellow-700 flex items-start gap-3" role="status">
+                  <AlertTriangleIcon className="h-5 w-5 flex-shrink-0 text-yellow-500 mt-0.5" />
+                  <div className="flex-grow">
+                      <h4 className="font-semibold">Offline Snapshot Incomplete</h4>
+                      <p className="text-sm mt-1">{snapshotNotice}</p>
+                  </div>
+                  <button onClick={onDismissSnapshotNotice} className="p-1 rounded-full text-yellow-700 dark:text-yellow-300 hover:bg-yellow-100 dark:hover:bg-yellow-800/50" aria-label="Dismiss">
+                      <XIcon className="h-4 w-4" />
+                  </button>
+              </div>
+            )}
+
             <div className="border-t border-gray-200 dark:border-gray-700 h-[70vh] flex flex-col overflow-hidden">
                 <div className="flex border-b border-gray-200 dark:border-gray-700 bg-gray-50/50 dark:bg-gray-800/50 px-2" role="tablist">
                     <TabButton id="explorer" label="File Explorer" icon={<FileSearchIcon className="h-5 w-5" />} />
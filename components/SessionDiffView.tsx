@@ -0,0 +1,196 @@
+import React, { useMemo, useState } from 'react';
+import { SessionDiff, HeaderChange } from '../services/sessionDiff';
+import { FileExplorer } from './InspectorView';
+import { FileSearchIcon, NetworkIcon, ShieldAlertIcon, XIcon } from './Icons';
+import { formatBytes } from '../utils/fileUtils';
+
+interface SessionDiffViewProps {
+    diff: SessionDiff;
+    onClose: () => void;
+}
+
+type DiffTab = 'files' | 'network' | 'security';
+
+const formatSnapshot = (snapshot: { url: string; timestamp: number }) => `${snapshot.url} (${new Date(snapshot.timestamp).toLocaleString()})`;
+
+const describeHeader = (info?: HeaderChange['before']) => {
+    if (!info || !info.present) return 'Missing';
+    return info.value || 'Present';
+};
+
+const SectionTitle: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+    <h4 className="text-sm font-semibold text-gray-800 dark:text-gray-200 mb-2">{children}</h4>
+);
+
+const EmptyNote: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+    <p className="text-sm text-gray-500 dark:text-gray-400">{children}</p>
+);
+
+export const SessionDiffView: React.FC<SessionDiffViewProps> = ({ diff, onClose }) => {
+    const [activeTab, setActiveTab] = useState<DiffTab>('files');
+    const compare = useMemo(() => ({ previousZip: diff.before.zip, changes: diff.files }), [diff]);
+    const baseUrl = useMemo(() => {
+        try {
+            return new URL(diff.after.url).origin;
+        } catch (e) {
+            return `https://${diff.after.url}`;
+        }
+    }, [diff]);
+
+    const counts = {
+        added: diff.files.filter(file => file.status === 'added').length,
+        modified: diff.files.filter(file => file.status === 'modified').length,
+        removed: diff.files.filter(file => file.status === 'removed').length,
+    };
+
+    const TabButton = ({ id, label, icon }: { id: DiffTab, label: string, icon: React.ReactNode }) => (
+        <button onClick={() => setActiveTab(id)} role="tab" aria-selected={activeTab === id} className={`flex items-center gap-2 px-4 py-2 text-sm font-semibold border-b-2 transition-colors -mb-px ${activeTab === id ? 'border-blue-600 text-blue-600 dark:text-blue-400 dark:border-blue-400' : 'border-transparent text-gray-500 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200 hover:border-gray-300 dark:hover:border-gray-600'}`}>
+            {icon} {label}
+        </button>
+    );
+
+    const renderNetwork = () => (
+        <div className="h-full overflow-y-auto p-4 space-y-6">
+            <section>
+                <SectionTitle>New Third-Party Origins ({diff.newThirdPartyOrigins.length})</SectionTitle>
+                {diff.newThirdPartyOrigins.length > 0 ? (
+                    <ul className="text-sm font-mono space-y-1">
+                        {diff.newThirdPartyOrigins.map(origin => <li key={origin} className="text-red-700 dark:text-red-300 break-all">+ {origin}</li>)}
+                    </ul>
+                ) : <EmptyNote>No new third-party origins.</EmptyNote>}
+                {diff.removedThirdPartyOrigins.length > 0 && (
+                    <ul className="mt-2 text-sm font-mono space-y-1">
+                        {diff.removedThirdPartyOrigins.map(origin => <li key={origin} className="text-gray-500 dark:text-gray-400 break-all">- {origin}</li>)}
+                    </ul>
+                )}
+            </section>
+            <section>
+                <SectionTitle>New Network Requests ({diff.newRequests.length})</SectionTitle>
+                {diff.newRequests.length > 0 ? (
+                    <table className="w-full text-sm text-left">
+                        <thead className="text-xs text-gray-700 dark:text-gray-400 uppercase bg-gray-50 dark:bg-gray-800">
+                            <tr>
+                                <th scope="col" className="px-4 py-2">URL</th>
+                                <th scope="col" className="px-4 py-2 w-24">Status</th>
+                                <th scope="col" className="px-4 py-2 w-48">Type</th>
+                                <th scope="col" className="px-4 py-2 w-24">Size</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                            {diff.newRequests.map(entry => (
+                                <tr key={entry.url}>
+                                    <td className="px-4 py-2 font-mono break-all" title={`Initiator: ${entry.initiator}`}>{entry.url}</td>
+                                    <td className={`px-4 py-2 ${entry.isError ? 'text-red-500' : ''}`}>{entry.status || entry.statusText}</td>
+                                    <td className="px-4 py-2 text-gray-600 dark:text-gray-400 truncate">{entry.contentType}</td>
+                                    <td className="px-4 py-2 text-gray-600 dark:text-gray-400">{formatBytes(entry.size)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                ) : <EmptyNote>No new requests.</EmptyNote>}
+            </section>
+        </div>
+    );
+
+    const renderSecurity = () => (
+        <div className="h-full overflow-y-auto p-4 space-y-6">
+            <section>
+                <SectionTitle>Security Headers</SectionTitle>
+                {diff.headerChanges === null ? (
+                    <EmptyNote>Response headers were not captured for one of the sessions.</EmptyNote>
+                ) : diff.headerChanges.length === 0 ? (
+                    <EmptyNote>No changes.</EmptyNote>
+                ) : (
+                    <dl className="grid grid-cols-[max-content_1fr] gap-x-4 gap-y-2 text-sm">
+                        {diff.headerChanges.map(change => (
+                            <React.Fragment key={change.header}>
+                                <dt className="font-semibold">{change.header}</dt>
+                                <dd className="font-mono text-xs break-all">
+                                    <span className="text-red-700 dark:text-red-300">- {describeHeader(change.before)}</span><br />
+                                    <span className="text-green-700 dark:text-green-300">+ {describeHeader(change.after)}</span>
+                                    {change.after?.issues?.map(issue => <span key={issue} className="block text-yellow-700 dark:text-yellow-400">{issue}</span>)}
+                                </dd>
+                            </React.Fragment>
+                        ))}
+                    </dl>
+                )}
+            </section>
+            <section>
+                <SectionTitle>Security Findings</SectionTitle>
+                {diff.findings === null ? (
+                    <EmptyNote>Run a security scan on both sessions to compare their findings.</EmptyNote>
+                ) : diff.findings.added.length === 0 && diff.findings.resolved.length === 0 ? (
+                    <EmptyNote>No changes.</EmptyNote>
+                ) : (
+                    <ul className="text-sm space-y-2">
+                        {diff.findings.added.map((finding, i) => (
+                            <li key={`added-${i}`} className="text-red-700 dark:text-red-300">
+                                <strong>New ({finding.severity}):</strong> {finding.title} <span className="font-mono text-xs">{finding.filePath}</span>
+                            </li>
+                        ))}
+                        {diff.findings.resolved.map((finding, i) => (
+                            <li key={`resolved-${i}`} className="text-green-700 dark:text-green-300">
+                                <strong>Resolved ({finding.severity}):</strong> {finding.title} <span className="font-mono text-xs">{finding.filePath}</span>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </section>
+            <section>
+                <SectionTitle>Tech Stack</SectionTitle>
+                {diff.techStack === null ? (
+                    <EmptyNote>Open the Tech Stack analysis in both sessions to compare them.</EmptyNote>
+                ) : diff.techStack.length === 0 ? (
+                    <EmptyNote>No changes.</EmptyNote>
+                ) : (
+                    <ul className="text-sm space-y-1">
+                        {diff.techStack.map(change => (
+                            <li key={change.category}>
+                                <span className="font-semibold">{change.category}:</span>{' '}
+                                {change.added.map(item => <span key={item} className="mr-2 text-green-700 dark:text-green-300">+ {item}</span>)}
+                                {change.removed.map(item => <span key={item} className="mr-2 text-red-700 dark:text-red-300">- {item}</span>)}
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </section>
+        </div>
+    );
+
+    return (
+        <div className="bg-white/70 dark:bg-slate-800 backdrop-blur-lg rounded-xl shadow-2xl border border-white/30 dark:border-slate-700/50 animate-fade-in">
+            <div className="p-4 sm:p-6 flex items-start justify-between gap-4">
+                <div className="min-w-0">
+                    <h2 className="text-xl font-bold text-gray-800 dark:text-white">Session Comparison</h2>
+                    <p className="text-sm text-gray-600 dark:text-gray-400 break-all"><span className="font-semibold">Before:</span> {formatSnapshot(diff.before)}</p>
+                    <p className="text-sm text-gray-600 dark:text-gray-400 break-all"><span className="font-semibold">After:</span> {formatSnapshot(diff.after)}</p>
+                    <p className="text-sm mt-2">
+                        <span className="text-green-600 dark:text-green-400 font-semibold">{counts.added} added</span>,{' '}
+                        <span className="text-yellow-600 dark:text-yellow-400 font-semibold">{counts.modified} modified</span>,{' '}
+                        <span className="text-red-600 dark:text-red-400 font-semibold">{counts.removed} removed</span> files;{' '}
+                        {diff.newRequests.length} new requests, {diff.newThirdPartyOrigins.length} new third-party origins.
+                    </p>
+                </div>
+                <button onClick={onClose} className="p-1 rounded-full text-gray-500 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-700 flex-shrink-0" aria-label="Close comparison">
+                    <XIcon className="h-6 w-6" />
+                </button>
+            </div>
+            <div className="border-t border-gray-200 dark:border-gray-700 h-[70vh] flex flex-col overflow-hidden">
+                <div className="flex border-b border-gray-200 dark:border-gray-700 bg-gray-50/50 dark:bg-gray-800/50 px-2" role="tablist">
+                    <TabButton id="files" label={`Files (${diff.files.length})`} icon={<FileSearchIcon className="h-5 w-5" />} />
+                    <TabButton id="network" label="Network" icon={<NetworkIcon className="h-5 w-5" />} />
+                    <TabButton id="security" label="Security & Tech" icon={<ShieldAlertIcon className="h-5 w-5" />} />
+                </div>
+                <div className="flex-grow overflow-hidden bg-white dark:bg-gray-900/50 relative">
+                    {activeTab === 'files' && (
+                        diff.files.length > 0
+                            ? <div className="h-full"><FileExplorer zip={diff.after.zip} baseUrl={baseUrl} compare={compare} /></div>
+                            : <div className="flex items-center justify-center h-full text-gray-400">The two sessions have the same files.</div>
+                    )}
+                    {activeTab === 'network' && renderNetwork()}
+                    {activeTab === 'security' && renderSecurity()}
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,112 @@
+import React, { useState, useEffect } from 'react';
+import { SettingsIcon, XIcon, InfoIcon } from './Icons';
+import { TransportMode, TransportSettings } from '../types';
+import { DEFAULT_PROXY_TEMPLATES } from '../services/transport';
+
+interface SettingsModalProps {
+  isOpen: boolean;
+  settings: TransportSettings;
+  onClose: () => void;
+  onSave: (settings: TransportSettings) => void;
+}
+
+const transportModes: { id: TransportMode; name: string; description: string }[] = [
+  { id: 'proxies', name: 'CORS Proxies', description: 'Rotate through a list of proxy templates until one answers.' },
+  { id: 'direct', name: 'Direct Fetch', description: 'Request URLs directly. Only works for sites that allow cross-origin requests.' },
+  { id: 'relay', name: 'Local Relay', description: 'Send every request through your own relay (e.g. an internal compliance gateway).' },
+];
+
+export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, settings, onClose, onSave }) => {
+  const [mode, setMode] = useState<TransportMode>(settings.mode);
+  const [proxyTemplates, setProxyTemplates] = useState(settings.proxyTemplates.join('\n'));
+  const [relayUrl, setRelayUrl] = useState(settings.relayUrl);
+
+  // Re-sync the draft with the saved settings every time the modal is opened.
+  useEffect(() => {
+    if (isOpen) {
+      setMode(settings.mode);
+      setProxyTemplates(settings.proxyTemplates.join('\n'));
+      setRelayUrl(settings.relayUrl);
+    }
+  }, [isOpen, settings]);
+
+  if (!isOpen) return null;
+
+  const handleSave = () => {
+    const templates = proxyTemplates.split('\n').map(t => t.trim()).filter(Boolean);
+    onSave({ mode, proxyTemplates: templates, relayUrl: relayUrl.trim() });
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-900 bg-opacity-75 flex items-center justify-center z-50 p-4" role="dialog" aria-modal="true" aria-labelledby="settings-modal-title" onClick={onClose}>
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-lg w-full transform transition-all" onClick={e => e.stopPropagation()}>
+        <header className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+          <h3 className="text-lg leading-6 font-bold text-gray-900 dark:text-white flex items-center gap-3" id="settings-modal-title">
+            <SettingsIcon className="h-6 w-6 text-blue-500" />
+            Network Transport
+          </h3>
+          <button onClick={onClose} className="p-1 rounded-full text-gray-500 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-700">
+            <XIcon className="h-6 w-6" />
+          </button>
+        </header>
+        <div className="p-6 space-y-4">
+          <div className="space-y-2">
+            {transportModes.map(option => (
+              <label key={option.id} className={`flex items-start gap-3 p-3 rounded-lg border cursor-pointer ${mode === option.id ? 'border-blue-500 bg-blue-50/80 dark:bg-blue-900/30' : 'border-gray-200 dark:border-gray-700'}`}>
+                <input type="radio" name="transport-mode" value={option.id} checked={mode === option.id} onChange={() => setMode(option.id)} className="mt-1 h-4 w-4 text-blue-600 focus:ring-blue-500" />
+                <div>
+                  <p className="text-sm font-semibold text-gray-800 dark:text-gray-200">{option.name}</p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">{option.description}</p>
+                </div>
+              </label>
+            ))}
+          </div>
+
+          {mode === 'proxies' && (
+            <div>
+              <div className="flex items-center justify-between mb-1">
+                <label htmlFor="proxy-templates" className="block text-sm font-medium">Proxy Templates (one per line)</label>
+                <button type="button" onClick={() => setProxyTemplates(DEFAULT_PROXY_TEMPLATES.join('\n'))} className="text-xs font-semibold text-blue-600 dark:text-blue-400 hover:underline">Restore defaults</button>
+              </div>
+              <textarea id="proxy-templates" rows={6} value={proxyTemplates} onChange={e => setProxyTemplates(e.target.value)} className="w-full p-2 text-xs font-mono bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none" />
+            </div>
+          )}
+
+          {mode === 'relay' && (
+            <div>
+              <label htmlFor="relay-url" className="block text-sm font-medium mb-1">Relay URL</label>
+              <input type="text" id="relay-url" value={relayUrl} onChange={e => setRelayUrl(e.target.value)} placeholder="http://localhost:8787/fetch?url={url}" className="w-full px-3 py-2 text-sm font-mono bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg" />
+            </div>
+          )}
+
+          {mode !== 'direct' && (
+            <div className="bg-blue-50/80 dark:bg-blue-900/30 text-blue-800 dark:text-blue-300 p-3 rounded-lg border border-blue-200 dark:border-blue-700 flex items-start gap-3 text-xs">
+              <InfoIcon className="h-4 w-4 mt-0.5 flex-shrink-0 text-blue-500" />
+              <span>
+                Use <code>{'{url}'}</code> for the URL-encoded target or <code>{'{rawUrl}'}</code> for the unencoded one. Without a placeholder, the encoded target is appended.
+              </span>
+            </div>
+          )}
+        </div>
+        <footer className="bg-gray-50 dark:bg-gray-800/50 px-4 py-3 sm:px-6 sm:flex sm:flex-row-reverse rounded-b-lg">
+          <button
+            type="button"
+            className="w-full inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-blue-600 text-base font-medium text-white hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 sm:ml-3 sm:w-auto sm:text-sm disabled:bg-blue-400 dark:disabled:bg-blue-800 disabled:cursor-not-allowed"
+            onClick={handleSave}
+            disabled={mode === 'relay' && !relayUrl.trim()}
+          >
+            Save
+          </button>
+          <button
+            type="button"
+            className="mt-3 w-full inline-flex justify-center rounded-md border border-gray-300 dark:border-gray-600 shadow-sm px-4 py-2 bg-white dark:bg-gray-700 text-base font-medium text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 sm:mt-0 sm:w-auto sm:text-sm"
+            onClick={onClose}
+          >
+            Cancel
+          </button>
+        </footer>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,157 @@
+import React, { useEffect, useState } from 'react';
+import { HardDriveIcon, PinIcon, Trash2Icon, XIcon } from './Icons';
+import { EvictionPolicy, HistoryEntry } from '../types';
+import { EVICTION_POLICY_LABELS, getStorageEstimate, measureSnapshot, StorageEstimate } from '../services/storageQuota';
+import { formatBytes } from '../utils/fileUtils';
+
+interface StoragePanelProps {
+  isOpen: boolean;
+  history: HistoryEntry[];
+  policy: EvictionPolicy;
+  onClose: () => void;
+  onPolicyChange: (policy: EvictionPolicy) => void;
+  onTogglePin: (id: string) => void;
+  onDelete: (ids: string[]) => void;
+}
+
+const policyDescriptions: Record<EvictionPolicy, string> = {
+  oldest: 'Evict the snapshot that was scanned first.',
+  largest: 'Evict the snapshot that takes the most space.',
+  leastRecentlyOpened: 'Evict the snapshot you haven\'t opened for the longest time.',
+};
+
+export const StoragePanel: React.FC<StoragePanelProps> = ({ isOpen, history, policy, onClose, onPolicyChange, onTogglePin, onDelete }) => {
+  const [estimate, setEstimate] = useState<StorageEstimate | null>(null);
+  // Sizes of snapshots saved before sizes were tracked, measured when the panel opens.
+  const [measuredSizes, setMeasuredSizes] = useState<Record<string, number>>({});
+
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    getStorageEstimate().then(result => { if (!cancelled) setEstimate(result); });
+    (async () => {
+      for (const entry of history.filter(h => h.size === undefined && measuredSizes[h.id] === undefined)) {
+        const size = await measureSnapshot(entry.id);
+        if (cancelled) return;
+        if (size !== null) setMeasuredSizes(prev => ({ ...prev, [entry.id]: size }));
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [isOpen, history]);
+
+  if (!isOpen) return null;
+
+  const sizeOf = (entry: HistoryEntry) => entry.size ?? measuredSizes[entry.id];
+  const snapshots = [...history].sort((a, b) => (sizeOf(b) || 0) - (sizeOf(a) || 0));
+  const totalSize = snapshots.reduce((sum, entry) => sum + (sizeOf(entry) || 0), 0);
+  const usedPercent = estimate && estimate.quota > 0 ? Math.min(100, (estimate.usage / estimate.quota) * 100) : 0;
+
+  const handleDelete = (entry: HistoryEntry) => {
+    if (window.confirm(`Delete the ${new Date(entry.timestamp).toLocaleString()} snapshot of ${entry.siteName}? This action cannot be undone.`)) {
+      onDelete([entry.id]);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-900 bg-opacity-75 flex items-center justify-center z-50 p-4" role="dialog" aria-modal="true" aria-labelledby="storage-panel-title" onClick={onClose}>
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] flex flex-col transform transition-all" onClick={e => e.stopPropagation()}>
+        <header className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700 flex-shrink-0">
+          <h3 className="text-lg leading-6 font-bold text-gray-900 dark:text-white flex items-center gap-3" id="storage-panel-title">
+            <HardDriveIcon className="h-6 w-6 text-blue-500" />
+            Storage
+          </h3>
+          <button onClick={onClose} className="p-1 rounded-full text-gray-500 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-700">
+            <XIcon className="h-6 w-6" />
+          </button>
+        </header>
+        <div className="p-6 space-y-6 overflow-y-auto">
+          <div>
+            {estimate ? (
+              <>
+                <div className="flex justify-between text-sm mb-1">
+                  <span className="font-medium text-gray-800 dark:text-gray-200">{formatBytes(estimate.usage)} used of {formatBytes(estimate.quota)}</span>
+                  <span className="text-gray-500 dark:text-gray-400">{usedPercent.toFixed(1)}%</span>
+                </div>
+                <div className="w-full h-2 rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden">
+                  <div className={`h-full ${usedPercent > 90 ? 'bg-red-500' : usedPercent > 70 ? 'bg-yellow-500' : 'bg-blue-600'}`} style={{ width: `${usedPercent}%` }} />
+                </div>
+              </>
+            ) : (
+              <p className="text-sm text-gray-500 dark:text-gray-400">This browser doesn't report its storage quota.</p>
+            )}
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">Saved snapshots take about {formatBytes(totalSize)}.</p>
+          </div>
+
+          <div>
+            <p className="text-sm font-medium mb-2">When storage runs out, offer to evict</p>
+            <div className="space-y-2">
+              {(Object.keys(EVICTION_POLICY_LABELS) as EvictionPolicy[]).map(option => (
+                <label key={option} className={`flex items-start gap-3 p-3 rounded-lg border cursor-pointer ${policy === option ? 'border-blue-500 bg-blue-50/80 dark:bg-blue-900/30' : 'border-gray-200 dark:border-gray-700'}`}>
+                  <input type="radio" name="eviction-policy" value={option} checked={policy === option} onChange={() => onPolicyChange(option)} className="mt-1 h-4 w-4 text-blue-600 focus:ring-blue-500" />
+                  <div>
+                    <p className="text-sm font-semibold text-gray-800 dark:text-gray-200">{EVICTION_POLICY_LABELS[option]}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">{policyDescriptions[option]}</p>
+                  </div>
+                </label>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">You are always asked before a snapshot is evicted. Pinned snapshots are never evicted.</p>
+          </div>
+
+          <div>
+            <p className="text-sm font-medium mb-2">Snapshots ({snapshots.length})</p>
+            {snapshots.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">No saved snapshots.</p>
+            ) : (
+              <table className="w-full text-sm text-left">
+                <thead className="text-xs text-gray-700 dark:text-gray-400 uppercase bg-gray-50 dark:bg-gray-700/50">
+                  <tr>
+                    <th scope="col" className="px-3 py-2">Snapshot</th>
+                    <th scope="col" className="px-3 py-2 w-24">Size</th>
+                    <th scope="col" className="px-3 py-2 w-40">Last Opened</th>
+                    <th scope="col" className="px-3 py-2 w-20"><span className="sr-only">Actions</span></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {snapshots.map(entry => {
+                    const size = sizeOf(entry);
+                    return (
+                      <tr key={entry.id}>
+                        <td className="px-3 py-2 min-w-0">
+                          <p className="font-semibold text-gray-800 dark:text-gray-200 truncate" title={entry.url}>{entry.siteName}</p>
+                          <p className="text-xs text-gray-500 dark:text-gray-400">{new Date(entry.timestamp).toLocaleString()}</p>
+                        </td>
+                        <td className="px-3 py-2 text-gray-600 dark:text-gray-400">{size === undefined ? '…' : formatBytes(size)}</td>
+                        <td className="px-3 py-2 text-xs text-gray-600 dark:text-gray-400">{new Date(entry.lastOpened ?? entry.timestamp).toLocaleString()}</td>
+                        <td className="px-3 py-2">
+                          <div className="flex justify-end">
+                            <button
+                              onClick={() => onTogglePin(entry.id)}
+                              className={`p-1.5 rounded-full hover:bg-blue-100 dark:hover:bg-blue-900/50 ${entry.pinned ? 'text-blue-600 dark:text-blue-400' : 'text-gray-400 hover:text-blue-500'}`}
+                              aria-pressed={!!entry.pinned}
+                              aria-label={entry.pinned ? 'Unpin snapshot' : 'Pin snapshot'}
+                              title={entry.pinned ? 'Pinned: never evicted' : 'Pin so it is never evicted'}
+                            >
+                              <PinIcon className="h-4 w-4" />
+                            </button>
+                            <button
+                              onClick={() => handleDelete(entry)}
+                              className="p-1.5 rounded-full text-gray-400 hover:text-red-500 hover:bg-red-100 dark:hover:bg-red-900/50"
+                              aria-label={`Delete the ${new Date(entry.timestamp).toLocaleString()} snapshot of ${entry.siteName}`}
+                            >
+                              <Trash2Icon className="h-4 w-4" />
+                            </button>
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,229 @@
+import React, { useEffect, useState } from 'react';
+import { NetworkLogEntry, SourceLocation } from '../types';
+import { loadPathMapper, PathMapper } from '../services/pathMapper';
+import { findRootUrl } from '../services/downloader';
+import { CssImport, CssStructure, parseCss } from '../services/cssParser';
+import { createLocator, Locate } from '../utils/fileUtils';
+import { CodeIcon, LoaderIcon } from './Icons';
+
+interface StylesheetStructureProps {
+    zip: any;
+    networkLog: NetworkLogEntry[];
+    onOpenSource: (location: SourceLocation) => void;
+}
+
+interface ParsedSheet {
+    path: string;
+    url: string;
+    structure: CssStructure;
+    locate: Locate;
+}
+
+interface MediaQueryGroup {
+    condition: string;
+    ruleCount: number;
+    occurrences: { sheet: ParsedSheet; offset: number }[];
+}
+
+const SectionTitle: React.FC<{ title: string; count: number }> = ({ title, count }) => (
+    <h3 className="text-lg font-semibold mb-3">{title} <span className="text-sm font-normal text-gray-500">({count})</span></h3>
+);
+
+/**
+ * The structure of the downloaded stylesheets: which sheet imports which, the web fonts they
+ * declare and the media queries they use. Every entry links to its position in the File Explorer.
+ */
+export const StylesheetStructure: React.FC<StylesheetStructureProps> = ({ zip, networkLog, onOpenSource }) => {
+    const [sheets, setSheets] = useState<ParsedSheet[] | null>(null);
+    const [paths, setPaths] = useState<PathMapper | null>(null);
+
+    useEffect(() => {
+        const rootUrl = findRootUrl(networkLog);
+        if (!rootUrl) {
+            setSheets([]);
+            return;
+        }
+        let cancelled = false;
+        (async () => {
+            const mapper = await loadPathMapper(zip, rootUrl);
+            const urlsByPath = new Map(mapper.getManifest().files.map(entry => [entry.path, entry.url]));
+            const cssPaths = Object.keys(zip.files).filter(name => !zip.files[name].dir && /\.css$/i.test(name)).sort();
+            const parsed: ParsedSheet[] = [];
+            for (const path of cssPaths) {
+                try {
+                    const content: string = await zip.file(path).async('text');
+                    // Archives made before the path manifest existed stored files at their URL path.
+                    const url = urlsByPath.get(path) ?? new URL(`/${path}`, rootUrl).href;
+                    parsed.push({ path, url, structure: parseCss(content), locate: createLocator(content) });
+                } catch (e) {
+                    console.warn(`Failed to parse the stylesheet ${path}`, e);
+                }
+            }
+            if (!cancelled) {
+                setPaths(mapper);
+                setSheets(parsed);
+            }
+        })();
+        return () => { cancelled = true; };
+    }, [zip, networkLog]);
+
+    if (!sheets) {
+        return <div className="flex items-center justify-center h-full"><LoaderIcon className="h-8 w-8 animate-spin text-blue-500" /></div>;
+    }
+    if (sheets.length === 0) {
+        return (
+            <div className="text-center py-8 text-gray-500">
+                <CodeIcon className="h-10 w-10 mx-auto mb-2" />
+                <p>No stylesheets were downloaded.</p>
+            </div>
+        );
+    }
+
+    const sheetsByPath = new Map<string, ParsedSheet>(sheets.map(sheet => [sheet.path, sheet]));
+    const importedSheet = (sheet: ParsedSheet, cssImport: CssImport): ParsedSheet | undefined => {
+        try {
+            const url = new URL(cssImport.url, sheet.url);
+            return sheetsByPath.get(paths?.lookup(url.href) ?? url.pathname.substring(1));
+        } catch (e) {
+            return undefined;
+        }
+    };
+    const importedPaths = new Set<string>();
+    sheets.forEach(sheet => sheet.structure.imports.forEach(cssImport => {
+        const target = importedSheet(sheet, cssImport);
+        if (target) importedPaths.add(target.path);
+    }));
+    // When every sheet is imported by another (an import loop), the first one stands in for a root.
+    const roots = sheets.filter(sheet => !importedPaths.has(sheet.path));
+    if (roots.length === 0) roots.push(sheets[0]);
+
+    const openAt = (sheet: ParsedSheet, offset: number) => {
+        const { line, column } = sheet.locate(offset);
+        onOpenSource({ path: sheet.path, line: line ?? 1, column: column ?? 0 });
+    };
+    const LocationLink: React.FC<{ sheet: ParsedSheet; offset: number }> = ({ sheet, offset }) => (
+        <button onClick={() => openAt(sheet, offset)} className="font-mono text-xs text-blue-600 dark:text-blue-400 hover:underline break-all text-left">
+            {sheet.path}:{sheet.locate(offset).line ?? 1}
+        </button>
+    );
+
+    const renderImports = (sheet: ParsedSheet, ancestors: Set<string>): React.ReactNode => {
+        if (sheet.structure.imports.length === 0) return null;
+        const chain = new Set(ancestors).add(sheet.path);
+        return (
+            <ul className="ml-4 pl-3 border-l border-gray-200 dark:border-gray-700 space-y-1 mt-1">
+                {sheet.structure.imports.map((cssImport, i) => {
+                    const target = importedSheet(sheet, cssImport);
+                    const conditions = [
+                        cssImport.layer !== undefined && `layer(${cssImport.layer})`,
+                        cssImport.supports && `supports(${cssImport.supports})`,
+                        cssImport.media,
+                    ].filter(Boolean).join(' ');
+                    return (
+                        <li key={i}>
+                            <div className="flex flex-wrap items-baseline gap-2 text-sm">
+                                <button onClick={() => openAt(sheet, cssImport.offset)} className="font-mono text-gray-800 dark:text-gray-200 hover:underline break-all text-left" title="Show the @import rule">
+                                    {cssImport.url}
+                                </button>
+                                {conditions && <span className="text-xs text-gray-500">{conditions}</span>}
+                                {!target && <span className="text-xs text-amber-600 dark:text-amber-400">not downloaded</span>}
+                                {target && chain.has(target.path) && <span className="text-xs text-red-600 dark:text-red-400">import cycle</span>}
+                            </div>
+                            {target && !chain.has(target.path) && renderImports(target, chain)}
+                        </li>
+                    );
+                })}
+            </ul>
+        );
+    };
+
+    const fontFaces = sheets.flatMap(sheet => sheet.structure.fontFaces.map(fontFace => ({ sheet, fontFace })));
+    const mediaQueries = new Map<string, MediaQueryGroup>();
+    sheets.forEach(sheet => sheet.structure.mediaQueries.forEach(query => {
+        const group = mediaQueries.get(query.condition) ?? { condition: query.condition, ruleCount: 0, occurrences: [] };
+        group.ruleCount += query.ruleCount;
+        group.occurrences.push({ sheet, offset: query.offset });
+        mediaQueries.set(query.condition, group);
+    }));
+    const sortedQueries = Array.from(mediaQueries.values()).sort((a, b) => b.ruleCount - a.ruleCount);
+
+    return (
+        <div className="overflow-y-auto h-full p-4 sm:p-6 space-y-8">
+            <section>
+                <SectionTitle title="Import Chain" count={sheets.length} />
+                <ul className="space-y-2">
+                    {roots.map(sheet => (
+                        <li key={sheet.path}>
+                            <button onClick={() => onOpenSource({ path: sheet.path, line: 1, column: 0 })} className="font-mono text-sm font-semibold text-gray-800 dark:text-gray-200 hover:underline break-all text-left">
+                                {sheet.path}
+                            </button>
+                            {renderImports(sheet, new Set())}
+                        </li>
+                    ))}
+                </ul>
+            </section>
+
+            <section>
+                <SectionTitle title="Font Faces" count={fontFaces.length} />
+                {fontFaces.length > 0 ? (
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-sm text-left">
+                            <thead className="text-xs text-gray-500 uppercase border-b border-gray-200 dark:border-gray-700">
+                                <tr>
+                                    <th className="py-2 pr-4">Family</th>
+                                    <th className="py-2 pr-4">Weight</th>
+                                    <th className="py-2 pr-4">Style</th>
+                                    <th className="py-2 pr-4">Display</th>
+                                    <th className="py-2 pr-4">Sources</th>
+                                    <th className="py-2">Declared in</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-gray-100 dark:divide-gray-800">
+                                {fontFaces.map(({ sheet, fontFace }, i) => (
+                                    <tr key={i} className="align-top">
+                                        <td className="py-2 pr-4 font-semibold">{fontFace.family ?? '—'}</td>
+                                        <td className="py-2 pr-4">{fontFace.weight ?? 'normal'}</td>
+                                        <td className="py-2 pr-4">{fontFace.style ?? 'normal'}</td>
+                                        <td className="py-2 pr-4">{fontFace.display ?? 'auto'}</td>
+                                        <td className="py-2 pr-4">
+                                            <ul className="space-y-0.5">
+                                                {fontFace.sources.map((source, j) => (
+                                                    <li key={j} className="font-mono text-xs break-all">
+                                                        {source.url ? source.url : `local(${source.local})`}
+                                                        {source.format && <span className="ml-1 text-gray-500">({source.format})</span>}
+                                                    </li>
+                                                ))}
+                                            </ul>
+                                        </td>
+                                        <td className="py-2"><LocationLink sheet={sheet} offset={fontFace.offset} /></td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                ) : <p className="text-sm text-gray-500">No @font-face rules were found.</p>}
+            </section>
+
+            <section>
+                <SectionTitle title="Media Queries" count={sortedQueries.length} />
+                {sortedQueries.length > 0 ? (
+                    <ul className="space-y-2">
+                        {sortedQueries.map(group => (
+                            <li key={group.condition} className="p-3 bg-gray-50 dark:bg-gray-800/50 rounded-lg border border-gray-200 dark:border-gray-700">
+                                <div className="flex flex-wrap items-baseline justify-between gap-2">
+                                    <code className="font-mono text-sm font-semibold text-gray-800 dark:text-gray-200 break-all">@media {group.condition}</code>
+                                    <span className="text-xs text-gray-500">
+                                        {group.ruleCount} rule{group.ruleCount === 1 ? '' : 's'} in {group.occurrences.length} block{group.occurrences.length === 1 ? '' : 's'}
+                                    </span>
+                                </div>
+                                <div className="flex flex-wrap gap-x-3 gap-y-1 mt-1">
+                                    {group.occurrences.map((occurrence, i) => <LocationLink key={i} sheet={occurrence.sheet} offset={occurrence.offset} />)}
+                                </div>
+                            </li>
+                        ))}
+                    </ul>
+                ) : <p className="text-sm text-gray-500">No @media rules were found.</p>}
+            </section>
+        </div>
+    );
+};
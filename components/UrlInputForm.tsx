@@ -1,6 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { DownloadIcon, LoaderIcon, ChevronRightIcon, InfoIcon, ShieldAlertIcon } from './Icons';
-import { AppPhase } from '../types';
+import { AppPhase, ScanOptions, ThirdPartyPolicy } from '../types';
+import { DEFAULT_POLITENESS_OPTIONS } from '../services/politeness';
+import { DEFAULT_SCOPE_OPTIONS } from '../services/scope';
 
 // --- Configuration for Auto Emulation ---
 const emulationConfig = {
@@ -65,10 +67,12 @@ const generateRandomHeaders = (): Record<string, string> => {
     };
 };
 
+const splitLines = (text: string): string[] => text.split('\n').map(line => line.trim()).filter(Boolean);
+
 interface UrlInputFormProps {
   url: string;
   setUrl: (url: string) => void;
-  onFetch: (fetchUrl: string, options: { headers: Record<string, string>, userAgent: string }) => void;
+  onFetch: (fetchUrl: string, options: ScanOptions) => void;
   phase: AppPhase;
 }
 
@@ -91,6 +95,27 @@ export const UrlInputForm: React.FC<UrlInputFormProps> = ({ url, setUrl, onFetch
   const [manualReferer, setManualReferer] = useState('');
   const [manualCustom, setManualCustom] = useState('');
 
+  // State for Crawl Mode
+  const [isCrawlOpen, setIsCrawlOpen] = useState(false);
+  const [crawlEnabled, setCrawlEnabled] = useState(false);
+  const [crawlDepth, setCrawlDepth] = useState(1);
+  const [crawlMaxPages, setCrawlMaxPages] = useState(10);
+
+  // State for Politeness
+  const [isPolitenessOpen, setIsPolitenessOpen] = useState(false);
+  const [politeEnabled, setPoliteEnabled] = useState(DEFAULT_POLITENESS_OPTIONS.enabled);
+  const [respectRobots, setRespectRobots] = useState(DEFAULT_POLITENESS_OPTIONS.respectRobots);
+  const [minDelayMs, setMinDelayMs] = useState(DEFAULT_POLITENESS_OPTIONS.minDelayMs);
+  const [maxPerOrigin, setMaxPerOrigin] = useState(DEFAULT_POLITENESS_OPTIONS.maxConcurrentPerOrigin);
+
+  // State for Scope Rules
+  const [isScopeOpen, setIsScopeOpen] = useState(false);
+  const [allowedOrigins, setAllowedOrigins] = useState('');
+  const [includePatterns, setIncludePatterns] = useState('');
+  const [excludePatterns, setExcludePatterns] = useState('');
+  const [thirdPartyPolicy, setThirdPartyPolicy] = useState<ThirdPartyPolicy>(DEFAULT_SCOPE_OPTIONS.thirdPartyPolicy);
+  const [maxAssetSizeKb, setMaxAssetSizeKb] = useState(DEFAULT_SCOPE_OPTIONS.maxAssetSizeKb);
+
   // Effect to keep OS and Browser consistent with Device selection
   useEffect(() => {
     const validOses = emulationConfig.devices[device].os;
@@ -144,7 +169,19 @@ export const UrlInputForm: React.FC<UrlInputFormProps> = ({ url, setUrl, onFetch
         }
     }
     
-    onFetch(url, { headers: headersToSend, userAgent: userAgentToSend });
+    onFetch(url, {
+        headers: headersToSend,
+        userAgent: userAgentToSend,
+        crawl: { enabled: crawlEnabled, maxDepth: crawlDepth, maxPages: crawlMaxPages },
+        politeness: { enabled: politeEnabled, respectRobots, minDelayMs, maxConcurrentPerOrigin: maxPerOrigin },
+        scope: {
+            allowedOrigins: splitLines(allowedOrigins),
+            include: splitLines(includePatterns),
+            exclude: splitLines(excludePatterns),
+            thirdPartyPolicy,
+            maxAssetSizeKb,
+        },
+    });
   };
   
   const isLoading = phase === 'downloading' || phase === 'retrying';
@@ -269,6 +306,100 @@ export const UrlInputForm: React.FC<UrlInputFormProps> = ({ url, setUrl, onFetch
         )}
       </div>
 
+      <div className="mt-4">
+        <button type="button" onClick={() => setIsCrawlOpen(!isCrawlOpen)} className="flex items-center text-sm font-semibold text-blue-600 dark:text-blue-400 hover:underline">
+             <ChevronRightIcon className={`h-4 w-4 mr-1 transition-transform ${isCrawlOpen ? 'rotate-90' : ''}`} />
+             Crawl Mode: Follow Internal Links {crawlEnabled && <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-blue-100 dark:bg-blue-900/50">On</span>}
+        </button>
+        {isCrawlOpen && (
+            <div className="mt-3 p-4 bg-gray-50/80 dark:bg-gray-700/30 border border-gray-200 dark:border-gray-700 rounded-lg space-y-4 animate-fade-in">
+                <div className="flex items-center">
+                    <input type="checkbox" id="crawl-enabled" checked={crawlEnabled} onChange={e => setCrawlEnabled(e.target.checked)} className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"/>
+                    <label htmlFor="crawl-enabled" className="ml-2 block text-sm">Download linked pages (login, pricing, docs...) and their assets, breadth-first</label>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                        <label htmlFor="crawl-depth" className="block text-sm font-medium mb-1">Max Link Depth</label>
+                        <input type="number" id="crawl-depth" min={1} max={10} value={crawlDepth} onChange={e => setCrawlDepth(Math.max(1, Number(e.target.value) || 1))} disabled={!crawlEnabled} className="w-full px-3 py-2 text-sm bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg disabled:opacity-50"/>
+                    </div>
+                    <div>
+                        <label htmlFor="crawl-max-pages" className="block text-sm font-medium mb-1">Max Pages</label>
+                        <input type="number" id="crawl-max-pages" min={1} max={500} value={crawlMaxPages} onChange={e => setCrawlMaxPages(Math.max(1, Number(e.target.value) || 1))} disabled={!crawlEnabled} className="w-full px-3 py-2 text-sm bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg disabled:opacity-50"/>
+                    </div>
+                </div>
+            </div>
+        )}
+      </div>
+
+      <div className="mt-4">
+        <button type="button" onClick={() => setIsPolitenessOpen(!isPolitenessOpen)} className="flex items-center text-sm font-semibold text-blue-600 dark:text-blue-400 hover:underline">
+             <ChevronRightIcon className={`h-4 w-4 mr-1 transition-transform ${isPolitenessOpen ? 'rotate-90' : ''}`} />
+             Crawl Politeness: robots.txt & Rate Limits {!politeEnabled && <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-yellow-100 dark:bg-yellow-900/50 text-yellow-800 dark:text-yellow-300">Off</span>}
+        </button>
+        {isPolitenessOpen && (
+            <div className="mt-3 p-4 bg-gray-50/80 dark:bg-gray-700/30 border border-gray-200 dark:border-gray-700 rounded-lg space-y-4 animate-fade-in">
+                <div className="flex items-center">
+                    <input type="checkbox" id="polite-enabled" checked={politeEnabled} onChange={e => setPoliteEnabled(e.target.checked)} className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"/>
+                    <label htmlFor="polite-enabled" className="ml-2 block text-sm">Crawl politely (recommended before scanning sites you don't own)</label>
+                </div>
+                <div className="flex items-center">
+                    <input type="checkbox" id="polite-robots" checked={respectRobots} onChange={e => setRespectRobots(e.target.checked)} disabled={!politeEnabled} className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500 disabled:opacity-50"/>
+                    <label htmlFor="polite-robots" className="ml-2 block text-sm">Respect robots.txt (Disallow and Crawl-delay for the selected User-Agent)</label>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                        <label htmlFor="polite-delay" className="block text-sm font-medium mb-1">Min Delay per Host (ms)</label>
+                        <input type="number" id="polite-delay" min={0} max={10000} step={50} value={minDelayMs} onChange={e => setMinDelayMs(Math.max(0, Number(e.target.value) || 0))} disabled={!politeEnabled} className="w-full px-3 py-2 text-sm bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg disabled:opacity-50"/>
+                    </div>
+                    <div>
+                        <label htmlFor="polite-concurrency" className="block text-sm font-medium mb-1">Max Parallel Requests per Host</label>
+                        <input type="number" id="polite-concurrency" min={1} max={16} value={maxPerOrigin} onChange={e => setMaxPerOrigin(Math.max(1, Number(e.target.value) || 1))} disabled={!politeEnabled} className="w-full px-3 py-2 text-sm bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg disabled:opacity-50"/>
+                    </div>
+                </div>
+            </div>
+        )}
+      </div>
+
+      <div className="mt-4">
+        <button type="button" onClick={() => setIsScopeOpen(!isScopeOpen)} className="flex items-center text-sm font-semibold text-blue-600 dark:text-blue-400 hover:underline">
+             <ChevronRightIcon className={`h-4 w-4 mr-1 transition-transform ${isScopeOpen ? 'rotate-90' : ''}`} />
+             Scope Rules: Origins, Patterns & Third-Party Assets
+        </button>
+        {isScopeOpen && (
+            <div className="mt-3 p-4 bg-gray-50/80 dark:bg-gray-700/30 border border-gray-200 dark:border-gray-700 rounded-lg space-y-4 animate-fade-in">
+                <div>
+                    <label htmlFor="scope-origins" className="block text-sm font-medium mb-1">Additional First-Party Origins (one per line)</label>
+                    <textarea id="scope-origins" value={allowedOrigins} onChange={e => setAllowedOrigins(e.target.value)} rows={2} placeholder="https://cdn.example.com" className="w-full px-3 py-2 text-sm font-mono bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg"/>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                        <label htmlFor="scope-include" className="block text-sm font-medium mb-1">Include Patterns</label>
+                        <textarea id="scope-include" value={includePatterns} onChange={e => setIncludePatterns(e.target.value)} rows={3} placeholder={"https://example.com/docs/*\n/\\.(js|css)$/"} className="w-full px-3 py-2 text-sm font-mono bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg"/>
+                    </div>
+                    <div>
+                        <label htmlFor="scope-exclude" className="block text-sm font-medium mb-1">Exclude Patterns</label>
+                        <textarea id="scope-exclude" value={excludePatterns} onChange={e => setExcludePatterns(e.target.value)} rows={3} placeholder={"*.mp4\n*/analytics/*"} className="w-full px-3 py-2 text-sm font-mono bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg"/>
+                    </div>
+                </div>
+                <p className="text-xs text-gray-500 dark:text-gray-400">One glob per line, matched against the full URL (<code>*</code> matches anything). Wrap a line in slashes to use a regular expression. Excludes win over includes.</p>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                        <label htmlFor="scope-third-party" className="block text-sm font-medium mb-1">Third-Party Assets</label>
+                        <select id="scope-third-party" value={thirdPartyPolicy} onChange={e => setThirdPartyPolicy(e.target.value as ThirdPartyPolicy)} className="w-full px-3 py-2 text-sm bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg">
+                            <option value="download">Download</option>
+                            <option value="list">List only (don't fetch)</option>
+                            <option value="skip">Skip</option>
+                        </select>
+                    </div>
+                    <div>
+                        <label htmlFor="scope-max-size" className="block text-sm font-medium mb-1">Max Asset Size (KB, 0 = no limit)</label>
+                        <input type="number" id="scope-max-size" min={0} value={maxAssetSizeKb} onChange={e => setMaxAssetSizeKb(Math.max(0, Number(e.target.value) || 0))} className="w-full px-3 py-2 text-sm bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg"/>
+                    </div>
+                </div>
+            </div>
+        )}
+      </div>
+
        <style>{`
             .animate-fade-in {
                 animation: fadeIn 0.5s ease-in-out;
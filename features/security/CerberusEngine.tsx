@@ -2,6 +2,7 @@ import React, { useState, useCallback, useRef } from 'react';
 import { NetworkLogEntry } from '../../types';
 import { ScanResult, ModuleStatus } from './types';
 import { analyzeCodeForVulnerabilities, scanForSecrets, analyzeDependencies } from './ai';
+import { evaluateSecurityHeaders } from './headerCheck';
 import { ScanInitiator } from './components/ScanInitiator';
 import { ScanInProgress } from './components/ScanInProgress';
 import { ScanResults } from './components/ScanResults';
@@ -11,6 +12,7 @@ interface CerberusEngineProps {
     networkLog: NetworkLogEntry[];
     onScanStart: () => void;
     onScanEnd: () => void;
+    onScanComplete?: (results: ScanResult) => void; // Lets the session keep the findings.
 }
 
 type ScanPhase = 'idle' | 'running' | 'complete';
@@ -32,7 +34,7 @@ const formatEtr = (ms: number): string => {
   return `About ${minutes} minute${minutes > 1 ? 's' : ''} remaining...`;
 };
 
-export const CerberusEngine: React.FC<CerberusEngineProps> = ({ zip, networkLog, onScanStart, onScanEnd }) => {
+export const CerberusEngine: React.FC<CerberusEngineProps> = ({ zip, networkLog, onScanStart, onScanEnd, onScanComplete }) => {
     const [phase, setPhase] = useState<ScanPhase>('idle');
     const [results, setResults] = useState<ScanResult | null>(null);
     const [moduleStatus, setModuleStatus] = useState<ModuleStatus[]>(initialModules);
@@ -145,12 +147,7 @@ export const CerberusEngine: React.FC<CerberusEngineProps> = ({ zip, networkLog,
         // 4. Header Check
         setCurrentTask('Reviewing HTTP security headers...');
         updateModuleStatus("HTTP Header Check", 'running');
-        scanResults.headerCheck.push(
-            { header: 'Content-Security-Policy', present: false, recommendation: 'Implement a strict CSP to prevent XSS and other injection attacks.' },
-            { header: 'X-Content-Type-Options', present: false, value: 'nosniff', recommendation: 'Set this header to "nosniff" to prevent MIME-type sniffing attacks.' },
-            { header: 'X-Frame-Options', present: false, value: 'DENY or SAMEORIGIN', recommendation: 'Set this header to prevent clickjacking attacks.' },
-            { header: 'Strict-Transport-Security', present: false, recommendation: 'Implement HSTS to enforce secure (HTTPS) connections to the server.'}
-        );
+        scanResults = { ...scanResults, ...evaluateSecurityHeaders(networkLog) };
         updateModuleStatus("HTTP Header Check", 'complete');
 
         setCurrentTask('Finalizing report...');
@@ -158,8 +155,9 @@ export const CerberusEngine: React.FC<CerberusEngineProps> = ({ zip, networkLog,
         setResults(scanResults);
         setPhase('complete');
         onScanEnd();
+        onScanComplete?.(scanResults);
 
-    }, [zip, networkLog, onScanStart, onScanEnd]);
+    }, [zip, networkLog, onScanStart, onScanEnd, onScanComplete]);
 
     const handleReset = () => {
         setPhase('idle');
@@ -12,6 +12,7 @@ interface CerberusEngineProps {
     networkLog: NetworkLogEntry[];
     onScanStart: () => void;
     onScanEnd: () => void;
+    onScanComplete?: (results: ScanResult) => void; // Lets the session keep the findings.
 }
 
 type ScanPhase = 'idle' | 'running' | 'complete';
@@ -22,7 +23,7 @@ const initialModules: ModuleStatus[] = [
     { name: "HTTP Header Check", status: 'pending' }
 ];
 
-export const CerberusEngineV2: React.FC<CerberusEngineProps> = ({ zip, networkLog, onScanStart, onScanEnd }) => {
+export const CerberusEngineV2: React.FC<CerberusEngineProps> = ({ zip, networkLog, onScanStart, onScanEnd, onScanComplete }) => {
     const [phase, setPhase] = useState<ScanPhase>('idle');
     const [results, setResults] = useState<ScanResult | null>(null);
     const [moduleStatus, setModuleStatus] = useState<ModuleStatus[]>(initialModules);
@@ -73,7 +74,8 @@ export const CerberusEngineV2: React.FC<CerberusEngineProps> = ({ zip, networkLo
         setResults(scanResults);
         setPhase('complete');
         onScanEnd();
-    }, [zip, networkLog, onScanStart, onScanEnd]);
+        onScanComplete?.(scanResults);
+    }, [zip, networkLog, onScanStart, onScanEnd, onScanComplete]);
 
     const handleReset = () => {
         setPhase('idle');
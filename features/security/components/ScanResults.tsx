@@ -223,17 +223,31 @@ export const ScanResults: React.FC<ScanResultsProps> = ({ results, onReset, onRe
                            )}
                            <div className="mt-8 w-full prose prose-sm dark:prose-invert">
                                <h4>HTTP Header Analysis</h4>
+                               {results.headerSource && <p className="text-xs text-gray-400 break-all">Evaluated from: <code>{results.headerSource}</code></p>}
+                               {results.headerNote ? (
+                                   <p className="text-sm text-yellow-600 dark:text-yellow-400">{results.headerNote}</p>
+                               ) : (
                                <table className="w-full">
-                                   <thead><tr><th>Header</th><th>Status</th></tr></thead>
+                                   <thead><tr><th>Header</th><th>Status</th><th>Details</th></tr></thead>
                                    <tbody>
                                     {results.headerCheck.map(h => (
                                         <tr key={h.header}>
                                             <td><code>{h.header}</code></td>
-                                            <td>{h.present ? <span className="text-green-500 font-bold">Present</span> : <span className="text-red-500 font-bold">Missing</span>}</td>
+                                            <td>
+                                                {!h.present ? <span className="text-red-500 font-bold">Missing</span>
+                                                    : h.issues && h.issues.length > 0 ? <span className="text-yellow-500 font-bold">Weak</span>
+                                                    : <span className="text-green-500 font-bold">Present</span>}
+                                            </td>
+                                            <td className="text-xs">
+                                                {h.value && <code className="break-all">{h.value}</code>}
+                                                {h.issues?.map(issue => <p key={issue} className="!my-1 text-yellow-600 dark:text-yellow-400">{issue}</p>)}
+                                                {(!h.present || (h.issues && h.issues.length > 0)) && <p className="!my-1 text-gray-500">{h.recommendation}</p>}
+                                            </td>
                                         </tr>
                                     ))}
                                    </tbody>
                                </table>
+                               )}
                                <p className="text-xs text-gray-400">Note: Missing headers reduce security but may be intentional. See recommendations for best practices.</p>
                            </div>
                         </div>
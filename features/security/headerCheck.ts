@@ -0,0 +1,120 @@
+import { NetworkLogEntry } from '../../types';
+import { SecurityHeaderInfo } from './types';
+
+const ONE_YEAR_IN_SECONDS = 31536000;
+
+/**
+ * Picks the response whose headers represent the site: the root document if it was
+ * captured with headers, otherwise the first HTML page that was.
+ */
+function findMainDocument(networkLog: NetworkLogEntry[]): NetworkLogEntry | undefined {
+    const withHeaders = networkLog.filter(entry => !entry.isError && entry.headers && Object.keys(entry.headers).length > 0);
+    return withHeaders.find(entry => entry.initiator === 'Initial Request')
+        || withHeaders.find(entry => entry.contentType.includes('html'));
+}
+
+function checkCsp(value: string): string[] {
+    const issues: string[] = [];
+    const directives = new Map<string, string[]>(value.split(';').map(d => d.trim().split(/\s+/)).filter(d => d[0]).map(([name, ...sources]) => [name.toLowerCase(), sources]));
+    const scriptSources = directives.get('script-src') || directives.get('default-src');
+    if (!scriptSources) issues.push('No script-src or default-src directive, so scripts are unrestricted.');
+    if (scriptSources?.includes("'unsafe-inline'") && !scriptSources.some(s => s.startsWith("'nonce-") || s.startsWith("'sha"))) {
+        issues.push("Allows 'unsafe-inline' scripts without a nonce or hash.");
+    }
+    if (scriptSources?.includes("'unsafe-eval'")) issues.push("Allows 'unsafe-eval'.");
+    if (scriptSources?.some(s => s === '*' || s === 'http:' || s === 'https:')) issues.push('Allows scripts from any host.');
+    if (!directives.has('object-src') && !directives.has('default-src')) issues.push('No object-src restriction.');
+    return issues;
+}
+
+function checkHsts(value: string): string[] {
+    const issues: string[] = [];
+    const maxAge = Number(value.match(/max-age=(\d+)/i)?.[1] ?? NaN);
+    if (Number.isNaN(maxAge)) issues.push('Missing max-age directive.');
+    else if (maxAge < ONE_YEAR_IN_SECONDS) issues.push(`max-age is ${maxAge}s; at least one year (${ONE_YEAR_IN_SECONDS}s) is recommended.`);
+    if (!/includesubdomains/i.test(value)) issues.push('Does not include subdomains.');
+    return issues;
+}
+
+/**
+ * Evaluates the security headers of the captured main document.
+ * @param networkLog The network log of the session, with captured response headers.
+ * @returns The header check rows, the URL they were taken from, and a note when no headers were captured.
+ */
+export function evaluateSecurityHeaders(networkLog: NetworkLogEntry[]): { headerCheck: SecurityHeaderInfo[]; headerSource?: string; headerNote?: string } {
+    const mainDocument = findMainDocument(networkLog);
+    if (!mainDocument) {
+        return {
+            headerCheck: [],
+            headerNote: 'No response headers were captured for this session. Some CORS proxies strip headers; a direct fetch or relay transport forwards them.',
+        };
+    }
+
+    const headers = mainDocument.headers!;
+    const csp = headers['content-security-policy'];
+    const frameAncestors = csp?.match(/frame-ancestors\s+([^;]+)/i)?.[1]?.trim();
+    const xfo = headers['x-frame-options'];
+    const xcto = headers['x-content-type-options'];
+    const referrerPolicy = headers['referrer-policy'];
+
+    const headerCheck: SecurityHeaderInfo[] = [
+        {
+            header: 'Content-Security-Policy',
+            present: !!csp,
+            value: csp,
+            issues: csp ? checkCsp(csp) : undefined,
+            recommendation: 'Implement a strict CSP to prevent XSS and other injection attacks.',
+        },
+        {
+            header: 'Strict-Transport-Security',
+            present: !!headers['strict-transport-security'],
+            value: headers['strict-transport-security'],
+            issues: headers['strict-transport-security'] ? checkHsts(headers['strict-transport-security']) : undefined,
+            recommendation: 'Implement HSTS to enforce secure (HTTPS) connections to the server.',
+        },
+        {
+            // CSP frame-ancestors supersedes X-Frame-Options, so either one protects against clickjacking.
+            header: 'X-Frame-Options',
+            present: !!xfo || !!frameAncestors,
+            value: xfo || (frameAncestors ? `(via CSP frame-ancestors ${frameAncestors})` : undefined),
+            issues: xfo && !/^(deny|sameorigin)$/i.test(xfo.trim()) ? [`Unrecognized value "${xfo}". Use DENY or SAMEORIGIN.`] : undefined,
+            recommendation: 'Set this header (or CSP frame-ancestors) to prevent clickjacking attacks.',
+        },
+        {
+            header: 'X-Content-Type-Options',
+            present: !!xcto,
+            value: xcto,
+            issues: xcto && xcto.trim().toLowerCase() !== 'nosniff' ? [`Value should be "nosniff", got "${xcto}".`] : undefined,
+            recommendation: 'Set this header to "nosniff" to prevent MIME-type sniffing attacks.',
+        },
+        {
+            header: 'Referrer-Policy',
+            present: !!referrerPolicy,
+            value: referrerPolicy,
+            issues: referrerPolicy && /unsafe-url|no-referrer-when-downgrade/i.test(referrerPolicy) ? ['Leaks full URLs to other origins.'] : undefined,
+            recommendation: 'Set a policy such as "strict-origin-when-cross-origin" to avoid leaking URLs to third parties.',
+        },
+        {
+            header: 'Permissions-Policy',
+            present: !!headers['permissions-policy'],
+            value: headers['permissions-policy'],
+            recommendation: 'Disable browser features the site does not use (camera, geolocation, etc.).',
+        },
+        {
+            header: 'Cross-Origin-Opener-Policy',
+            present: !!headers['cross-origin-opener-policy'],
+            value: headers['cross-origin-opener-policy'],
+            issues: headers['cross-origin-opener-policy'] === 'unsafe-none' ? ['"unsafe-none" disables the protection.'] : undefined,
+            recommendation: 'Set "same-origin" to isolate the browsing context from cross-origin windows.',
+        },
+        {
+            header: 'Cross-Origin-Embedder-Policy',
+            present: !!headers['cross-origin-embedder-policy'],
+            value: headers['cross-origin-embedder-policy'],
+            issues: headers['cross-origin-embedder-policy'] === 'unsafe-none' ? ['"unsafe-none" disables the protection.'] : undefined,
+            recommendation: 'Set "require-corp" (with COOP) to enable cross-origin isolation.',
+        },
+    ];
+
+    return { headerCheck, headerSource: mainDocument.url };
+}
@@ -1,6 +1,7 @@
 import { NetworkLogEntry } from '../../types';
-import { Finding, ModuleStatus, ScanResult, SecurityHeaderInfo } from './types';
+import { Finding, ModuleStatus, ScanResult } from './types';
 import { analyzeCodeForVulnerabilities, scanForSecrets, analyzeDependencies } from './ai';
+import { evaluateSecurityHeaders } from './headerCheck';
 
 interface ZipFile {
     name: string;
@@ -159,13 +160,8 @@ export const runV2Scan = async (
     
     callbacks.onTaskUpdate('Reviewing HTTP security headers...');
     callbacks.onModuleUpdate("HTTP Header Check", 'running');
-    const headerCheck: SecurityHeaderInfo[] = [
-        { header: 'Content-Security-Policy', present: false, recommendation: 'Implement a strict CSP to prevent XSS and other injection attacks.' },
-        { header: 'X-Content-Type-Options', present: false, value: 'nosniff', recommendation: 'Set this header to "nosniff" to prevent MIME-type sniffing attacks.' },
-        { header: 'X-Frame-Options', present: false, value: 'DENY or SAMEORIGIN', recommendation: 'Set this header to prevent clickjacking attacks.' },
-        { header: 'Strict-Transport-Security', present: false, recommendation: 'Implement HSTS to enforce secure (HTTPS) connections to the server.'}
-    ];
+    const { headerCheck, headerSource, headerNote } = evaluateSecurityHeaders(networkLog);
     callbacks.onModuleUpdate("HTTP Header Check", 'complete');
 
-    return { findings, headerCheck };
+    return { findings, headerCheck, headerSource, headerNote };
 };
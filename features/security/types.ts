@@ -17,12 +17,15 @@ export interface SecurityHeaderInfo {
     header: string;
     present: boolean;
     value?: string;
+    issues?: string[]; // Weaknesses found in a header that is present, e.g. 'unsafe-inline' in a CSP.
     recommendation: string;
 }
 
 export interface ScanResult {
     findings: Finding[];
     headerCheck: SecurityHeaderInfo[];
+    headerSource?: string; // URL whose response headers were evaluated.
+    headerNote?: string; // Explains why the header check could not be evaluated, if it couldn't.
 }
 
 export interface ModuleStatus {
@@ -0,0 +1,366 @@
+// Requests the downloaded code sends to its servers, read from the AST so that every run gives the
+// same result: fetch, axios (and its instances), XMLHttpRequest, jQuery's $.ajax family, WebSocket,
+// EventSource and sendBeacon. For each call the method, URL pattern, headers and body shape are
+// inferred as far as they are static; the rest of a URL is kept as `{placeholders}`.
+
+import { ApiEndpoint } from '../types';
+import { forEachNode, memberName, propertyKey, stringPattern, staticValue, StaticValue, UNKNOWN } from './staticValues';
+
+export type EndpointCall = 'fetch' | 'axios' | 'xhr' | 'jquery' | 'sendBeacon' | 'eventSource' | 'webSocket';
+
+// The structure of a value, in JSON Schema terms.
+export type ValueShape =
+    | { type: 'object'; properties: Record<string, ValueShape> }
+    | { type: 'array'; items?: ValueShape }
+    | { type: 'string' | 'number' | 'boolean' | 'null' | 'unknown' };
+
+export interface RequestBody {
+    encoding: 'json' | 'form' | 'multipart' | 'text' | 'unknown';
+    shape?: ValueShape; // Unset when nothing is known about the content.
+}
+
+export interface ApiCall {
+    url: string; // As written, relative or absolute, with `{name}` placeholders for its runtime parts.
+    method?: string; // Upper case. Unset for WebSockets and when only known at runtime.
+    call: EndpointCall;
+    headers: Record<string, string | null>; // Values only known at runtime are null.
+    body?: RequestBody;
+    offset: number; // Where the URL argument starts in the script.
+}
+
+// A group of endpoints that are the same method and path, found in the code and/or by the AI.
+export interface MergedEndpoint<T> {
+    method: string;
+    path: string;
+    found: T[];
+    inferred: ApiEndpoint[];
+}
+
+const HTTP_METHOD_REGEX = /^(get|post|put|patch|delete|head|options)$/i;
+const GLOBAL_OBJECTS = new Set(['window', 'self', 'globalThis']);
+const JQUERY_NAMES = new Set(['$', 'jQuery']);
+// axios shorthands: methods without a body take (url, config), the others (url, data, config).
+const AXIOS_METHODS_WITHOUT_BODY = new Set(['get', 'delete', 'head', 'options']);
+const AXIOS_METHODS_WITH_BODY = new Set(['post', 'put', 'patch']);
+const JQUERY_SHORTHANDS = new Map<string, string>([['get', 'GET'], ['getJSON', 'GET'], ['post', 'POST']]);
+
+interface AxiosInstance {
+    baseUrl: string;
+    headers: Record<string, string | null>;
+}
+
+const isFunction = (node: any) =>
+    node.type === 'ArrowFunctionExpression' || node.type === 'FunctionExpression' || node.type === 'FunctionDeclaration';
+
+// A stable name for the object a method is called on: `xhr`, `this.xhr`, `state.request`.
+function objectKey(node: any): string | null {
+    if (node.type === 'Identifier') return node.name;
+    if (node.type === 'ThisExpression') return 'this';
+    if (node.type === 'MemberExpression' && !node.computed) {
+        const parent = objectKey(node.object);
+        return parent && `${parent}.${node.property.name}`;
+    }
+    return null;
+}
+
+// The value of a property of an object literal, by name.
+function propertyValue(node: any, name: string): any {
+    if (node?.type !== 'ObjectExpression') return undefined;
+    return node.properties.find((property: any) => propertyKey(property) === name)?.value;
+}
+
+const staticString = (node: any, scope: Map<string, StaticValue>): string | undefined => {
+    const value = node ? staticValue(node, scope) : UNKNOWN;
+    return typeof value === 'string' ? value : undefined;
+};
+
+const staticMethod = (node: any, scope: Map<string, StaticValue>): string | undefined => {
+    const method = staticString(node, scope);
+    return method && HTTP_METHOD_REGEX.test(method) ? method.toUpperCase() : undefined;
+};
+
+/**
+ * Infers the shape of an expression: the keys of object literals, the items of array literals and
+ * the types of literals and constants.
+ * @param node The expression's AST node.
+ * @param scope The script's constants.
+ */
+export function shapeOf(node: any, scope: Map<string, StaticValue>): ValueShape {
+    if (!node) return { type: 'unknown' };
+    switch (node.type) {
+        case 'ObjectExpression': {
+            const properties: Record<string, ValueShape> = {};
+            node.properties.forEach((property: any) => {
+                const key = propertyKey(property);
+                if (key !== null) properties[key] = shapeOf(property.value, scope);
+            });
+            return { type: 'object', properties };
+        }
+        case 'ArrayExpression':
+            return node.elements[0] ? { type: 'array', items: shapeOf(node.elements[0], scope) } : { type: 'array' };
+        case 'TemplateLiteral':
+            return { type: 'string' };
+        case 'UnaryExpression':
+            return node.operator === '!' ? { type: 'boolean' } : node.operator === '-' || node.operator === '+' ? { type: 'number' } : { type: 'unknown' };
+        default: {
+            const value = staticValue(node, scope);
+            if (value === null) return { type: 'null' };
+            if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') return { type: typeof value as 'string' | 'number' | 'boolean' };
+            return { type: 'unknown' };
+        }
+    }
+}
+
+/**
+ * Writes a shape the way it would be written in TypeScript, e.g. `{ name: string; tags: string[] }`.
+ * @param shape The shape.
+ */
+export function describeShape(shape: ValueShape): string {
+    if (shape.type === 'object') {
+        const entries = Object.entries(shape.properties);
+        return entries.length === 0 ? '{}' : `{ ${entries.map(([key, value]) => `${key}: ${describeShape(value)}`).join('; ')} }`;
+    }
+    if (shape.type === 'array') return shape.items ? `${describeShape(shape.items)}[]` : 'unknown[]';
+    return shape.type;
+}
+
+// `new Headers({...})` or an object literal; values that aren't static become null.
+function readHeaders(node: any, scope: Map<string, StaticValue>): Record<string, string | null> {
+    if (node?.type === 'NewExpression' && node.callee.type === 'Identifier' && node.callee.name === 'Headers') node = node.arguments[0];
+    const headers: Record<string, string | null> = {};
+    if (node?.type !== 'ObjectExpression') return headers;
+    node.properties.forEach((property: any) => {
+        const key = propertyKey(property);
+        if (key !== null) headers[key] = staticString(property.value, scope) ?? null;
+    });
+    return headers;
+}
+
+/**
+ * Infers the body of a request from the expression passed as its data.
+ * @param node The body expression.
+ * @param scope The script's constants.
+ * @param objectEncoding How the client sends a plain object: axios as JSON, jQuery as a form.
+ */
+function readBody(node: any, scope: Map<string, StaticValue>, objectEncoding: RequestBody['encoding'] = 'unknown'): RequestBody | undefined {
+    if (!node) return undefined;
+    if (node.type === 'CallExpression' && memberName(node.callee) === 'stringify' && node.callee.object.type === 'Identifier' && node.callee.object.name === 'JSON') {
+        return { encoding: 'json', shape: shapeOf(node.arguments[0], scope) };
+    }
+    if (node.type === 'NewExpression' && node.callee.type === 'Identifier') {
+        if (node.callee.name === 'FormData') return { encoding: 'multipart' };
+        if (node.callee.name === 'URLSearchParams') {
+            const [init] = node.arguments;
+            return init?.type === 'ObjectExpression' ? { encoding: 'form', shape: shapeOf(init, scope) } : { encoding: 'form' };
+        }
+    }
+    if (node.type === 'ObjectExpression' || node.type === 'ArrayExpression') return { encoding: objectEncoding, shape: shapeOf(node, scope) };
+    if (node.type === 'TemplateLiteral' || (node.type === 'Literal' && typeof node.value === 'string')) return { encoding: 'text', shape: { type: 'string' } };
+    return { encoding: 'unknown' };
+}
+
+// Appends the keys of a query parameter object to a URL pattern, as `?key={key}`.
+function withQuery(url: string, params: any): string {
+    if (params?.type !== 'ObjectExpression') return url;
+    const keys = params.properties.map(propertyKey).filter((key: string | null): key is string => key !== null);
+    if (keys.length === 0) return url;
+    return `${url}${url.includes('?') ? '&' : '?'}${keys.map((key: string) => `${key}={${key}}`).join('&')}`;
+}
+
+// Reads a request given as a settings object (axios config, $.ajax settings).
+function readSettings(settings: any, scope: Map<string, StaticValue>, call: 'axios' | 'jquery', urlNode?: any) {
+    urlNode = urlNode ?? propertyValue(settings, 'url');
+    const method = staticMethod(propertyValue(settings, 'method') ?? propertyValue(settings, 'type'), scope);
+    const headers = readHeaders(propertyValue(settings, 'headers'), scope);
+    const dataNode = propertyValue(settings, 'data');
+    const contentType = staticString(propertyValue(settings, 'contentType'), scope);
+    const objectEncoding = call === 'axios' || contentType?.includes('json') ? 'json' : 'form';
+    return { urlNode, method, headers, dataNode, objectEncoding: objectEncoding as RequestBody['encoding'], params: propertyValue(settings, 'params') };
+}
+
+/**
+ * Finds `axios.create({ baseURL, headers })` instances, by the name they are assigned to.
+ * Requests through an instance get its base URL and headers.
+ */
+function findAxiosInstances(ast: any, scope: Map<string, StaticValue>): Map<string, AxiosInstance> {
+    const instances = new Map<string, AxiosInstance>();
+    forEachNode(ast, node => {
+        const target = node.type === 'VariableDeclarator' ? node.id : node.type === 'AssignmentExpression' ? node.left : null;
+        const value = node.type === 'VariableDeclarator' ? node.init : node.type === 'AssignmentExpression' ? node.right : null;
+        if (!target || value?.type !== 'CallExpression' || memberName(value.callee) !== 'create') return;
+        if (value.callee.object.type !== 'Identifier' || value.callee.object.name !== 'axios') return;
+        const name = objectKey(target);
+        if (!name) return;
+        const [config] = value.arguments;
+        instances.set(name, {
+            baseUrl: stringPattern(propertyValue(config, 'baseURL'), scope) ?? '',
+            headers: readHeaders(propertyValue(config, 'headers'), scope),
+        });
+    });
+    return instances;
+}
+
+// Joins an axios base URL and a request URL, as axios does for URLs that aren't absolute.
+const joinBaseUrl = (baseUrl: string, url: string) =>
+    !baseUrl || /^([a-z][\w+.-]*:)?\/\//i.test(url) ? url : `${baseUrl.replace(/\/+$/, '')}/${url.replace(/^\/+/, '')}`;
+
+/**
+ * Finds the API calls of a parsed script.
+ * @param ast The script's acorn AST.
+ * @param scope The script's constants, from `collectConstants`.
+ * @returns The calls with a URL that is at least partly static, in source order.
+ */
+export function extractApiCalls(ast: any, scope: Map<string, StaticValue>): ApiCall[] {
+    const calls: ApiCall[] = [];
+    const axiosInstances = findAxiosInstances(ast, scope);
+    const functions: any[] = [];
+    forEachNode(ast, node => { if (isFunction(node)) functions.push(node); });
+
+    const add = (call: EndpointCall, urlNode: any, details: Partial<Omit<ApiCall, 'call' | 'url' | 'offset'>> & { urlPrefix?: string; params?: any } = {}) => {
+        const pattern = urlNode ? stringPattern(urlNode, scope) : null;
+        if (!pattern) return;
+        const { urlPrefix, params, headers, ...rest } = details;
+        calls.push({
+            url: withQuery(joinBaseUrl(urlPrefix ?? '', pattern), params),
+            call,
+            headers: headers ?? {},
+            ...rest,
+            offset: urlNode.start,
+        });
+    };
+
+    // XMLHttpRequest headers and bodies are set by later calls on the same object, looked for
+    // in the function that opens the request.
+    const addXhr = (node: any) => {
+        const [methodNode, urlNode] = node.arguments;
+        const method = staticMethod(methodNode, scope);
+        const key = objectKey(node.callee.object);
+        if (!method || !key) return;
+        const enclosing = functions.filter(fn => fn.start <= node.start && node.end <= fn.end).pop() ?? ast;
+        const headers: Record<string, string | null> = {};
+        let body: RequestBody | undefined;
+        forEachNode(enclosing, child => {
+            if (child.type !== 'CallExpression' || child.callee.type !== 'MemberExpression' || objectKey(child.callee.object) !== key) return;
+            const name = memberName(child.callee);
+            if (name === 'setRequestHeader') {
+                const header = staticString(child.arguments[0], scope);
+                if (header) headers[header] = staticString(child.arguments[1], scope) ?? null;
+            } else if (name === 'send' && child.arguments.length > 0) {
+                body = readBody(child.arguments[0], scope);
+            }
+        });
+        add('xhr', urlNode, { method, headers, body });
+    };
+
+    forEachNode(ast, node => {
+        if (node.type === 'NewExpression' && node.callee.type === 'Identifier') {
+            if (node.callee.name === 'EventSource') add('eventSource', node.arguments[0], { method: 'GET' });
+            if (node.callee.name === 'WebSocket') add('webSocket', node.arguments[0]);
+            return;
+        }
+        if (node.type !== 'CallExpression') return;
+        const callee = node.callee;
+        const args = node.arguments;
+        const name = memberName(callee);
+        const objectName = callee.type === 'MemberExpression' ? objectKey(callee.object) : null;
+
+        // fetch(url, init) and fetch(new Request(url, init))
+        if ((callee.type === 'Identifier' && callee.name === 'fetch') || (name === 'fetch' && objectName && GLOBAL_OBJECTS.has(objectName))) {
+            let [urlNode, init] = args;
+            if (urlNode?.type === 'NewExpression' && urlNode.callee.type === 'Identifier' && urlNode.callee.name === 'Request') {
+                init = init ?? urlNode.arguments[1];
+                urlNode = urlNode.arguments[0];
+            }
+            const methodNode = propertyValue(init, 'method');
+            const headers = readHeaders(propertyValue(init, 'headers'), scope);
+            const isJson = Object.entries(headers).some(([header, value]) => header.toLowerCase() === 'content-type' && value?.includes('json'));
+            add('fetch', urlNode, {
+                method: methodNode ? staticMethod(methodNode, scope) : 'GET',
+                headers,
+                body: readBody(propertyValue(init, 'body'), scope, isJson ? 'json' : 'unknown'),
+            });
+            return;
+        }
+
+        // axios(config), axios(url, config), axios.request(config) and the method shorthands, on axios or an instance.
+        const axiosInstance = objectName ? axiosInstances.get(objectName) : callee.type === 'Identifier' ? axiosInstances.get(callee.name) : undefined;
+        if (axiosInstance || objectName === 'axios' || (callee.type === 'Identifier' && callee.name === 'axios')) {
+            const base = { urlPrefix: axiosInstance?.baseUrl, headers: axiosInstance?.headers };
+            const withDefaults = (headers: Record<string, string | null>) => ({ ...base.headers, ...headers });
+            if (callee.type === 'Identifier' || name === 'request') {
+                const [first, second] = args;
+                const settings = readSettings(first?.type === 'ObjectExpression' ? first : second, scope, 'axios', first?.type === 'ObjectExpression' ? undefined : first);
+                add('axios', settings.urlNode, { ...base, method: settings.method ?? 'GET', headers: withDefaults(settings.headers), body: readBody(settings.dataNode, scope, 'json'), params: settings.params });
+            } else if (name && (AXIOS_METHODS_WITHOUT_BODY.has(name) || AXIOS_METHODS_WITH_BODY.has(name))) {
+                const hasBody = AXIOS_METHODS_WITH_BODY.has(name);
+                const config = args[hasBody ? 2 : 1];
+                add('axios', args[0], {
+                    ...base,
+                    method: name.toUpperCase(),
+                    headers: withDefaults(readHeaders(propertyValue(config, 'headers'), scope)),
+                    body: hasBody ? readBody(args[1], scope, 'json') : undefined,
+                    params: propertyValue(config, 'params'),
+                });
+            }
+            return;
+        }
+
+        // $.ajax(settings), $.ajax(url, settings), $.get/$.getJSON/$.post(url, data)
+        if (objectName && JQUERY_NAMES.has(objectName) && name) {
+            if (name === 'ajax') {
+                const [first, second] = args;
+                const settings = readSettings(first?.type === 'ObjectExpression' ? first : second, scope, 'jquery', first?.type === 'ObjectExpression' ? undefined : first);
+                const method = settings.method ?? 'GET';
+                // jQuery sends the data of GET requests as the query string.
+                const query = method === 'GET' && settings.dataNode?.type === 'ObjectExpression' ? settings.dataNode : undefined;
+                add('jquery', settings.urlNode, { method, headers: settings.headers, body: query ? undefined : readBody(settings.dataNode, scope, settings.objectEncoding), params: query });
+            } else if (JQUERY_SHORTHANDS.has(name)) {
+                const method = JQUERY_SHORTHANDS.get(name)!;
+                const data = args[1]?.type === 'ObjectExpression' ? args[1] : undefined;
+                add('jquery', args[0], { method, body: method === 'POST' ? readBody(data, scope, 'form') : undefined, params: method === 'GET' ? data : undefined });
+            }
+            return;
+        }
+
+        if (name === 'open' && args.length >= 2) {
+            addXhr(node);
+        } else if (name === 'sendBeacon') {
+            add('sendBeacon', args[0], { method: 'POST', body: readBody(args[1], scope) });
+        }
+    });
+    return calls.sort((a, b) => a.offset - b.offset);
+}
+
+/**
+ * Reduces an endpoint URL to the path used to match it with others: the origin, query and
+ * trailing slash are dropped, and every kind of path parameter (`{id}`, `:id`, `${id}`, `<id>`)
+ * becomes `{}`.
+ * @param url An endpoint URL or path.
+ */
+export function endpointMatchKey(url: string): string {
+    const path = url.trim()
+        .replace(/^([a-z][\w+.-]*:)?\/\/[^/]*/i, '')
+        .replace(/[?#].*$/, '')
+        .replace(/\$\{[^}]*\}|\{[^}]*\}|<[^>]*>|(^|\/):[^/]+/g, (match, slash) => `${slash ?? ''}{}`)
+        .replace(/\/+$/, '');
+    return path.startsWith('/') || path.startsWith('{') ? path || '/' : `/${path}`;
+}
+
+/**
+ * Merges the endpoints found in the code with those the AI inferred, one group per method and path.
+ * @param found The endpoints found in the code.
+ * @param inferred The endpoints reported by the AI.
+ * @returns The groups, sorted by path and method.
+ */
+export function mergeEndpoints<T extends { url: string; method?: string }>(found: T[], inferred: ApiEndpoint[]): MergedEndpoint<T>[] {
+    const groups = new Map<string, MergedEndpoint<T>>();
+    const groupFor = (method: string, url: string) => {
+        const path = endpointMatchKey(url);
+        const key = `${method} ${path}`;
+        if (!groups.has(key)) groups.set(key, { method, path, found: [], inferred: [] });
+        return groups.get(key)!;
+    };
+    found.forEach(endpoint => groupFor(endpoint.method ?? (/^wss?:/i.test(endpoint.url) ? 'WS' : '?'), endpoint.url).found.push(endpoint));
+    inferred.forEach(endpoint => groupFor((endpoint.method || '?').toUpperCase(), endpoint.endpoint).inferred.push(endpoint));
+    return Array.from(groups.values()).sort((a, b) => a.path.localeCompare(b.path) || a.method.localeCompare(b.method));
+}
@@ -0,0 +1,242 @@
+// OpenAPI 3.1 and Postman collection exports of the discovered API endpoints. Both are built from
+// the merged endpoint list (code and AI), grouped by host, with path parameters inferred from URL
+// placeholders, `:name` segments and id-like segments, and with the query, header and body shapes
+// the static extractor saw.
+
+import { ScannedEndpoint } from './assetDiscovery';
+import { MergedEndpoint, RequestBody, ValueShape } from './apiExtractor';
+
+const HTTP_METHODS = new Set(['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS']);
+// Header parameters OpenAPI ignores, since they are described by other fields.
+const RESERVED_HEADERS = new Set(['accept', 'content-type', 'authorization']);
+const ID_SEGMENT_REGEX = /^(\d+|[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}|[0-9a-f]{24})$/i;
+const POSTMAN_SCHEMA = 'https://schema.getpostman.com/json/collection/v2.1.0/collection.json';
+
+const MEDIA_TYPES: Record<RequestBody['encoding'], string> = {
+    json: 'application/json',
+    form: 'application/x-www-form-urlencoded',
+    multipart: 'multipart/form-data',
+    text: 'text/plain',
+    unknown: 'application/octet-stream',
+};
+
+// One operation of the export: an HTTP method on a path of a host.
+interface ExportedOperation {
+    method: string;
+    origin: string; // e.g. `https://api.example.com`, or a `{placeholder}` for unknown bases.
+    path: string; // With `{name}` path parameters.
+    pathParameters: string[];
+    query: { name: string; example?: string }[];
+    headers: { name: string; example?: string }[];
+    body?: RequestBody;
+    summary: string;
+    locations: string[]; // `file:line` of the calls in the code.
+}
+
+// Splits a URL or path into an origin, a path and query parameters. Relative URLs belong to the scanned site.
+function splitUrl(url: string, rootUrl: string): { origin: string; path: string; query: { name: string; example?: string }[] } {
+    let rest = url.trim().replace(/#.*$/, '');
+    let origin = new URL(rootUrl).origin;
+    const absolute = rest.match(/^((?:[a-z][\w+.-]*:)?\/\/[^/?]*)(.*)$/i);
+    const unknownBase = rest.match(/^(\{[^}]+\})(.*)$/);
+    if (absolute) {
+        origin = absolute[1].startsWith('//') ? `${new URL(rootUrl).protocol}${absolute[1]}` : absolute[1];
+        rest = absolute[2];
+    } else if (unknownBase) {
+        origin = unknownBase[1];
+        rest = unknownBase[2];
+    }
+    const [path, search = ''] = rest.split('?');
+    const query = search.split('&').filter(Boolean).map(pair => {
+        const [name, value = ''] = pair.split('=');
+        return /^\{.*\}$/.test(value) || !value ? { name: decodeURIComponent(name) } : { name: decodeURIComponent(name), example: decodeURIComponent(value) };
+    });
+    return { origin, path: path.startsWith('/') ? path : `/${path}`, query };
+}
+
+/**
+ * Rewrites a path with OpenAPI path parameters: `{name}` placeholders are kept, `:name`, `${name}`
+ * and `<name>` segments are converted, and id-like segments (numbers, UUIDs, object ids) become
+ * `{id}`. Repeated names get a numeric suffix.
+ * @param path The path.
+ * @returns The path and its parameter names, in order.
+ */
+export function inferPathParameters(path: string): { path: string; parameters: string[] } {
+    const parameters: string[] = [];
+    const uniqueName = (name: string) => {
+        const base = name.replace(/[^\w.-]/g, '') || 'param';
+        let unique = base;
+        for (let i = 2; parameters.includes(unique); i++) unique = `${base}${i}`;
+        parameters.push(unique);
+        return `{${unique}}`;
+    };
+    const rewritten = path.replace(/\/+$/, '').split('/').map(segment => {
+        if (ID_SEGMENT_REGEX.test(segment)) return uniqueName('id');
+        return segment
+            .replace(/^:(\w+)$/, '{$1}')
+            .replace(/\$\{([^}]*)\}|<([^>]*)>/g, (match, template, angle) => `{${template ?? angle}}`)
+            .replace(/\{([^}]*)\}/g, (match, name) => uniqueName(name));
+    }).join('/');
+    return { path: rewritten || '/', parameters };
+}
+
+// Flattens the merged groups into operations; groups without a known HTTP method (WebSockets) are left out.
+function toOperations(groups: MergedEndpoint<ScannedEndpoint>[], rootUrl: string): ExportedOperation[] {
+    const operations: ExportedOperation[] = [];
+    groups.forEach(group => {
+        if (!HTTP_METHODS.has(group.method)) return;
+        const { origin, path, query } = splitUrl(group.found[0]?.url ?? group.inferred[0].endpoint, rootUrl);
+        const { path: parameterizedPath, parameters } = inferPathParameters(path);
+        const headers = new Map<string, string | undefined>();
+        group.found.forEach(endpoint => Object.entries(endpoint.headers).forEach(([name, value]) => {
+            if (!headers.has(name) || value !== null) headers.set(name, value ?? undefined);
+        }));
+        const extraQuery = group.found.slice(1).flatMap(endpoint => splitUrl(endpoint.url, rootUrl).query);
+        extraQuery.forEach(parameter => { if (!query.some(known => known.name === parameter.name)) query.push(parameter); });
+        operations.push({
+            method: group.method,
+            origin,
+            path: parameterizedPath,
+            pathParameters: parameters,
+            query,
+            headers: Array.from(headers, ([name, example]) => ({ name, example })),
+            body: group.found.find(endpoint => endpoint.body?.shape)?.body ?? group.found.find(endpoint => endpoint.body)?.body,
+            summary: group.inferred[0]?.purpose || `${group.method} ${parameterizedPath}`,
+            locations: group.found.map(endpoint => `${endpoint.path}${endpoint.provenance.line !== undefined ? `:${endpoint.provenance.line}` : ''}`),
+        });
+    });
+    return operations;
+}
+
+const schemaOf = (shape?: ValueShape): Record<string, any> => {
+    if (!shape || shape.type === 'unknown') return {};
+    if (shape.type === 'object') {
+        return { type: 'object', properties: Object.fromEntries(Object.entries(shape.properties).map(([key, value]) => [key, schemaOf(value)])) };
+    }
+    if (shape.type === 'array') return shape.items ? { type: 'array', items: schemaOf(shape.items) } : { type: 'array' };
+    return { type: shape.type };
+};
+
+const exampleOf = (shape?: ValueShape): any => {
+    if (!shape) return {};
+    switch (shape.type) {
+        case 'object': return Object.fromEntries(Object.entries(shape.properties).map(([key, value]) => [key, exampleOf(value)]));
+        case 'array': return shape.items ? [exampleOf(shape.items)] : [];
+        case 'string': return 'string';
+        case 'number': return 0;
+        case 'boolean': return false;
+        default: return null;
+    }
+};
+
+const operationId = (operation: ExportedOperation) =>
+    operation.method.toLowerCase() + operation.path.split(/[^A-Za-z0-9]+/).filter(Boolean).map(word => word[0].toUpperCase() + word.slice(1)).join('');
+
+const hostName = (origin: string) => origin.replace(/^[a-z][\w+.-]*:\/\//i, '');
+
+/**
+ * Builds an OpenAPI 3.1 document of the endpoints. Every host is a server and a tag; path items
+ * name the server they belong to, so one document covers all hosts.
+ * @param groups The merged endpoints.
+ * @param rootUrl The scanned URL; relative endpoints belong to its origin.
+ */
+export function buildOpenApiDocument(groups: MergedEndpoint<ScannedEndpoint>[], rootUrl: string): Record<string, any> {
+    const operations = toOperations(groups, rootUrl);
+    const origins = Array.from(new Set(operations.map(operation => operation.origin)));
+    const serverOf = (origin: string) => origin.startsWith('{')
+        ? { url: origin, variables: { [origin.slice(1, -1)]: { default: new URL(rootUrl).origin, description: 'A base URL only known at runtime.' } } }
+        : { url: origin };
+
+    const paths: Record<string, any> = {};
+    operations.forEach(operation => {
+        const pathItem = paths[operation.path] ?? (paths[operation.path] = { servers: [] });
+        if (!pathItem.servers.some((server: { url: string }) => server.url === operation.origin)) pathItem.servers.push(serverOf(operation.origin));
+        // The same path and method on two hosts shares one operation.
+        if (pathItem[operation.method.toLowerCase()]) return;
+
+        const parameters = [
+            ...operation.pathParameters.map(name => ({ name, in: 'path', required: true, schema: { type: 'string' } })),
+            ...operation.query.map(({ name, example }) => ({ name, in: 'query', schema: { type: 'string' }, ...(example !== undefined ? { example } : {}) })),
+            ...operation.headers.filter(({ name }) => !RESERVED_HEADERS.has(name.toLowerCase()))
+                .map(({ name, example }) => ({ name, in: 'header', schema: { type: 'string' }, ...(example !== undefined ? { example } : {}) })),
+        ];
+        pathItem[operation.method.toLowerCase()] = {
+            operationId: operationId(operation),
+            summary: operation.summary,
+            ...(operation.locations.length > 0 ? { description: `Called from ${operation.locations.join(', ')}.` } : {}),
+            tags: [hostName(operation.origin)],
+            ...(parameters.length > 0 ? { parameters } : {}),
+            ...(operation.body ? {
+                requestBody: { content: { [MEDIA_TYPES[operation.body.encoding]]: { schema: schemaOf(operation.body.shape) } } },
+            } : {}),
+            responses: { default: { description: 'Responses were not observed by the scan.' } },
+        };
+    });
+
+    return {
+        openapi: '3.1.0',
+        info: { title: `${new URL(rootUrl).hostname} API`, version: '1.0.0', description: `Endpoints discovered in ${rootUrl}.` },
+        servers: origins.map(serverOf),
+        tags: origins.map(origin => ({ name: hostName(origin) })),
+        paths,
+    };
+}
+
+/**
+ * Builds a Postman collection (v2.1) of the endpoints, with one folder per host.
+ * @param groups The merged endpoints.
+ * @param rootUrl The scanned URL; relative endpoints belong to its origin.
+ */
+export function buildPostmanCollection(groups: MergedEndpoint<ScannedEndpoint>[], rootUrl: string): Record<string, any> {
+    const operations = toOperations(groups, rootUrl);
+    const folders = new Map<string, any[]>();
+    operations.forEach(operation => {
+        // Postman writes path variables as `:name`, and unknown bases as `{{name}}` variables.
+        const origin = operation.origin.startsWith('{') ? `{{${operation.origin.slice(1, -1)}}}` : operation.origin;
+        const path = operation.path.replace(/\{([^}]+)\}/g, ':$1');
+        const query = operation.query.map(({ name, example }) => ({ key: name, value: example ?? '' }));
+        const raw = `${origin}${path}${query.length > 0 ? `?${query.map(({ key, value }) => `${key}=${value}`).join('&')}` : ''}`;
+        const header = operation.headers.map(({ name, example }) => ({ key: name, value: example ?? '' }));
+        const body = operation.body;
+        if (body && !header.some(({ key }) => key.toLowerCase() === 'content-type') && body.encoding !== 'unknown' && body.encoding !== 'multipart') {
+            header.push({ key: 'Content-Type', value: MEDIA_TYPES[body.encoding] });
+        }
+        const item = {
+            name: operation.summary,
+            request: {
+                method: operation.method,
+                header,
+                url: {
+                    raw,
+                    host: [origin],
+                    path: path.split('/').filter(Boolean),
+                    ...(query.length > 0 ? { query } : {}),
+                    ...(operation.pathParameters.length > 0 ? { variable: operation.pathParameters.map(key => ({ key, value: '' })) } : {}),
+                },
+                ...(body ? { body: postmanBody(body) } : {}),
+                ...(operation.locations.length > 0 ? { description: `Called from ${operation.locations.join(', ')}.` } : {}),
+            },
+        };
+        const folder = hostName(operation.origin);
+        if (!folders.has(folder)) folders.set(folder, []);
+        folders.get(folder)!.push(item);
+    });
+    const unknownBases = Array.from(new Set(operations.filter(operation => operation.origin.startsWith('{')).map(operation => operation.origin.slice(1, -1))));
+
+    return {
+        info: { name: `${new URL(rootUrl).hostname} API`, description: `Endpoints discovered in ${rootUrl}.`, schema: POSTMAN_SCHEMA },
+        item: Array.from(folders, ([name, item]) => ({ name, item })),
+        ...(unknownBases.length > 0 ? { variable: unknownBases.map(key => ({ key, value: new URL(rootUrl).origin })) } : {}),
+    };
+}
+
+function postmanBody(body: RequestBody): Record<string, any> {
+    const example = exampleOf(body.shape);
+    const fields = body.shape?.type === 'object' ? Object.keys(body.shape.properties) : [];
+    switch (body.encoding) {
+        case 'json': return { mode: 'raw', raw: JSON.stringify(example, null, 2), options: { raw: { language: 'json' } } };
+        case 'form': return { mode: 'urlencoded', urlencoded: fields.map(key => ({ key, value: '' })) };
+        case 'multipart': return { mode: 'formdata', formdata: fields.map(key => ({ key, value: '', type: 'text' })) };
+        default: return { mode: 'raw', raw: '' };
+    }
+}
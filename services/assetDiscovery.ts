@@ -2,74 +2,200 @@
 // It uses advanced techniques like AST parsing for JavaScript to find resources
 // that simple regex-based methods would miss.
 
+import { DiscoveryMechanism, DiscoveryMethod, DiscoveryProvenance } from '../types';
+import { findSourceMappingUrl } from './sourceMaps';
+import { findBundlerChunks } from './bundlerChunks';
+import { parseCss } from './cssParser';
+import { collectConstants, memberName, staticValue, StaticValue } from './staticValues';
+import { ApiCall, extractApiCalls } from './apiExtractor';
+import { loadPathMapper } from './pathMapper';
+import { extractInlineScripts } from './inlineScripts';
+import { createLocator, Locate } from '../utils/fileUtils';
+
 declare const acorn: any;
 
-const CSS_URL_REGEX = /url\((['"]?)(.*?)\1\)|@import\s*['"](.*?)['"]/g;
+export interface DiscoveredResource {
+    url: string;
+    via?: DiscoveryMethod; // Unset for plain references.
+    provenance: DiscoveryProvenance;
+}
+
+// A request the code sends to a server, rather than an asset it loads.
+export interface DiscoveredEndpoint extends Omit<ApiCall, 'url' | 'offset'> {
+    // Absolute, unless it starts with an unknown part. Unknown parts are `{name}` placeholders.
+    url: string;
+    provenance: DiscoveryProvenance;
+}
+
+// An endpoint found in a downloaded file, with the file's path in the zip.
+export interface ScannedEndpoint extends DiscoveredEndpoint {
+    path: string;
+}
+
+// What a file references: assets to download, and endpoints the code calls, which are only reported.
+export interface DiscoveryResult {
+    assets: DiscoveredResource[];
+    endpoints: DiscoveredEndpoint[];
+}
+
+// Found URLs, mapped to how they were found.
+type ResourceMap = Map<string, Omit<DiscoveredResource, 'url'>>;
+// Found endpoints, by method and URL.
+type EndpointMap = Map<string, DiscoveredEndpoint>;
+
 // A regex for identifying strings that are likely file paths or URLs.
 const URL_LIKE_STRING_REGEX = /^(https?:)?\/\/|\.\.?\/|\/[^\/]/;
 const POTENTIAL_ASSET_EXTENSIONS = /\.(js|css|json|xml|png|jpg|jpeg|gif|webp|svg|woff|woff2|ttf|eot|mp4|webm|mp3|ogg)$/i;
+const WORKER_CONSTRUCTORS = new Set(['Worker', 'SharedWorker']);
+
 
+// A Locate for code embedded in a larger file (an inline script or style), at `start` in it.
+const embeddedLocator = (locate: Locate, start: number): Locate =>
+    offset => start === -1 ? {} : locate(start + offset);
 
 /**
- * A helper to resolve a found URL against a base URL and add it to a Set.
+ * A helper to resolve a found URL against a base URL and add it to the found resources.
+ * The first find of a URL is kept, except that a find through a specific pattern replaces a plain one.
  * @param url The found URL string.
  * @param baseUrl The base URL of the file where the URL was found.
- * @param resources The Set to add the resolved URL to.
+ * @param resources The map to add the resolved URL to.
+ * @param provenance The syntax the URL was read from, and where.
+ * @param via How the URL was found, if through one of the tagged patterns.
  */
-function addResource(url: string | null | undefined, baseUrl: string, resources: Set<string>) {
+function addResource(url: string | null | undefined, baseUrl: string, resources: ResourceMap, provenance: DiscoveryProvenance, via?: DiscoveryMethod) {
     if (url && !url.startsWith('data:') && !url.startsWith('blob:')) {
         try {
-            resources.add(new URL(url, baseUrl).href);
+            const href = new URL(url, baseUrl).href;
+            if (!resources.has(href) || (via && !resources.get(href)!.via)) resources.set(href, via ? { via, provenance } : { provenance });
         } catch (e) {
             console.warn(`Invalid URL found: ${url}`);
         }
     }
 }
 
+const found = (mechanism: DiscoveryMechanism, position: { line?: number; column?: number }, attribute?: string, atRules?: string[]): DiscoveryProvenance =>
+    ({ mechanism, ...(attribute ? { attribute } : {}), ...(atRules?.length ? { atRules } : {}), ...position });
+
+const toDiscovered = (resources: ResourceMap): DiscoveredResource[] =>
+    Array.from(resources, ([url, resource]) => ({ url, ...resource }));
+
+/**
+ * Resolves an endpoint URL pattern and adds it to the found endpoints, unless already there.
+ * @param pattern The URL, with `{name}` placeholders for its unknown parts.
+ * @param baseUrl The base URL of the file where the call was found.
+ * @param endpoints The map to add the endpoint to.
+ * @param endpoint The call, method and provenance of the endpoint.
+ */
+function addEndpoint(pattern: string, baseUrl: string, endpoints: EndpointMap, endpoint: Omit<DiscoveredEndpoint, 'url'>) {
+    let url = pattern;
+    if (!pattern.startsWith('{')) {
+        try {
+            const resolved = new URL(pattern, baseUrl);
+            if (endpoint.call === 'webSocket') resolved.protocol = resolved.protocol.replace(/^http/, 'ws');
+            url = resolved.href.replace(/%7B/g, '{').replace(/%7D/g, '}');
+        } catch (e) {
+            return;
+        }
+    }
+    const key = `${endpoint.method ?? ''} ${url}`;
+    if (!endpoints.has(key)) endpoints.set(key, { url, ...endpoint });
+}
+
+/**
+ * Adds the URLs of a stylesheet (@import, url(), image-set() and @font-face sources), with the
+ * at-rules each one is nested in.
+ * @param cssContent The CSS content.
+ * @param baseUrl The base URL of the stylesheet.
+ * @param resources The map to add the resolved URLs to.
+ * @param locate Locates an offset in the CSS content.
+ * @param mode 'declarations' for the content of a `style` attribute.
+ */
+function addCssResources(cssContent: string, baseUrl: string, resources: ResourceMap, locate: Locate, mode: 'stylesheet' | 'declarations' = 'stylesheet') {
+    parseCss(cssContent, mode).references.forEach(reference => {
+        const mechanism = reference.kind === 'import' ? 'cssImport' : 'cssUrl';
+        addResource(reference.url, baseUrl, resources, found(mechanism, locate(reference.offset), undefined, reference.atRules));
+    });
+}
+
+/**
+ * Adds the module URLs of an import map (`imports` and every `scopes` entry).
+ * @param importMapContent The JSON content of a `<script type="importmap">`.
+ * @param baseUrl The base URL of the HTML page.
+ * @param resources The map to add the resolved URLs to.
+ * @param locate Locates an offset in the import map content.
+ */
+function addImportMapResources(importMapContent: string, baseUrl: string, resources: ResourceMap, locate: Locate) {
+    try {
+        const importMap = JSON.parse(importMapContent);
+        const specifierMaps = [importMap.imports, ...Object.values(importMap.scopes || {})];
+        specifierMaps.forEach(specifiers => {
+            if (!specifiers || typeof specifiers !== 'object') return;
+            Object.values(specifiers).forEach(target => {
+                // Prefix mappings ("lodash/") point at a folder, not at a file.
+                if (typeof target === 'string' && !target.endsWith('/')) {
+                    addResource(target, baseUrl, resources, found('importMap', locate(importMapContent.indexOf(JSON.stringify(target)))), 'importmap');
+                }
+            });
+        });
+    } catch (e) {
+        console.warn('Failed to parse import map', e);
+    }
+}
+
 /**
  * Parses HTML content to find linked resources like CSS, JS, and images.
  * @param htmlContent The HTML content as a string.
  * @param baseUrl The base URL of the HTML page.
- * @returns An array of absolute URLs to resources.
+ * @returns The resources found, with absolute URLs.
  */
-function findResourcesInHtml(htmlContent: string, baseUrl: string): string[] {
+function findResourcesInHtml(htmlContent: string, baseUrl: string): DiscoveryResult {
     const doc = new DOMParser().parseFromString(htmlContent, 'text/html');
-    const resources = new Set<string>();
+    const resources: ResourceMap = new Map();
+    const endpoints: EndpointMap = new Map();
     const base = new URL(baseUrl);
+    const locate = createLocator(htmlContent);
+    // The parsed DOM has no positions, so values are looked up in the source text. Values the
+    // parser decoded (e.g. `&amp;` in a URL) aren't found there and are left without a position.
+    const locateText = (text: string) => locate(text ? htmlContent.indexOf(text) : -1);
 
-    const resolveAndAdd = (url: string | null) => addResource(url, base.href, resources);
+    const addAttribute = (el: Element, attribute: string, via?: DiscoveryMethod) => {
+        const value = el.getAttribute(attribute);
+        if (value) addResource(value, base.href, resources, found('attribute', locateText(value), attribute), via);
+    };
     
-    const parseSrcset = (srcset: string | null) => {
+    const parseSrcset = (el: Element) => {
+        const srcset = el.getAttribute('srcset');
         if (!srcset) return;
-        srcset.split(',').map(part => part.trim().split(/\s+/)[0]).forEach(resolveAndAdd);
+        srcset.split(',').map(part => part.trim().split(/\s+/)[0]).forEach(url => {
+            addResource(url, base.href, resources, found('attribute', locateText(url), 'srcset'));
+        });
     };
 
-    doc.querySelectorAll('link[href]').forEach(el => resolveAndAdd(el.getAttribute('href')));
-    doc.querySelectorAll('script[src], img[src], audio[src], video[src], source[src], iframe[src], embed[src], object[data], track[src]').forEach(el => resolveAndAdd(el.getAttribute('src')));
-    doc.querySelectorAll('img[srcset], source[srcset]').forEach(el => parseSrcset(el.getAttribute('srcset')));
-    doc.querySelectorAll('video[poster]').forEach(el => resolveAndAdd(el.getAttribute('poster')));
+    doc.querySelectorAll('link[rel~="modulepreload" i][href]').forEach(el => addAttribute(el, 'href', 'modulepreload'));
+    doc.querySelectorAll('link[href]').forEach(el => addAttribute(el, 'href'));
+    doc.querySelectorAll('script[type="importmap" i]:not([src])').forEach(el => {
+        const importMapContent = el.textContent || '';
+        addImportMapResources(importMapContent, base.href, resources, embeddedLocator(locate, htmlContent.indexOf(importMapContent)));
+    });
+    doc.querySelectorAll('script[src], img[src], audio[src], video[src], source[src], iframe[src], embed[src], track[src]').forEach(el => addAttribute(el, 'src'));
+    doc.querySelectorAll('object[data]').forEach(el => addAttribute(el, 'data'));
+    doc.querySelectorAll('img[srcset], source[srcset]').forEach(parseSrcset);
+    doc.querySelectorAll('video[poster]').forEach(el => addAttribute(el, 'poster'));
     doc.querySelectorAll('[style]').forEach(el => {
         const style = el.getAttribute('style');
-        if (style) {
-            let match;
-            CSS_URL_REGEX.lastIndex = 0;
-            while ((match = CSS_URL_REGEX.exec(style)) !== null) {
-                resolveAndAdd(match[2] || match[3]);
-            }
-        }
+        if (style) addCssResources(style, base.href, resources, embeddedLocator(locate, htmlContent.indexOf(style)), 'declarations');
     });
     doc.querySelectorAll('style').forEach(styleTag => {
         const styleContent = styleTag.textContent;
-        if (styleContent) {
-            let match;
-            CSS_URL_REGEX.lastIndex = 0;
-            while ((match = CSS_URL_REGEX.exec(styleContent)) !== null) {
-                resolveAndAdd(match[2] || match[3]);
-            }
-        }
+        if (styleContent) addCssResources(styleContent, base.href, resources, embeddedLocator(locate, htmlContent.indexOf(styleContent)));
+    });
+    // Service workers and workers are usually registered from inline scripts, and event
+    // handlers and javascript: URLs may load code or send requests too.
+    extractInlineScripts(htmlContent).forEach(script => {
+        walkJs(script.code, base.href, resources, endpoints, embeddedLocator(locate, script.offset));
     });
 
-    return Array.from(resources);
+    return { assets: toDiscovered(resources), endpoints: Array.from(endpoints.values()) };
 }
 
 /**
@@ -107,75 +233,157 @@ export function findInternalLinksInHtml(htmlContent: string, baseUrl: string): S
  * Parses CSS content to find imported stylesheets and other resources.
  * @param cssContent The CSS content as a string.
  * @param baseUrl The base URL of the CSS file.
- * @returns An array of absolute URLs to resources.
+ * @returns The resources found, with absolute URLs.
  */
-function findResourcesInCss(cssContent: string, baseUrl: string): string[] {
-  const resources = new Set<string>();
-  let match;
-  CSS_URL_REGEX.lastIndex = 0;
-  while ((match = CSS_URL_REGEX.exec(cssContent)) !== null) {
-    addResource(match[2] || match[3], baseUrl, resources);
-  }
-  return Array.from(resources);
+function findResourcesInCss(cssContent: string, baseUrl: string): DiscoveredResource[] {
+  const resources: ResourceMap = new Map();
+  const locate = createLocator(cssContent);
+  addCssResources(cssContent, baseUrl, resources, locate);
+  addSourceMapResource(cssContent, baseUrl, resources, locate);
+  return toDiscovered(resources);
 }
 
 /**
  * Parses a Web App Manifest to find icons, screenshots, etc.
  * @param manifestContent The JSON content of the manifest file.
  * @param baseUrl The base URL of the manifest file.
- * @returns An array of absolute URLs to resources.
+ * @returns The resources found, with absolute URLs.
  */
-function findResourcesInManifest(manifestContent: string, baseUrl: string): string[] {
-    const resources = new Set<string>();
+function findResourcesInManifest(manifestContent: string, baseUrl: string): DiscoveredResource[] {
+    const resources: ResourceMap = new Map();
     try {
         const manifest = JSON.parse(manifestContent);
         const icons = manifest.icons || [];
         const screenshots = manifest.screenshots || [];
+        const locate = createLocator(manifestContent);
         
-        const resolveAndAdd = (url: string) => addResource(url, baseUrl, resources);
+        const resolveAndAdd = (url: string, mechanism: DiscoveryMechanism) => {
+            const position = typeof url === 'string' ? locate(manifestContent.indexOf(JSON.stringify(url))) : {};
+            addResource(url, baseUrl, resources, found(mechanism, position));
+        };
 
-        icons.forEach((icon: { src: string }) => resolveAndAdd(icon.src));
-        screenshots.forEach((shot: { src: string }) => resolveAndAdd(shot.src));
-        if (manifest.start_url) resolveAndAdd(manifest.start_url);
+        icons.forEach((icon: { src: string }) => resolveAndAdd(icon.src, 'manifestIcon'));
+        screenshots.forEach((shot: { src: string }) => resolveAndAdd(shot.src, 'manifestScreenshot'));
+        if (manifest.start_url) resolveAndAdd(manifest.start_url, 'manifestStartUrl');
 
     } catch (e) {
         console.error("Failed to parse web manifest", e);
     }
-    return Array.from(resources);
+    return toDiscovered(resources);
 }
 
+const isImportMetaUrl = (node: any) =>
+    node?.type === 'MemberExpression' && node.object.type === 'MetaProperty' && node.property.name === 'url';
+
+const isUrlConstructor = (node: any) =>
+    node.type === 'NewExpression' && node.callee.type === 'Identifier' && node.callee.name === 'URL';
+
 /**
- * Parses JavaScript code by building an Abstract Syntax Tree (AST) to find resource URLs.
- * This is far more reliable than regex for complex code.
+ * Reads a URL argument that is known without running the code: a string expression of literals
+ * and constants, or `new URL('...', import.meta.url)` (the script's own URL).
+ * @param node The argument's AST node.
+ * @param scope The script's constants.
+ */
+function staticUrlArgument(node: any, scope: Map<string, StaticValue>): string | null {
+    if (!node) return null;
+    if (isUrlConstructor(node)) {
+        const [url, base] = node.arguments;
+        if (!base || isImportMetaUrl(base)) return staticUrlArgument(url, scope);
+        const baseValue = staticValue(base, scope);
+        const urlValue = staticUrlArgument(url, scope);
+        if (typeof baseValue !== 'string' || urlValue === null) return null;
+        try {
+            return new URL(urlValue, baseValue).href;
+        } catch (e) {
+            return null;
+        }
+    }
+    const value = staticValue(node, scope);
+    return typeof value === 'string' ? value : null;
+}
+
+/**
+ * Tells how a call or `new` expression loads code, if it is one of the tagged patterns:
+ * `navigator.serviceWorker.register(url)`, `new Worker(url)` / `new SharedWorker(url)`,
+ * or `importScripts(...urls)` (also as `self.importScripts`).
+ */
+function codeLoadingCall(node: any): DiscoveryMethod | null {
+    const callee = node.callee;
+    if (node.type === 'NewExpression') {
+        return callee.type === 'Identifier' && WORKER_CONSTRUCTORS.has(callee.name) ? 'worker' : null;
+    }
+    if (callee.type === 'Identifier' && callee.name === 'importScripts') return 'importScripts';
+    if (memberName(callee) === 'importScripts') return 'importScripts';
+    if (memberName(callee) === 'register') {
+        const registrar = callee.object;
+        if ((registrar.type === 'Identifier' && registrar.name === 'serviceWorker') || memberName(registrar) === 'serviceWorker') {
+            return 'serviceWorker';
+        }
+    }
+    return null;
+}
+
+/**
+ * Parses JavaScript code by building an Abstract Syntax Tree (AST) to find resource URLs,
+ * adding them to the given map. This is far more reliable than regex for complex code.
+ * String expressions are folded when their parts are literals or constants, and the endpoints
+ * of request calls (fetch, XMLHttpRequest...) are collected apart from the assets.
  * @param jsContent The JavaScript code as a string.
  * @param baseUrl The base URL of the JavaScript file.
- * @returns An array of absolute URLs to resources.
+ * @param resources The map to add the resolved URLs to.
+ * @param endpoints The map to add the requested endpoints to.
+ * @param locate Locates an offset in the code.
  */
-function findResourcesInJsAst(jsContent: string, baseUrl: string): string[] {
-    const resources = new Set<string>();
-    
+function walkJs(jsContent: string, baseUrl: string, resources: ResourceMap, endpoints: EndpointMap, locate: Locate) {
     // Prevent Acorn from choking on empty files
     if (!jsContent || !jsContent.trim()) {
-        return [];
+        return;
     }
     
     try {
-        const ast = acorn.parse(jsContent, { ecmaVersion: 2022, sourceType: 'module', silent: true });
+        // Event handlers taken from HTML attributes may `return` at the top level.
+        const ast = acorn.parse(jsContent, { ecmaVersion: 2022, sourceType: 'module', allowReturnOutsideFunction: true, silent: true });
+        const scope = collectConstants(ast);
 
         // Simple recursive walker to traverse the AST
-        function walk(node: any) {
+        function walk(node: any, parent?: any) {
             if (!node) return;
 
             // Look for dynamic imports: import('...')
             if (node.type === 'ImportExpression' && node.source?.type === 'Literal') {
-                addResource(node.source.value, baseUrl, resources);
+                addResource(node.source.value, baseUrl, resources, found('dynamicImport', locate(node.source.start)));
+            }
+
+            // Service worker registrations, worker constructors and importScripts calls.
+            // Their URLs often have no file extension, so they're taken whatever they look like.
+            if (node.type === 'CallExpression' || node.type === 'NewExpression') {
+                const via = codeLoadingCall(node);
+                if (via) {
+                    const urlArguments = via === 'importScripts' ? node.arguments : node.arguments.slice(0, 1);
+                    urlArguments.forEach((arg: any) => addResource(staticUrlArgument(arg, scope), baseUrl, resources, found('callArgument', locate(arg.start)), via));
+                }
+            }
+
+            // Bundled assets: new URL('./logo.svg', import.meta.url). Their extension can be anything (.wasm, .glb...).
+            if (isUrlConstructor(node) && isImportMetaUrl(node.arguments[1])) {
+                addResource(staticUrlArgument(node, scope), baseUrl, resources, found('urlConstructor', locate(node.start)));
+            }
+
+            // Template literals and concatenations that fold to a URL, such as `${CDN}/img/logo.png`.
+            // Only the outermost `+` of a concatenation is evaluated.
+            const isConcatenation = (candidate: any) => candidate?.type === 'BinaryExpression' && candidate.operator === '+';
+            if ((node.type === 'TemplateLiteral' && parent?.type !== 'TaggedTemplateExpression') || (isConcatenation(node) && !isConcatenation(parent))) {
+                const value = staticValue(node, scope);
+                if (typeof value === 'string' && URL_LIKE_STRING_REGEX.test(value.trim()) && POTENTIAL_ASSET_EXTENSIONS.test(value.trim())) {
+                    addResource(value.trim(), baseUrl, resources, found('stringExpression', locate(node.start)));
+                }
             }
 
             // Look for string literals that look like URLs
             if (node.type === 'Literal' && typeof node.value === 'string') {
                 const potentialUrl = node.value.trim();
                 if (URL_LIKE_STRING_REGEX.test(potentialUrl) && POTENTIAL_ASSET_EXTENSIONS.test(potentialUrl)) {
-                    addResource(potentialUrl, baseUrl, resources);
+                    addResource(potentialUrl, baseUrl, resources, found('astLiteral', locate(node.start)));
                 }
             }
 
@@ -185,9 +393,9 @@ function findResourcesInJsAst(jsContent: string, baseUrl: string): string[] {
                     const child = node[key];
                     if (typeof child === 'object' && child !== null) {
                         if (Array.isArray(child)) {
-                            child.forEach(n => walk(n));
+                            child.forEach(n => walk(n, node));
                         } else {
-                            walk(child);
+                            walk(child, node);
                         }
                     }
                 }
@@ -196,6 +404,11 @@ function findResourcesInJsAst(jsContent: string, baseUrl: string): string[] {
 
         walk(ast);
 
+        extractApiCalls(ast, scope).forEach(({ url, offset, ...call }) => addEndpoint(url, baseUrl, endpoints, { ...call, provenance: found('requestCall', locate(offset)) }));
+
+        // Lazy chunks whose URLs are only assembled at runtime from bundler tables.
+        findBundlerChunks(ast, baseUrl).forEach(chunk => addResource(chunk.url, baseUrl, resources, found('bundlerTable', locate(chunk.offset)), chunk.via));
+
     } catch (e) {
         // Suppress common, benign errors from empty or non-JS files, but log others.
         if (!(e instanceof Error && e.message.includes('Unexpected token (1:0)'))) {
@@ -208,11 +421,36 @@ function findResourcesInJsAst(jsContent: string, baseUrl: string): string[] {
         while ((match = regex.exec(jsContent)) !== null) {
             const url = match[2];
             if (POTENTIAL_ASSET_EXTENSIONS.test(url)) {
-                 addResource(url, baseUrl, resources);
+                 addResource(url, baseUrl, resources, found('regexFallback', locate(match.index)));
             }
         }
+        const codeLoadingRegex = /(serviceWorker\s*\.\s*register|new\s+(?:Shared)?Worker|importScripts)\s*\(\s*(['"`])([^'"`]+)\2/g;
+        while ((match = codeLoadingRegex.exec(jsContent)) !== null) {
+            const via: DiscoveryMethod = match[1].startsWith('importScripts') ? 'importScripts' : match[1].startsWith('new') ? 'worker' : 'serviceWorker';
+            addResource(match[3], baseUrl, resources, found('regexFallback', locate(match.index)), via);
+        }
     }
-    return Array.from(resources);
+}
+
+/**
+ * Finds the resource URLs and requested endpoints of a JavaScript file.
+ * @param jsContent The JavaScript code as a string.
+ * @param baseUrl The base URL of the JavaScript file.
+ * @returns The assets and endpoints found, with absolute URLs.
+ */
+function findResourcesInJsAst(jsContent: string, baseUrl: string): DiscoveryResult {
+    const resources: ResourceMap = new Map();
+    const endpoints: EndpointMap = new Map();
+    const locate = createLocator(jsContent);
+    walkJs(jsContent, baseUrl, resources, endpoints, locate);
+    addSourceMapResource(jsContent, baseUrl, resources, locate);
+    return { assets: toDiscovered(resources), endpoints: Array.from(endpoints.values()) };
+}
+
+// Inline (data:) maps are skipped by addResource; they are read from the file itself.
+function addSourceMapResource(content: string, baseUrl: string, resources: ResourceMap, locate: Locate) {
+    const mappingUrl = findSourceMappingUrl(content);
+    if (mappingUrl) addResource(mappingUrl, baseUrl, resources, found('sourceMapComment', locate(content.lastIndexOf(mappingUrl))), 'sourceMap');
 }
 
 /**
@@ -220,21 +458,49 @@ function findResourcesInJsAst(jsContent: string, baseUrl: string): string[] {
  * @param contentType The MIME type of the content.
  * @param content The file content as a string.
  * @param baseUrl The base URL of the file.
- * @returns A Promise that resolves to an array of found resource URLs.
+ * @returns A Promise that resolves to the found assets and endpoints, with how and where they were found.
  */
-export async function findAllResources(contentType: string, content: string, baseUrl: string): Promise<string[]> {
+export async function findAllResources(contentType: string, content: string, baseUrl: string): Promise<DiscoveryResult> {
     if (contentType.includes('html')) {
         return findResourcesInHtml(content, baseUrl);
     }
     if (contentType.includes('css')) {
-        return findResourcesInCss(content, baseUrl);
+        return { assets: findResourcesInCss(content, baseUrl), endpoints: [] };
     }
     if (contentType.includes('javascript') || contentType.includes('application/ecmascript')) {
         return findResourcesInJsAst(content, baseUrl);
     }
     if (contentType.includes('json') || baseUrl.endsWith('.webmanifest')) {
         // Might be a manifest file loaded with a generic json type
-        return findResourcesInManifest(content, baseUrl);
+        return { assets: findResourcesInManifest(content, baseUrl), endpoints: [] };
     }
-    return []; // No resources found for this content type
-}
\ No newline at end of file
+    return { assets: [], endpoints: [] }; // No resources found for this content type
+}
+
+/**
+ * Collects the endpoints requested by the scripts and HTML pages of a scan, for reporting.
+ * @param zip The JSZip instance of the scan.
+ * @param rootUrl The scanned URL.
+ * @returns The endpoints, in file order, with the file each was found in.
+ */
+export async function findEndpointsInScan(zip: any, rootUrl: string): Promise<ScannedEndpoint[]> {
+    const manifest = (await loadPathMapper(zip, rootUrl)).getManifest();
+    // Archives made before the path manifest existed stored files at their URL path.
+    const files = manifest.files.length > 0
+        ? manifest.files
+        : Object.keys(zip.files).filter(name => !zip.files[name].dir).map(path => ({ path, url: new URL(`/${path}`, rootUrl).href, contentType: undefined }));
+    const endpoints: ScannedEndpoint[] = [];
+    for (const { path, url, contentType } of files) {
+        const type = contentType || (/\.html?$/i.test(path) ? 'text/html' : /\.(m?js|cjs)$/i.test(path) ? 'application/javascript' : '');
+        if (!type.includes('html') && !type.includes('javascript') && !type.includes('ecmascript')) continue;
+        const file = zip.file(path);
+        if (!file) continue;
+        try {
+            const { endpoints: fileEndpoints } = await findAllResources(type, await file.async('text'), url);
+            fileEndpoints.forEach(endpoint => endpoints.push({ ...endpoint, path }));
+        } catch (e) {
+            console.warn(`Failed to look for endpoints in ${path}`, e);
+        }
+    }
+    return endpoints;
+}
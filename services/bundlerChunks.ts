@@ -0,0 +1,181 @@
+// Lazy-loaded chunks of bundled apps. Bundlers build chunk URLs at runtime from tables in their
+// runtime code, so the URLs never appear as whole string literals: webpack's chunk filename
+// functions (`__webpack_require__.u`, `miniCssF`), Vite's preload dependency lists and Next.js'
+// `_buildManifest.js`. The tables are evaluated statically here, without running any code.
+
+import { DiscoveryMethod } from '../types';
+import { forEachNode, propertyKey, staticValue, StaticValue, UNKNOWN } from './staticValues';
+
+export interface BundlerChunk {
+    url: string;
+    via: DiscoveryMethod;
+    offset: number; // Where the table entry (or the chunk filename function) starts in the script.
+}
+
+type ChunkMap = Map<string, Omit<BundlerChunk, 'url'>>;
+
+type ChunkId = string | number;
+
+const CHUNK_FILE_REGEX = /\.(m?js|css)(\?[^/]*)?$/i;
+const VITE_DEPS_NAMES = /^__vite__(mapDeps|fileDeps)$/;
+// Keeps a misread table from flooding the download queue.
+const MAX_CHUNKS_PER_TABLE = 2000;
+
+const isFunction = (node: any) =>
+    node.type === 'ArrowFunctionExpression' || node.type === 'FunctionExpression' || node.type === 'FunctionDeclaration';
+
+// The expression a function returns, if its body is nothing but that expression.
+function returnedExpression(fn: any): any {
+    if (fn.body.type !== 'BlockStatement') return fn.body;
+    const [statement] = fn.body.body;
+    return fn.body.body.length === 1 && statement.type === 'ReturnStatement' ? statement.argument : null;
+}
+
+// Numeric chunk ids are numbers at runtime, which matters for `826===e` tests.
+const toChunkId = (key: string): ChunkId => /^\d+$/.test(key) ? Number(key) : key;
+
+/**
+ * Resolves a chunk path. Bundlers write paths relative to the app's output root (`static/js/1.js`,
+ * `assets/About.js`), which is found by locating the path's first folder in the script's own URL;
+ * failing that, the path is taken relative to the script, as webpack's automatic public path does.
+ * @param path The chunk path.
+ * @param scriptUrl The URL of the script holding the chunk table.
+ */
+function resolveChunkUrl(path: string, scriptUrl: string): string {
+    const script = new URL(scriptUrl);
+    if (/^([a-z][\w+.-]*:|\/)/i.test(path) || !path.includes('/')) return new URL(path, script).href;
+    const index = script.pathname.indexOf(`/${path.split('/')[0]}/`);
+    const root = index === -1 ? script : new URL(script.pathname.slice(0, index + 1), script);
+    return new URL(path, root).href;
+}
+
+// Webpack's public path (`__webpack_require__.p = "/"`, minified to `r.p="/"`), when it's a literal.
+function findWebpackPublicPath(ast: any): string | null {
+    let publicPath: string | null = null;
+    forEachNode(ast, node => {
+        if (publicPath === null && node.type === 'AssignmentExpression' && node.operator === '='
+            && node.left.type === 'MemberExpression' && !node.left.computed && node.left.object.type === 'Identifier'
+            && node.left.property.name === 'p' && node.right.type === 'Literal' && typeof node.right.value === 'string') {
+            publicPath = node.right.value;
+        }
+    });
+    return publicPath;
+}
+
+/**
+ * Finds webpack chunk filename functions, such as
+ * `r.u = e => "static/js/" + e + "." + {12: "a1b2", 34: "c3d4"}[e] + ".chunk.js"`, and evaluates
+ * them for every chunk id their lookup tables and comparisons mention.
+ */
+function findWebpackChunks(ast: any, scriptUrl: string, chunks: ChunkMap) {
+    let publicPath: string | null | undefined;
+    forEachNode(ast, node => {
+        if (!isFunction(node) || node.params.length !== 1 || node.params[0].type !== 'Identifier') return;
+        const expression = returnedExpression(node);
+        if (!expression) return;
+        const param = node.params[0].name;
+        const isParam = (child: any) => child?.type === 'Identifier' && child.name === param;
+
+        const ids = new Set<ChunkId>();
+        forEachNode(expression, child => {
+            if (child.type === 'MemberExpression' && child.computed && child.object.type === 'ObjectExpression' && isParam(child.property)) {
+                child.object.properties.forEach((property: any) => {
+                    const key = propertyKey(property);
+                    if (key !== null) ids.add(toChunkId(key));
+                });
+            } else if (child.type === 'BinaryExpression' && /^[!=]==?$/.test(child.operator)) {
+                const other = isParam(child.left) ? child.right : isParam(child.right) ? child.left : null;
+                if (other?.type === 'Literal' && (typeof other.value === 'number' || typeof other.value === 'string')) ids.add(other.value);
+            }
+        });
+        if (ids.size === 0) return;
+
+        if (publicPath === undefined) publicPath = findWebpackPublicPath(ast);
+        let usesPublicPath = false;
+        const member = (name: string): StaticValue => {
+            if (name !== 'p') return UNKNOWN;
+            usesPublicPath = true;
+            return publicPath ?? '';
+        };
+        Array.from(ids).slice(0, MAX_CHUNKS_PER_TABLE).forEach(id => {
+            usesPublicPath = false;
+            const path = staticValue(expression, new Map([[param, id]]), member);
+            if (typeof path !== 'string' || !CHUNK_FILE_REGEX.test(path) || path.includes('undefined')) return;
+            chunks.set(resolveChunkUrl(usesPublicPath ? path : (publicPath ?? '') + path, scriptUrl), { via: 'webpackChunk', offset: node.start });
+        });
+    });
+}
+
+/**
+ * Finds Vite's preload dependency lists: the `__vite__mapDeps` table of newer versions, and the
+ * arrays passed next to dynamic imports (`__vitePreload(() => import("./About.js"), ["assets/About.css"])`)
+ * of older ones, where the helper's name is minified away.
+ */
+function findViteChunks(ast: any, scriptUrl: string, chunks: ChunkMap) {
+    const addPaths = (node: any) => forEachNode(node, child => {
+        if (child.type === 'Literal' && typeof child.value === 'string' && CHUNK_FILE_REGEX.test(child.value)) {
+            chunks.set(resolveChunkUrl(child.value, scriptUrl), { via: 'viteChunk', offset: child.start });
+        }
+    });
+    forEachNode(ast, node => {
+        if (node.type === 'VariableDeclarator' && node.id.type === 'Identifier' && VITE_DEPS_NAMES.test(node.id.name)) {
+            addPaths(node.init);
+        } else if (node.type === 'CallExpression' && node.arguments.length >= 2) {
+            const [loader, deps] = node.arguments;
+            const loadsModule = isFunction(loader) && returnedExpression(loader)?.type === 'ImportExpression';
+            if (loadsModule && deps.type === 'ArrayExpression' && deps.elements.every((element: any) => element?.type === 'Literal')) {
+                addPaths(deps);
+            }
+        }
+    });
+}
+
+// The `/_next/` folder the paths of a Next.js build manifest are relative to.
+function nextAssetRoot(manifestUrl: string): string {
+    const url = new URL(manifestUrl);
+    const index = url.pathname.indexOf('/_next/');
+    return new URL(index === -1 ? '/_next/' : url.pathname.slice(0, index + '/_next/'.length), url).href;
+}
+
+/**
+ * Reads a Next.js build manifest: `self.__BUILD_MANIFEST = {...}`, or the minified form that
+ * passes shared chunk names into a function returning the object.
+ */
+function findNextChunks(ast: any, scriptUrl: string, chunks: ChunkMap) {
+    forEachNode(ast, node => {
+        if (node.type !== 'AssignmentExpression' || node.left.type !== 'MemberExpression' || node.left.property.name !== '__BUILD_MANIFEST') return;
+        let manifest = node.right;
+        const scope = new Map<string, StaticValue>();
+        if (manifest.type === 'CallExpression' && isFunction(manifest.callee)) {
+            manifest.callee.params.forEach((param: any, i: number) => {
+                if (param.type === 'Identifier') scope.set(param.name, staticValue(manifest.arguments[i], scope));
+            });
+            manifest = returnedExpression(manifest.callee);
+        }
+        if (manifest?.type !== 'ObjectExpression') return;
+
+        const root = nextAssetRoot(scriptUrl);
+        forEachNode(manifest, child => {
+            const value = child.type === 'Literal' || child.type === 'Identifier' ? staticValue(child, scope) : UNKNOWN;
+            if (typeof value === 'string' && CHUNK_FILE_REGEX.test(value)) chunks.set(new URL(value, root).href, { via: 'nextBuildManifest', offset: child.start });
+        });
+    });
+}
+
+/**
+ * Finds the lazy-loaded chunks named by bundler runtime tables in a parsed script.
+ * @param ast The script's acorn AST.
+ * @param scriptUrl The URL of the script (or of the page, for inline scripts).
+ * @returns The chunk URLs, tagged with the table they came from and where it is.
+ */
+export function findBundlerChunks(ast: any, scriptUrl: string): BundlerChunk[] {
+    const chunks: ChunkMap = new Map();
+    try {
+        findWebpackChunks(ast, scriptUrl, chunks);
+        findViteChunks(ast, scriptUrl, chunks);
+        findNextChunks(ast, scriptUrl, chunks);
+    } catch (e) {
+        console.warn(`Failed to read bundler chunk tables in ${scriptUrl}`, e);
+    }
+    return Array.from(chunks, ([url, chunk]) => ({ url, ...chunk }));
+}
@@ -0,0 +1,436 @@
+// A tokenizer-based CSS parser for asset discovery and the stylesheet structure view. Tokens
+// follow the CSS Syntax rules closely enough for real stylesheets: comments are dropped, escapes
+// are decoded, and unquoted url() tokens are read as a whole. Every URL is reported with the
+// at-rules it is nested in, and the imports, font faces and media queries are collected on the way.
+
+type TokenType = 'ident' | 'function' | 'at-keyword' | 'string' | 'url' | 'whitespace'
+    | '{' | '}' | '(' | ')' | '[' | ']' | ';' | ':' | ',' | 'delim';
+
+interface Token {
+    type: TokenType;
+    value: string; // Decoded name for idents, functions and at-keywords; decoded content for strings and urls.
+    start: number;
+    end: number;
+}
+
+export interface CssUrlReference {
+    url: string;
+    offset: number; // Where the url() or string starts in the stylesheet.
+    kind: 'import' | 'fontFace' | 'declaration';
+    property?: string; // The declaration or descriptor, e.g. 'background-image' or 'src'.
+    format?: string; // From format() in an @font-face src list.
+    atRules: string[]; // The enclosing at-rules, outermost first, e.g. ['@media (min-width: 600px)'].
+}
+
+export interface CssImport {
+    url: string;
+    offset: number;
+    layer?: string; // '' for an anonymous layer.
+    supports?: string;
+    media?: string;
+    atRules: string[];
+}
+
+export interface CssFontSource {
+    url?: string;
+    local?: string;
+    format?: string;
+}
+
+export interface CssFontFace {
+    offset: number;
+    family?: string;
+    weight?: string;
+    style?: string;
+    display?: string;
+    unicodeRange?: string;
+    sources: CssFontSource[];
+    atRules: string[];
+}
+
+export interface CssMediaQuery {
+    condition: string;
+    offset: number;
+    ruleCount: number; // Style rules inside, nested ones included.
+    atRules: string[];
+}
+
+export interface CssStructure {
+    references: CssUrlReference[];
+    imports: CssImport[];
+    fontFaces: CssFontFace[];
+    mediaQueries: CssMediaQuery[];
+}
+
+const SINGLE_CHAR_TOKENS = new Set(['{', '}', '(', ')', '[', ']', ';', ':', ',']);
+// Functions whose direct string arguments are URLs.
+const URL_STRING_FUNCTIONS = new Set(['url', 'src', 'image-set', '-webkit-image-set']);
+
+const isWhitespace = (char: string | undefined) => char === ' ' || char === '\t' || char === '\n' || char === '\r' || char === '\f';
+const isHexDigit = (char: string | undefined) => !!char && /[0-9a-fA-F]/.test(char);
+const isNameStart = (char: string | undefined) => !!char && /[a-zA-Z_\u0080-\uFFFF]/.test(char);
+const isNameChar = (char: string | undefined) => !!char && /[-\w\u0080-\uFFFF]/.test(char);
+
+/**
+ * Splits CSS into tokens. Numbers, hashes and other symbols become one-character delim tokens,
+ * which is enough here since preludes and values are read back from the source text.
+ * @param css The CSS source.
+ */
+function tokenize(css: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    const startsEscape = (at: number) => css[at] === '\\' && at + 1 < css.length && css[at + 1] !== '\n';
+    const startsName = (at: number) => css[at] === '-'
+        ? isNameStart(css[at + 1]) || css[at + 1] === '-' || startsEscape(at + 1)
+        : isNameStart(css[at]) || startsEscape(at);
+
+    // Reads the escape at `i` (a backslash): up to six hex digits and one whitespace, or a literal character.
+    const consumeEscape = (): string => {
+        i++;
+        let hex = '';
+        while (hex.length < 6 && isHexDigit(css[i])) hex += css[i++];
+        if (!hex) return i < css.length ? css[i++] : '\uFFFD';
+        if (isWhitespace(css[i])) i++;
+        const codePoint = parseInt(hex, 16);
+        return codePoint === 0 || codePoint > 0x10FFFF || (codePoint >= 0xD800 && codePoint <= 0xDFFF) ? '\uFFFD' : String.fromCodePoint(codePoint);
+    };
+
+    const consumeName = (): string => {
+        let name = '';
+        while (i < css.length) {
+            if (isNameChar(css[i])) name += css[i++];
+            else if (startsEscape(i)) name += consumeEscape();
+            else break;
+        }
+        return name;
+    };
+
+    // Reads an unquoted url( ... ) after the opening parenthesis. Null for a bad URL, which is skipped.
+    const consumeUrl = (): string | null => {
+        let value = '';
+        let bad = false;
+        while (i < css.length) {
+            const char = css[i];
+            if (char === ')') { i++; break; }
+            if (isWhitespace(char)) {
+                while (isWhitespace(css[i])) i++;
+                if (css[i] === ')' || i >= css.length) continue;
+                bad = true;
+            } else if (char === '\\') {
+                if (startsEscape(i)) { value += consumeEscape(); continue; }
+                bad = true;
+                i++;
+            } else if (char === '"' || char === '\'' || char === '(') {
+                bad = true;
+                i++;
+            } else {
+                value += char;
+                i++;
+            }
+            if (bad) {
+                // Skip to the end of the bad URL, still honoring escaped parentheses.
+                while (i < css.length && css[i] !== ')') i += startsEscape(i) ? 2 : 1;
+                i++;
+                return null;
+            }
+        }
+        return value;
+    };
+
+    while (i < css.length) {
+        const start = i;
+        const char = css[i];
+        const push = (type: TokenType, value: string) => tokens.push({ type, value, start, end: i });
+
+        if (char === '/' && css[i + 1] === '*') {
+            const end = css.indexOf('*/', i + 2);
+            i = end === -1 ? css.length : end + 2;
+        } else if (isWhitespace(char)) {
+            while (isWhitespace(css[i])) i++;
+            push('whitespace', ' ');
+        } else if (char === '"' || char === '\'') {
+            i++;
+            let value = '';
+            // An unescaped newline ends a (bad) string.
+            while (i < css.length && css[i] !== char && css[i] !== '\n') {
+                if (css[i] === '\\') {
+                    if (css[i + 1] === '\n') i += 2;
+                    else if (i + 1 >= css.length) i++;
+                    else value += consumeEscape();
+                } else {
+                    value += css[i++];
+                }
+            }
+            if (css[i] === char) i++;
+            push('string', value);
+        } else if (char === '@' && startsName(i + 1)) {
+            i++;
+            push('at-keyword', consumeName());
+        } else if (startsName(i)) {
+            const name = consumeName();
+            if (css[i] !== '(') {
+                push('ident', name);
+                continue;
+            }
+            i++;
+            let next = i;
+            while (isWhitespace(css[next])) next++;
+            if (name.toLowerCase() === 'url' && css[next] !== '"' && css[next] !== '\'') {
+                i = next;
+                const url = consumeUrl();
+                if (url !== null) push('url', url);
+            } else {
+                push('function', name);
+            }
+        } else {
+            i++;
+            push(SINGLE_CHAR_TOKENS.has(char) ? char as TokenType : 'delim', char);
+        }
+    }
+    return tokens;
+}
+
+/**
+ * Parses a stylesheet, or the declarations of a `style` attribute.
+ * @param css The CSS source.
+ * @param mode 'declarations' for the content of a `style` attribute.
+ */
+export function parseCss(css: string, mode: 'stylesheet' | 'declarations' = 'stylesheet'): CssStructure {
+    const tokens = tokenize(css);
+    const structure: CssStructure = { references: [], imports: [], fontFaces: [], mediaQueries: [] };
+    const openMediaQueries: CssMediaQuery[] = [];
+    let pos = 0;
+
+    // Source text without comments and with collapsed whitespace.
+    const textBetween = (start: number, end: number) => css.slice(start, end).replace(/\/\*[\s\S]*?\*\//g, '').replace(/\s+/g, ' ').trim();
+    const textOf = (run: Token[]) => run.length === 0 ? '' : textBetween(run[0].start, run[run.length - 1].end);
+
+    const isSpace = (token: Token | undefined) => token?.type === 'whitespace';
+
+    // Reads tokens up to one of `stops` outside parentheses and brackets. The stop is not consumed.
+    const readUntil = (stops: string[]): Token[] => {
+        const run: Token[] = [];
+        let depth = 0;
+        while (pos < tokens.length) {
+            const token = tokens[pos];
+            if (depth === 0 && stops.includes(token.type)) break;
+            if (token.type === '(' || token.type === '[' || token.type === 'function') depth++;
+            else if ((token.type === ')' || token.type === ']') && depth > 0) depth--;
+            run.push(token);
+            pos++;
+        }
+        return run;
+    };
+
+    // The tokens inside the parentheses of the function at `index`, and the index after them.
+    const functionArguments = (run: Token[], index: number): [Token[], number] => {
+        let depth = 1;
+        let end = index + 1;
+        for (; end < run.length; end++) {
+            if (run[end].type === '(' || run[end].type === 'function') depth++;
+            else if (run[end].type === ')' && --depth === 0) break;
+        }
+        return [run.slice(index + 1, end), end + 1];
+    };
+
+    const addReference = (token: Token, reference: Omit<CssUrlReference, 'url' | 'offset'>) => {
+        if (token.value) structure.references.push({ url: token.value, offset: token.start, ...reference });
+    };
+
+    // The URLs of a declaration value: url() tokens anywhere, and strings directly inside url(), src() or image-set().
+    const addValueUrls = (value: Token[], reference: Omit<CssUrlReference, 'url' | 'offset'>) => {
+        const functions: string[] = [];
+        value.forEach(token => {
+            if (token.type === 'function') functions.push(token.value.toLowerCase());
+            else if (token.type === '(') functions.push('');
+            else if (token.type === ')') functions.pop();
+            else if (token.type === 'url') addReference(token, reference);
+            else if (token.type === 'string' && URL_STRING_FUNCTIONS.has(functions[functions.length - 1])) addReference(token, reference);
+        });
+    };
+
+    // Splits a declaration into its property and value, or null when it has no colon.
+    const splitDeclaration = (run: Token[]): { property: string; value: Token[] } | null => {
+        const colon = run.findIndex(token => token.type === ':');
+        const name = run.slice(0, colon).filter(token => !isSpace(token));
+        if (colon === -1 || name.length !== 1 || name[0].type !== 'ident') return null;
+        const property = name[0].value.startsWith('--') ? name[0].value : name[0].value.toLowerCase();
+        return { property, value: run.slice(colon + 1) };
+    };
+
+    const parseImport = (prelude: Token[], atRules: string[]) => {
+        const run = prelude.filter(token => !isSpace(token));
+        let index = 0;
+        let urlToken: Token | undefined;
+        if (run[0]?.type === 'string' || run[0]?.type === 'url') {
+            urlToken = run[0];
+            index = 1;
+        } else if (run[0]?.type === 'function' && run[0].value.toLowerCase() === 'url') {
+            const [args, next] = functionArguments(run, 0);
+            urlToken = args.find(token => token.type === 'string');
+            index = next;
+        }
+        if (!urlToken?.value) return;
+
+        const entry: CssImport = { url: urlToken.value, offset: urlToken.start, atRules };
+        while (index < run.length) {
+            const token = run[index];
+            const name = token.value.toLowerCase();
+            if (token.type === 'ident' && name === 'layer') {
+                entry.layer = '';
+                index++;
+            } else if (token.type === 'function' && (name === 'layer' || name === 'supports')) {
+                const [args, next] = functionArguments(run, index);
+                const text = textOf(args);
+                if (name === 'layer') entry.layer = text;
+                else entry.supports = text;
+                index = next;
+            } else {
+                entry.media = textBetween(token.start, run[run.length - 1].end);
+                break;
+            }
+        }
+        structure.imports.push(entry);
+        addReference(urlToken, { kind: 'import', atRules });
+    };
+
+    const parseFontFace = (declarations: Token[][], offset: number, atRules: string[]) => {
+        const fontFace: CssFontFace = { offset, sources: [], atRules };
+        const fontAtRules = [...atRules, '@font-face'];
+        declarations.forEach(run => {
+            const declaration = splitDeclaration(run);
+            if (!declaration) return;
+            const { property, value } = declaration;
+            const parts = value.filter(token => !isSpace(token));
+            const text = parts.length === 1 && parts[0].type === 'string' ? parts[0].value : textOf(value).replace(/\s*!important$/i, '');
+            if (property === 'font-family') fontFace.family = text;
+            else if (property === 'font-weight') fontFace.weight = text;
+            else if (property === 'font-style') fontFace.style = text;
+            else if (property === 'font-display') fontFace.display = text;
+            else if (property === 'unicode-range') fontFace.unicodeRange = text;
+            if (property !== 'src') {
+                addValueUrls(value, { kind: 'fontFace', property, atRules: fontAtRules });
+                return;
+            }
+
+            // src is a comma-separated list of url(...) format(...) or local(...) entries.
+            let entry: Token[] = [];
+            const entries: Token[][] = [];
+            let depth = 0;
+            parts.forEach(token => {
+                if (token.type === ',' && depth === 0) {
+                    entries.push(entry);
+                    entry = [];
+                    return;
+                }
+                if (token.type === 'function' || token.type === '(') depth++;
+                else if (token.type === ')') depth--;
+                entry.push(token);
+            });
+            entries.push(entry);
+
+            entries.forEach(sourceTokens => {
+                const source: CssFontSource = {};
+                let urlToken: Token | undefined;
+                for (let index = 0; index < sourceTokens.length; index++) {
+                    const token = sourceTokens[index];
+                    if (token.type === 'url') {
+                        urlToken = token;
+                    } else if (token.type === 'function') {
+                        const [args, next] = functionArguments(sourceTokens, index);
+                        const argument = args.find(arg => arg.type === 'string' || arg.type === 'ident');
+                        const name = token.value.toLowerCase();
+                        if (name === 'url' || name === 'src') urlToken = args.find(arg => arg.type === 'string');
+                        else if (name === 'local') source.local = argument?.value;
+                        else if (name === 'format') source.format = argument?.value;
+                        index = next - 1;
+                    }
+                }
+                if (urlToken?.value) {
+                    source.url = urlToken.value;
+                    addReference(urlToken, { kind: 'fontFace', property, format: source.format, atRules: fontAtRules });
+                }
+                if (source.url || source.local) fontFace.sources.push(source);
+            });
+        });
+        structure.fontFaces.push(fontFace);
+    };
+
+    // Reads rules and declarations until the closing brace of the current block, or the end of
+    // the stylesheet at the top level, where stray closing braces are skipped.
+    const parseBlock = (atRules: string[], topLevel = false) => {
+        while (pos < tokens.length) {
+            const token = tokens[pos];
+            if (token.type === 'whitespace' || token.type === ';') {
+                pos++;
+            } else if (token.type === '}') {
+                pos++;
+                if (!topLevel) return;
+            } else if (token.type === 'at-keyword') {
+                pos++;
+                const name = token.value.toLowerCase();
+                const prelude = readUntil([';', '{', '}']);
+                const terminator = tokens[pos];
+                if (terminator?.type !== '{') {
+                    if (terminator?.type === ';') pos++;
+                    if (name === 'import') parseImport(prelude, atRules);
+                    continue;
+                }
+                pos++;
+                const condition = textOf(prelude);
+                if (name === 'font-face') {
+                    parseFontFace(readDeclarations(), token.start, atRules);
+                } else if (name === 'media') {
+                    const mediaQuery: CssMediaQuery = { condition, offset: token.start, ruleCount: 0, atRules };
+                    structure.mediaQueries.push(mediaQuery);
+                    openMediaQueries.push(mediaQuery);
+                    parseBlock([...atRules, `@media ${condition}`]);
+                    openMediaQueries.pop();
+                } else {
+                    parseBlock([...atRules, condition ? `@${name} ${condition}` : `@${name}`]);
+                }
+            } else {
+                const run = readUntil([';', '{', '}']);
+                if (tokens[pos]?.type === '{') {
+                    // A style rule; nested rules (CSS nesting, keyframe selectors) are read the same way.
+                    pos++;
+                    openMediaQueries.forEach(mediaQuery => mediaQuery.ruleCount++);
+                    parseBlock(atRules);
+                } else {
+                    const declaration = splitDeclaration(run);
+                    if (declaration) addValueUrls(declaration.value, { kind: 'declaration', property: declaration.property, atRules });
+                }
+            }
+        }
+    };
+
+    // The declarations of an @font-face block, up to its closing brace.
+    const readDeclarations = (): Token[][] => {
+        const declarations: Token[][] = [];
+        while (pos < tokens.length && tokens[pos].type !== '}') {
+            const run = readUntil([';', '{', '}']);
+            if (tokens[pos]?.type === '{') {
+                // Not valid in @font-face; skip the nested block.
+                pos++;
+                parseBlock([]);
+                continue;
+            }
+            declarations.push(run);
+            if (tokens[pos]?.type === ';') pos++;
+        }
+        pos++;
+        return declarations;
+    };
+
+    if (mode === 'declarations') {
+        while (pos < tokens.length) {
+            const declaration = splitDeclaration(readUntil([';']));
+            if (declaration) addValueUrls(declaration.value, { kind: 'declaration', property: declaration.property, atRules: [] });
+            pos++;
+        }
+    } else {
+        parseBlock([], true);
+    }
+    return structure;
+}
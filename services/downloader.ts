@@ -1,69 +1,33 @@
-import { NetworkLogEntry } from '../types';
-import { findAllResources, findInternalLinksInHtml } from './assetDiscovery';
+import { NetworkLogEntry, ScanOptions, CrawlOptions, InternalLink, FetchTransport, DiscoveryMethod, DiscoveryProvenance } from '../types';
+import { DiscoveredResource, findAllResources, findInternalLinksInHtml } from './assetDiscovery';
 import { findCdnUrl } from './aiService';
+import { createTransport, DEFAULT_TRANSPORT_SETTINGS } from './transport';
+import { createPolitenessPolicy, PolitenessPolicy } from './politeness';
+import { discoverSitemapEntries, SitemapEntry } from './sitemap';
+import { createScopeFilter, ScopeFilter } from './scope';
+import { createPathMapper, loadPathMapper } from './pathMapper';
+import { AssetRevalidator, createRevalidator } from './revalidation';
+import { CheckpointFile, clearScanCheckpoint, createCheckpointWriter, loadCheckpointFiles, PageCrawlerState, ScanCheckpoint } from './scanCheckpoint';
 
 declare const JSZip: any;
 
 // A simple in-memory cache to avoid re-downloading the same URL within a session
 const fetchCache = new Map<string, Promise<Response>>();
 
-// List of CORS proxies to try for difficult assets
-const PROXIES = [
-    'https://api.allorigins.win/raw?url=',      // Primary
-    'https://corsproxy.io/?',                   // Secondary
-    'https://api.codetabs.com/v1/proxy?quest=', // Added
-    'https://corsproxy.org/?',                  // Added
-    'https://thingproxy.freeboard.io/fetch/',   // Tertiary
-    'https://cors.eu.org/',
-    'https://cors-anywhere.herokuapp.com/',
-];
-
-/**
- * Wraps the fetch call with a proxy and handles rotating through the proxy list on failure.
- * @param url The URL to fetch.
- * @param options The fetch options including custom headers.
- * @param proxyIndex The current index in the PROXIES array.
- * @returns A promise that resolves with the Response object.
- */
-async function fetchWithProxy(url: string, options: RequestInit, proxyIndex = 0): Promise<Response> {
-    if (proxyIndex >= PROXIES.length) {
-        throw new Error('All proxies failed.');
-    }
-    const proxy = PROXIES[proxyIndex];
-    // A simple way to handle different proxy URL structures
-    const proxiedUrl = proxy.endsWith('=') ? proxy + encodeURIComponent(url) :
-                       proxy.endsWith('?') ? proxy + encodeURIComponent(url) :
-                       proxy + url;
-    
-    try {
-        // Note: some proxies may not forward all headers. allorigins.win is known to strip some.
-        const response = await fetch(proxiedUrl, options);
-        if (!response.ok) {
-            // If this proxy gives a specific error (like 404, 500), try the next one.
-            console.warn(`Proxy ${proxy} returned status ${response.status}. Trying next...`);
-            return fetchWithProxy(url, options, proxyIndex + 1);
-        }
-        return response;
-    } catch (err) {
-        console.warn(`Proxy ${proxy} failed to connect for ${url}. Trying next...`);
-        return fetchWithProxy(url, options, proxyIndex + 1);
-    }
-}
-
-
 /**
  * Fetches a URL, using a cache to avoid redundant requests.
- * All requests are sent via a proxy to bypass browser CORS restrictions.
+ * All requests are sent through the given transport (CORS proxies, direct fetch or a relay).
  * @param url The URL to fetch.
  * @param options The fetch options including custom headers.
+ * @param transport The transport used to reach the URL.
  * @param forceFresh If true, bypasses the cache and re-fetches the resource.
  */
-async function cachedFetch(url: string, options: RequestInit, forceFresh = false): Promise<Response> {
+async function cachedFetch(url: string, options: RequestInit, transport: FetchTransport, forceFresh = false): Promise<Response> {
     if (fetchCache.has(url) && !forceFresh) {
         return (await fetchCache.get(url)!).clone();
     }
 
-    const requestPromise = fetchWithProxy(url, options);
+    const requestPromise = transport.fetch(url, options);
     
     fetchCache.set(url, requestPromise);
     
@@ -76,59 +40,247 @@ async function cachedFetch(url: string, options: RequestInit, forceFresh = false
     }
 }
 
+/**
+ * Reads a response body, giving up as soon as it is known to be larger than `maxBytes`: from
+ * the Content-Length header when the server sends one, otherwise once the bytes read pass it.
+ * The rest of an oversized body is not downloaded.
+ * @returns The body, or no blob if it is too large, with the size known so far.
+ */
+async function readLimitedBody(response: Response, maxBytes: number): Promise<{ blob: Blob | null; size: number }> {
+    if (maxBytes === Infinity || !response.body) {
+        const blob = await response.blob();
+        return { blob, size: blob.size };
+    }
+    const declaredSize = Number(response.headers.get('content-length'));
+    if (declaredSize > maxBytes) {
+        response.body.cancel();
+        return { blob: null, size: declaredSize };
+    }
+    const reader = response.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+        size += chunk.value.byteLength;
+        if (size > maxBytes) {
+            reader.cancel();
+            return { blob: null, size };
+        }
+        chunks.push(chunk.value);
+    }
+    return { blob: new Blob(chunks, { type: response.headers.get('content-type') || '' }), size };
+}
+
+/**
+ * Copies response headers into a plain object so they can be stored in the network log
+ * and persisted to IndexedDB. Header names are lower-cased by the Headers API.
+ */
+function headersToRecord(headers: Headers): Record<string, string> {
+    const record: Record<string, string> = {};
+    headers.forEach((value, key) => { record[key] = value; });
+    return record;
+}
+
+/**
+ * Records a URL that was deliberately not downloaded, so it still shows up in the Network tab.
+ * @param reason The status text shown for the entry, e.g. "Skipped (robots.txt)".
+ */
+function logSkippedUrl(networkLog: NetworkLogEntry[], url: string, initiator: string, reason: string) {
+    networkLog.push({ url, initiator, status: 0, statusText: reason, contentType: 'unknown', size: 0, isError: false });
+}
+
+/**
+ * Checks a discovered URL against the scan's scope rules and robots.txt. URLs that won't be
+ * downloaded are logged with the reason; robots.txt refusals are also reported as warnings.
+ * @returns Whether the URL should be queued.
+ */
+function admitUrl(
+    url: string,
+    initiator: string,
+    scope: ScopeFilter,
+    politeness: PolitenessPolicy,
+    networkLog: NetworkLogEntry[],
+    onWarning: (warning: { url: string; message: string }) => void
+): boolean {
+    const decision = scope.decide(url);
+    if (decision !== 'download') {
+        logSkippedUrl(networkLog, url, initiator, decision === 'list' ? 'Listed (third-party)' : 'Skipped (out of scope)');
+        return false;
+    }
+    if (!politeness.isAllowed(url)) {
+        logSkippedUrl(networkLog, url, initiator, 'Skipped (robots.txt)');
+        onWarning({ url, message: 'Disallowed by robots.txt.' });
+        return false;
+    }
+    return true;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Reads the site's sitemaps (from robots.txt and /sitemap.xml) through the transport,
+ * pacing the requests like any other download.
+ */
+async function fetchSitemapEntries(rootUrl: string, politeness: PolitenessPolicy, transport: FetchTransport, fetchOptions: RequestInit): Promise<SitemapEntry[]> {
+    return discoverSitemapEntries(rootUrl, politeness.robots?.sitemaps ?? [], async sitemapUrl => {
+        const wait = politeness.waitTime(sitemapUrl);
+        if (wait > 0) await sleep(wait);
+        politeness.start(sitemapUrl);
+        try {
+            return await transport.fetch(sitemapUrl, fetchOptions);
+        } finally {
+            politeness.finish(sitemapUrl);
+        }
+    });
+}
+
+// Pages queued by the crawler come from <a href> links; where the link sits isn't tracked.
+const PAGE_LINK_PROVENANCE: DiscoveryProvenance = { mechanism: 'attribute', attribute: 'href' };
+
+/**
+ * Finds the scanned URL of an existing scan, e.g. so follow-up downloads keep its path layout.
+ * @param networkLog The scan's network log.
+ * @param fallback Used when the log has no initial request, e.g. for imported captures.
+ * Without one, the first logged URL is used.
+ */
+export function findRootUrl(networkLog: NetworkLogEntry[], fallback: string): string;
+export function findRootUrl(networkLog: NetworkLogEntry[]): string | undefined;
+export function findRootUrl(networkLog: NetworkLogEntry[], fallback?: string): string | undefined {
+    return networkLog.find(entry => entry.initiator === 'Initial Request')?.url || fallback || networkLog[0]?.url;
+}
+
+/**
+ * Keeps track of the pages found by following internal links, shared by both engines.
+ * Pages are handed out breadth-first: a page is only queued if it is within `maxDepth`
+ * links of the root and the `maxPages` budget has not been used up.
+ * @param rootUrl The URL of the root document (depth 0).
+ * @param crawl The crawl options. When disabled, links are only recorded from the root page.
+ * @param state State saved with a checkpoint, when resuming a scan.
+ */
+function createPageCrawler(rootUrl: string, crawl?: CrawlOptions, state?: PageCrawlerState) {
+    const links = new Map<string, InternalLink>(state?.links.map(link => [link.url, link]));
+    const pageDepths = new Map<string, number>(state?.pageDepths || [[rootUrl, 0]]);
+
+    return {
+        /** Returns the crawl depth of a queued page, or undefined for non-page assets. */
+        depthOf: (url: string) => pageDepths.get(url),
+
+        /**
+         * Records the internal links of a downloaded page and returns the pages to fetch next.
+         * @param pageUrl The URL of the page the HTML came from.
+         * @param html The HTML content of the page.
+         * @param isProcessed Tells whether a URL has already been queued by the engine.
+         */
+        discover(pageUrl: string, html: string, isProcessed: (url: string) => boolean): { url: string; depth: number }[] {
+            const depth = pageDepths.get(pageUrl) ?? 0;
+            const nextPages: { url: string; depth: number }[] = [];
+
+            findInternalLinksInHtml(html, pageUrl).forEach(link => {
+                const known = links.get(link);
+                if ((!known || known.source === 'sitemap') && link !== rootUrl) {
+                    // An anchor beats a sitemap listing as the origin of a link, but keeps its metadata.
+                    links.set(link, { url: link, foundOn: pageUrl, depth: depth + 1, source: 'anchor', lastmod: known?.lastmod, priority: known?.priority });
+                }
+                if (!crawl?.enabled || depth >= crawl.maxDepth || isProcessed(link)) return;
+                if (pageDepths.size >= crawl.maxPages) return;
+                pageDepths.set(link, depth + 1);
+                nextPages.push({ url: link, depth: depth + 1 });
+            });
+
+            return nextPages;
+        },
+
+        /** Lists the pages found in the site's sitemaps. They are not downloaded automatically. */
+        addSitemapEntries(entries: SitemapEntry[]) {
+            entries.forEach(entry => {
+                if (links.has(entry.url) || entry.url === rootUrl) return;
+                links.set(entry.url, { url: entry.url, foundOn: entry.sitemap, depth: 1, source: 'sitemap', lastmod: entry.lastmod, priority: entry.priority });
+            });
+        },
+
+        getLinks: () => Array.from(links.values()),
+
+        getState: (): PageCrawlerState => ({ links: Array.from(links.values()), pageDepths: Array.from(pageDepths.entries()) }),
+    };
+}
+
 // --- V2 Worker-based Downloader ---
 
 // The code for our web worker is defined here as a string.
 // This allows us to create it on-the-fly without needing a separate file.
+// The transport's candidate URLs are computed on the main thread and posted with each job,
+// so the worker only has to walk the list (mirroring fetchFromCandidates in transport.ts).
+// AbortSignals can't be posted to a worker, so cancellation is an { type: 'abort' } message.
 const workerCode = `
-    const PROXIES = [
-        'https://api.allorigins.win/raw?url=',
-        'https://corsproxy.io/?',
-        'https://api.codetabs.com/v1/proxy?quest=',
-        'https://corsproxy.org/?',
-        'https://thingproxy.freeboard.io/fetch/',
-        'https://cors.eu.org/',
-        'https://cors-anywhere.herokuapp.com/',
-    ];
-
-    async function fetchWithProxy(url, options, proxyIndex = 0) {
-        if (proxyIndex >= PROXIES.length) {
-            throw new Error('All proxies failed for ' + url);
+    const inFlight = new Set();
+
+    // Mirrors readLimitedBody: an oversized body is dropped without downloading the rest.
+    async function readLimitedBody(response, maxBytes) {
+        if (maxBytes === Infinity || !response.body) {
+            const blob = await response.blob();
+            return { blob, size: blob.size };
+        }
+        const declaredSize = Number(response.headers.get('content-length'));
+        if (declaredSize > maxBytes) {
+            response.body.cancel();
+            return { blob: null, size: declaredSize };
+        }
+        const reader = response.body.getReader();
+        const chunks = [];
+        let size = 0;
+        for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+            size += chunk.value.byteLength;
+            if (size > maxBytes) {
+                reader.cancel();
+                return { blob: null, size };
+            }
+            chunks.push(chunk.value);
         }
-        const proxy = PROXIES[proxyIndex];
-        const proxiedUrl = proxy.endsWith('=') ? proxy + encodeURIComponent(url) :
-                           proxy.endsWith('?') ? proxy + encodeURIComponent(url) :
-                           proxy + url;
+        return { blob: new Blob(chunks, { type: response.headers.get('content-type') || '' }), size };
+    }
 
-        try {
-            const response = await fetch(proxiedUrl, options);
-            // For server errors (5xx), it's a proxy issue, so try the next one.
-            if (response.status >= 500 && response.status < 600) {
-                console.warn(\`Proxy \${proxy} returned status \${response.status}. Trying next...\`);
-                return fetchWithProxy(url, options, proxyIndex + 1);
+    async function fetchFromCandidates(url, candidates, options) {
+        for (const candidate of candidates) {
+            try {
+                const response = await fetch(candidate, options);
+                // For server errors (5xx), it's a proxy issue, so try the next one.
+                if (response.status >= 500 && response.status < 600) {
+                    console.warn(\`Transport \${candidate} returned status \${response.status}. Trying next...\`);
+                    continue;
+                }
+                // For client errors (4xx) or success, the proxy worked. Return the response.
+                return response;
+            } catch (err) {
+                if (options.signal && options.signal.aborted) throw err;
+                console.warn(\`Transport \${candidate} failed to connect for \${url}. Trying next...\`);
             }
-            // For client errors (4xx) or success, the proxy worked. Return the response.
-            return response;
-        } catch (err) {
-            console.warn(\`Proxy \${proxy} failed to connect for \${url}. Trying next...\`);
-            return fetchWithProxy(url, options, proxyIndex + 1);
         }
+        throw new Error('All transport candidates failed for ' + url);
     }
 
     self.onmessage = async (event) => {
-        const { url, options } = event.data;
+        if (event.data.type === 'abort') {
+            inFlight.forEach(controller => controller.abort());
+            return;
+        }
+        const { url, candidates, options, maxBytes } = event.data;
+        const controller = new AbortController();
+        inFlight.add(controller);
         try {
-            const response = await fetchWithProxy(url, options);
-            const blob = await response.blob();
+            const response = await fetchFromCandidates(url, candidates, { ...options, signal: controller.signal });
+            const { blob, size } = await readLimitedBody(response, maxBytes);
             const contentType = response.headers.get('content-type') || 'application/octet-stream';
+            const headers = {};
+            response.headers.forEach((value, key) => { headers[key] = value; });
 
             self.postMessage({
                 status: 'success',
                 url: url,
                 blob: blob,
+                size: size,
                 contentType: contentType,
                 httpStatus: response.status,
                 statusText: response.statusText,
+                headers: headers,
             });
         } catch (error) {
             self.postMessage({
@@ -136,89 +288,233 @@ const workerCode = `
                 url: url,
                 error: error instanceof Error ? error.message : String(error)
             });
+        } finally {
+            inFlight.delete(controller);
         }
     };
 `;
 
+// How often a running V2 scan saves its progress for resuming after a crash or reload.
+const CHECKPOINT_INTERVAL_MS = 15000;
+
 const runWorkerDownload = (
     url: string,
-    options: { headers: Record<string, string>, userAgent: string },
+    options: ScanOptions,
     onProgress: (progress: { message: string; downloaded: number; total: number }) => void,
-    onWarning: (warning: { url: string; message: string }) => void
-): Promise<{ zip: any; networkLog: NetworkLogEntry[]; failedUrls: string[]; internalLinks: string[] }> => {
+    onWarning: (warning: { url: string; message: string }) => void,
+    resume?: { checkpoint: ScanCheckpoint; files: CheckpointFile[] }
+): Promise<{ zip: any; networkLog: NetworkLogEntry[]; failedUrls: string[]; internalLinks: InternalLink[]; cancelled?: boolean }> => {
     return new Promise(async (resolve, reject) => {
         const CONCURRENCY = navigator.hardwareConcurrency || 4;
         const zip = new JSZip();
-        const networkLog: NetworkLogEntry[] = [];
-        const failedUrls: string[] = [];
-        const internalLinks = new Set<string>();
+        const saved = resume?.checkpoint;
+        const networkLog: NetworkLogEntry[] = saved ? saved.networkLog : [];
+        const failedUrls: string[] = saved ? saved.failedUrls : [];
+        const crawler = createPageCrawler(url, options.crawl, saved?.crawler);
+        const paths = createPathMapper(url, resume?.files.map(({ url, path, contentType }) => ({ url, path, contentType })));
+        const scope = createScopeFilter(url, options.scope);
+        resume?.files.forEach(file => zip.file(file.path, file.blob));
 
         const downloadQueue: { url: string, initiator: string }[] = [];
-        const processedUrls = new Set<string>();
-        let downloadedCount = 0;
+        const processedUrls = new Set<string>(saved?.processedUrls);
+        // Jobs handed to a worker, by URL. They go back in the queue when a checkpoint is resumed.
+        const inFlightJobs = new Map<string, string>();
+        let downloadedCount = saved?.downloadedCount ?? 0;
         let activeWorkers = 0;
         const originalUrl = url;
+        const checkpoint = createCheckpointWriter(url, options, saved);
+        let checkpointTimer: ReturnType<typeof setInterval> | null = null;
 
         const workers: Worker[] = [];
         const idleWorkers: Worker[] = [];
+        const transport = options.transport || createTransport(DEFAULT_TRANSPORT_SETTINGS);
 
         const fetchOptions: RequestInit = { headers: { ...options.headers } };
         if (options.userAgent) {
             (fetchOptions.headers as Record<string, string>)['User-Agent'] = options.userAgent;
         }
+        // Worker jobs get the plain options; requests made on the main thread also carry the signal.
+        const control = options.control;
+        const signalOptions: RequestInit = { ...fetchOptions, signal: control?.signal };
+
+        let politeness: PolitenessPolicy;
+        let revalidator: AssetRevalidator;
+        let wakeTimer: ReturnType<typeof setTimeout> | null = null;
+        let finished = false;
+
+        const handleCancel = () => {
+            workers.forEach(w => w.postMessage({ type: 'abort' }));
+            downloadQueue.length = 0;
+            // Whatever was queued or in flight is reported as cancelled rather than failed.
+            networkLog.forEach(entry => {
+                if (entry.statusText === 'Queued') entry.statusText = 'Cancelled';
+            });
+            onProgress({ message: 'Cancelled. Keeping the files downloaded so far...', downloaded: downloadedCount, total: processedUrls.size });
+            finish(true);
+        };
+        control?.signal.addEventListener('abort', handleCancel);
+        const unsubscribeResume = control?.onResume(() => wakeIdleWorkers());
+
+        const saveCheckpoint = () => {
+            checkpoint.save({
+                queue: [...Array.from(inFlightJobs, ([url, initiator]) => ({ url, initiator })), ...downloadQueue],
+                processedUrls: Array.from(processedUrls),
+                networkLog: networkLog.map(entry => ({ ...entry })),
+                failedUrls: [...failedUrls],
+                downloadedCount,
+                crawler: crawler.getState(),
+            }).catch(e => console.warn('Could not save the scan checkpoint.', e));
+        };
 
         const cleanup = () => {
+            if (wakeTimer) clearTimeout(wakeTimer);
+            if (checkpointTimer) clearInterval(checkpointTimer);
+            control?.signal.removeEventListener('abort', handleCancel);
+            unsubscribeResume?.();
             workers.forEach(w => w.terminate());
         };
 
+        const finish = (cancelled = false) => {
+            if (finished) return;
+            finished = true;
+            cleanup();
+            // A cancelled scan keeps its checkpoint: the page may be going away. The UI
+            // discards it when the user cancels.
+            if (!cancelled) {
+                clearScanCheckpoint().catch(e => console.warn('Could not clear the scan checkpoint.', e));
+            }
+            paths.writeManifest(zip);
+            resolve({ zip, networkLog, failedUrls, internalLinks: crawler.getLinks(), cancelled });
+        };
+
         const checkCompletion = () => {
             if (downloadQueue.length === 0 && activeWorkers === 0) {
                 onProgress({ message: 'Finalizing ZIP file...', downloaded: downloadedCount, total: processedUrls.size });
-                cleanup();
-                resolve({ zip, networkLog, failedUrls, internalLinks: Array.from(internalLinks) });
+                finish();
+            }
+        };
+
+        const enqueue = ({ url: res, via, provenance }: DiscoveredResource, initiator: string) => {
+            processedUrls.add(res);
+            if (!admitUrl(res, initiator, scope, politeness, networkLog, onWarning)) return;
+            downloadQueue.push({ url: res, initiator });
+            networkLog.push({ url: res, initiator, status: 0, statusText: 'Queued', contentType: 'unknown', size: 0, isError: false, discoveredVia: via, provenance });
+        };
+
+        // The root page is always kept; other assets are dropped once they pass the size limit.
+        const sizeLimitFor = (jobUrl: string) => jobUrl !== originalUrl ? scope.maxAssetBytes : Infinity;
+
+        // Runs a job on the main thread for transports that can't be described to a worker
+        // (e.g. a stand-in transport), producing the same message shape as the worker.
+        const runJobInThread = async (worker: Worker, jobUrl: string) => {
+            try {
+                const response = await transport.fetch(jobUrl, revalidator.withValidators(jobUrl, signalOptions));
+                const { blob, size } = await readLimitedBody(response, sizeLimitFor(jobUrl));
+                handleWorkerResult(worker, {
+                    status: 'success',
+                    url: jobUrl,
+                    blob,
+                    size,
+                    contentType: response.headers.get('content-type') || 'application/octet-stream',
+                    httpStatus: response.status,
+                    statusText: response.statusText,
+                    headers: headersToRecord(response.headers),
+                });
+            } catch (error) {
+                handleWorkerResult(worker, { status: 'error', url: jobUrl, error: error instanceof Error ? error.message : String(error) });
+            }
+        };
+
+        // Hands queued jobs to idle workers once their origin's rate limit allows it.
+        const wakeIdleWorkers = () => {
+            const idleCount = idleWorkers.length;
+            for (let i = 0; i < idleCount; i++) {
+                assignWork(idleWorkers.shift()!);
+            }
+        };
+
+        // When every queued job is rate limited, sleep until the earliest origin frees up.
+        // Jobs blocked only by the per-origin concurrency cap are woken when a request finishes.
+        const scheduleWake = () => {
+            if (wakeTimer) return;
+            // Reduced rather than spread into Math.min, which overflows the call stack on large queues.
+            const wait = downloadQueue.reduce((earliest, job) => Math.min(earliest, politeness.waitTime(job.url)), Infinity);
+            if (wait > 0) {
+                wakeTimer = setTimeout(() => {
+                    wakeTimer = null;
+                    wakeIdleWorkers();
+                }, wait);
             }
         };
 
         const assignWork = (worker: Worker) => {
-            if (downloadQueue.length > 0) {
-                const { url, initiator } = downloadQueue.shift()!;
+            if (finished) return;
+            // While paused, workers park as idle and are woken again on resume.
+            if (control?.isPaused() && downloadQueue.length > 0) {
+                idleWorkers.push(worker);
+                return;
+            }
+            const jobIndex = downloadQueue.findIndex(job => politeness.canStart(job.url));
+            if (jobIndex > -1) {
+                const { url, initiator } = downloadQueue.splice(jobIndex, 1)[0];
                 activeWorkers++;
-                worker.postMessage({ url, options: fetchOptions, initiator });
+                inFlightJobs.set(url, initiator);
+                politeness.start(url);
+                if (transport.getCandidateUrls) {
+                    worker.postMessage({ url, candidates: transport.getCandidateUrls(url), options: revalidator.withValidators(url, fetchOptions), initiator, maxBytes: sizeLimitFor(url) });
+                } else {
+                    runJobInThread(worker, url);
+                }
             } else {
                 idleWorkers.push(worker);
-                checkCompletion();
+                if (downloadQueue.length > 0) {
+                    scheduleWake();
+                } else {
+                    checkCompletion();
+                }
             }
         };
 
-        const handleWorkerMessage = async (event: MessageEvent) => {
-            const worker = event.target as Worker;
-            const data = event.data;
+        const handleWorkerMessage = (event: MessageEvent) => handleWorkerResult(event.target as Worker, event.data);
+
+        const handleWorkerResult = async (worker: Worker, data: any) => {
+            if (finished) return;
             const logEntry = networkLog.find(entry => entry.url === data.url);
             const initiator = logEntry ? logEntry.initiator : 'Unknown';
 
             activeWorkers--;
+            inFlightJobs.delete(data.url);
+            politeness.finish(data.url);
 
             if (data.status === 'success') {
-                const { url, blob, contentType, httpStatus, statusText } = data;
+                const { url, httpStatus } = data;
+                // Without a blob, the body passed the size limit and wasn't read to the end.
+                const { blob, contentType, statusText, headers, change } = await revalidator.settle(url, httpStatus, data.statusText, data.blob ?? new Blob(), data.contentType, data.headers);
                 
                 // Update network log entry
                 if (logEntry) {
-                   Object.assign(logEntry, { status: httpStatus, statusText, contentType, size: blob.size, isError: httpStatus >= 400 });
+                   Object.assign(logEntry, { status: httpStatus, statusText, contentType, size: data.blob ? blob.size : data.size, isError: httpStatus >= 400, headers, change });
                 }
 
-                if (httpStatus < 400) {
-                    const relativePath = new URL(url).pathname.substring(1) || 'index.html';
-                    zip.file(relativePath, blob);
+                if (httpStatus < 400 && url !== originalUrl && (!data.blob || scope.isTooLarge(blob.size))) {
+                    if (logEntry) logEntry.statusText = 'Skipped (too large)';
+                } else if (httpStatus < 400) {
+                    const path = paths.pathFor(url, contentType);
+                    zip.file(path, blob);
+                    checkpoint.addFile({ url, path, contentType, blob });
 
                     if (contentType.includes('text') || contentType.includes('javascript') || contentType.includes('json')) {
                         try {
                             const textContent = await blob.text();
-                            const newResources = await findAllResources(contentType, textContent, url);
+                            const newResources = (await findAllResources(contentType, textContent, url)).assets;
+                            if (contentType.includes('html') && crawler.depthOf(url) !== undefined) {
+                                // Queue the page's assets before the linked pages to keep the crawl breadth-first.
+                                const nextPages = crawler.discover(url, textContent, u => processedUrls.has(u)).map(page => ({ url: page.url, provenance: PAGE_LINK_PROVENANCE }));
+                                newResources.push(...nextPages);
+                            }
                             newResources.forEach(res => {
-                                if (!processedUrls.has(res)) {
-                                    processedUrls.add(res);
-                                    downloadQueue.push({ url: res, initiator: url });
-                                    networkLog.push({ url: res, initiator: url, status: 0, statusText: 'Queued', contentType: 'unknown', size: 0, isError: false });
+                                if (!processedUrls.has(res.url)) {
+                                    enqueue(res, url);
                                     if(idleWorkers.length > 0) {
                                       const idleWorker = idleWorkers.shift()!;
                                       assignWork(idleWorker);
@@ -246,6 +542,8 @@ const runWorkerDownload = (
             }
 
             assignWork(worker);
+            // This request may have been what held back jobs for its origin.
+            wakeIdleWorkers();
         };
         
         try {
@@ -260,38 +558,66 @@ const runWorkerDownload = (
             }
             URL.revokeObjectURL(workerUrl);
 
-            onProgress({ message: `Fetching main page: ${url}`, downloaded: 0, total: 1 });
-            processedUrls.add(url);
-            const initialResponse = await cachedFetch(url, fetchOptions, true);
-            const contentType = initialResponse.headers.get('content-type') || 'text/html';
-            const initialBlob = await initialResponse.blob();
-            
-            networkLog.push({ url, status: initialResponse.status, statusText: initialResponse.statusText, contentType, initiator: 'Initial Request', size: initialBlob.size, isError: !initialResponse.ok });
-            
-            if (!initialResponse.ok) {
-                throw new Error(`Failed to fetch main page: ${initialResponse.statusText}`);
+            onProgress({ message: 'Checking robots.txt...', downloaded: 0, total: 1 });
+            politeness = await createPolitenessPolicy(url, options.politeness, options.userAgent, transport, signalOptions);
+            revalidator = await createRevalidator(url, options.baseline);
+            if (!politeness.isAllowed(url)) {
+                throw new Error('The page is disallowed by the site\'s robots.txt. Disable "Respect robots.txt" to scan it anyway.');
             }
 
-            const relativePath = new URL(url).pathname.substring(1) || 'index.html';
-            zip.file(relativePath, initialBlob);
-            downloadedCount++;
+            if (saved) {
+                // The root page, sitemaps and finished downloads come from the checkpoint.
+                downloadQueue.push(...saved.queue);
+                onProgress({ message: 'Resuming interrupted scan...', downloaded: downloadedCount, total: processedUrls.size });
+            } else {
+                onProgress({ message: 'Reading sitemaps...', downloaded: 0, total: 1 });
+                crawler.addSitemapEntries(await fetchSitemapEntries(url, politeness, transport, signalOptions));
+
+                await control?.whenResumed();
+                onProgress({ message: `Fetching main page: ${url}`, downloaded: 0, total: 1 });
+                processedUrls.add(url);
+                politeness.start(url);
+                let initialResponse: Response;
+                try {
+                    initialResponse = await cachedFetch(url, revalidator.withValidators(url, signalOptions), transport, true);
+                } finally {
+                    politeness.finish(url);
+                }
+                const initial = await revalidator.settle(url, initialResponse.status, initialResponse.statusText, await initialResponse.blob(), initialResponse.headers.get('content-type') || 'text/html', headersToRecord(initialResponse.headers));
+                const { contentType, blob: initialBlob } = initial;
+                const initialOk = initialResponse.ok || initialResponse.status === 304;
 
-            const textContent = await initialBlob.text();
-            const initialResources = await findAllResources(contentType, textContent, url);
-            initialResources.forEach(res => {
-                if (!processedUrls.has(res)) {
-                    processedUrls.add(res);
-                    downloadQueue.push({ url: res, initiator: url });
-                     networkLog.push({ url: res, initiator: url, status: 0, statusText: 'Queued', contentType: 'unknown', size: 0, isError: false });
+                networkLog.push({ url, status: initialResponse.status, statusText: initial.statusText, contentType, initiator: 'Initial Request', size: initialBlob.size, isError: !initialOk, headers: initial.headers, change: initial.change });
+
+                if (!initialOk) {
+                    throw new Error(`Failed to fetch main page: ${initialResponse.statusText}`);
                 }
-            });
-            const pageLinks = findInternalLinksInHtml(textContent, url);
-            pageLinks.forEach(link => internalLinks.add(link));
 
-            onProgress({ message: 'Starting asset download...', downloaded: downloadedCount, total: processedUrls.size });
+                const rootPath = paths.pathFor(url, contentType);
+                zip.file(rootPath, initialBlob);
+                checkpoint.addFile({ url, path: rootPath, contentType, blob: initialBlob });
+                downloadedCount++;
+
+                const textContent = await initialBlob.text();
+                const initialResources = (await findAllResources(contentType, textContent, url)).assets;
+                const firstPages = crawler.discover(url, textContent, u => processedUrls.has(u)).map(page => ({ url: page.url, provenance: PAGE_LINK_PROVENANCE }));
+                [...initialResources, ...firstPages].forEach(res => {
+                    if (!processedUrls.has(res.url)) {
+                        enqueue(res, url);
+                    }
+                });
+
+                onProgress({ message: 'Starting asset download...', downloaded: downloadedCount, total: processedUrls.size });
+            }
+
+            checkpointTimer = setInterval(saveCheckpoint, CHECKPOINT_INTERVAL_MS);
             workers.forEach(assignWork);
 
         } catch (error) {
+            if (control?.signal.aborted) {
+                finish(true);
+                return;
+            }
             cleanup();
             reject(error);
         }
@@ -301,13 +627,15 @@ const runWorkerDownload = (
 
 export const fetchWebsiteSource = async (
     url: string,
-    options: { headers: Record<string, string>, userAgent: string },
+    options: ScanOptions,
     onProgress: (progress: { message: string; downloaded: number; total: number }) => void,
     onWarning: (warning: { url: string; message: string }) => void,
     engine: 'v1' | 'v2' = 'v1'
-): Promise<{ zip: any; networkLog: NetworkLogEntry[]; failedUrls: string[]; internalLinks: string[] }> => {
+): Promise<{ zip: any; networkLog: NetworkLogEntry[]; failedUrls: string[]; internalLinks: InternalLink[]; cancelled?: boolean }> => {
     
     fetchCache.clear();
+    // Normalize so the root matches the hrefs found by link discovery (e.g. a trailing slash).
+    url = new URL(url).href;
 
     if (engine === 'v2') {
         return runWorkerDownload(url, options, onProgress, onWarning);
@@ -317,66 +645,104 @@ export const fetchWebsiteSource = async (
     const zip = new JSZip();
     const networkLog: NetworkLogEntry[] = [];
     const failedUrls: string[] = [];
-    const internalLinks = new Set<string>();
+    const crawler = createPageCrawler(url, options.crawl);
+    const paths = createPathMapper(url);
+    const scope = createScopeFilter(url, options.scope);
     
-    const downloadQueue: { url: string, initiator: string }[] = [{ url, initiator: 'Initial Request' }];
+    const transport = options.transport || createTransport(DEFAULT_TRANSPORT_SETTINGS);
+    const downloadQueue: { url: string, initiator: string, discoveredVia?: DiscoveryMethod, provenance?: DiscoveryProvenance }[] = [{ url, initiator: 'Initial Request' }];
     const processedUrls = new Set<string>([url]);
 
     let downloadedCount = 0;
     
+    const control = options.control;
     const fetchOptions: RequestInit = {
         headers: { ...options.headers },
+        signal: control?.signal,
     };
     if (options.userAgent) {
         (fetchOptions.headers as Record<string,string>)['User-Agent'] = options.userAgent;
     }
 
+    onProgress({ message: 'Checking robots.txt...', downloaded: 0, total: 1 });
+    const politeness = await createPolitenessPolicy(url, options.politeness, options.userAgent, transport, fetchOptions);
+    if (!politeness.isAllowed(url)) {
+        throw new Error('The page is disallowed by the site\'s robots.txt. Disable "Respect robots.txt" to scan it anyway.');
+    }
+
+    onProgress({ message: 'Reading sitemaps...', downloaded: 0, total: 1 });
+    crawler.addSitemapEntries(await fetchSitemapEntries(url, politeness, transport, fetchOptions));
+    const revalidator = await createRevalidator(url, options.baseline);
+
     while (downloadQueue.length > 0) {
-        const { url: currentUrl, initiator } = downloadQueue.shift()!;
+        await control?.whenResumed();
+        if (control?.signal.aborted) break;
+        const { url: currentUrl, initiator, discoveredVia, provenance } = downloadQueue.shift()!;
 
         onProgress({ message: `Downloading: ${currentUrl}`, downloaded: downloadedCount, total: processedUrls.size });
 
+        const wait = politeness.waitTime(currentUrl);
+        if (wait > 0) await sleep(wait);
+        politeness.start(currentUrl);
+
         try {
-            const response = await cachedFetch(currentUrl, fetchOptions);
-            const contentType = response.headers.get('content-type') || 'application/octet-stream';
-            
-            const content = await response.blob();
-            const size = content.size;
+            const response = await cachedFetch(currentUrl, revalidator.withValidators(currentUrl, fetchOptions), transport);
+            // The root page is always kept; oversized assets are logged but left out of the archive,
+            // and their body is only read until it passes the limit.
+            const body = await readLimitedBody(response, currentUrl !== url ? scope.maxAssetBytes : Infinity);
+            if (!body.blob) fetchCache.delete(currentUrl);
+            const { blob: content, contentType, statusText, headers, change } = await revalidator.settle(
+                currentUrl, response.status, response.statusText, body.blob ?? new Blob(), response.headers.get('content-type') || 'application/octet-stream', headersToRecord(response.headers)
+            );
+            const size = body.blob ? content.size : body.size;
+            // A 304 only comes back from a refresh, and its body was taken from the previous snapshot.
+            const ok = response.ok || response.status === 304;
+            const tooLarge = ok && currentUrl !== url && (!body.blob || scope.isTooLarge(size));
 
             networkLog.push({
                 url: currentUrl,
                 status: response.status,
-                statusText: response.statusText,
+                statusText: tooLarge ? 'Skipped (too large)' : statusText,
                 contentType: contentType,
                 initiator,
                 size,
-                isError: !response.ok
+                isError: !ok,
+                headers,
+                change,
+                discoveredVia,
+                provenance,
             });
 
-            if (!response.ok) {
+            if (!ok) {
                  throw new Error(`HTTP error! status: ${response.status}`);
             }
 
-            const relativePath = new URL(currentUrl).pathname.substring(1) || 'index.html';
-            zip.file(relativePath, content);
+            if (!tooLarge) {
+                zip.file(paths.pathFor(currentUrl, contentType), content);
 
-            if (contentType.includes('text') || contentType.includes('javascript') || contentType.includes('json')) {
-                const textContent = await content.text();
-                const newResources = await findAllResources(contentType, textContent, currentUrl);
-                newResources.forEach(res => {
-                    if (!processedUrls.has(res)) {
-                        processedUrls.add(res);
-                        downloadQueue.push({ url: res, initiator: currentUrl });
+                if (contentType.includes('text') || contentType.includes('javascript') || contentType.includes('json')) {
+                    const textContent = await content.text();
+                    const newResources = (await findAllResources(contentType, textContent, currentUrl)).assets;
+                    if (contentType.includes('html') && crawler.depthOf(currentUrl) !== undefined) {
+                        // Queue the page's assets before the linked pages to keep the crawl breadth-first.
+                        const nextPages = crawler.discover(currentUrl, textContent, u => processedUrls.has(u));
+                        newResources.push(...nextPages.map(page => ({ url: page.url, provenance: PAGE_LINK_PROVENANCE })));
                     }
-                });
-                
-                if (currentUrl === url && contentType.includes('html')) {
-                    const pageLinks = findInternalLinksInHtml(textContent, currentUrl);
-                    pageLinks.forEach(link => internalLinks.add(link));
+                    newResources.forEach(({ url: res, via, provenance }) => {
+                        if (!processedUrls.has(res)) {
+                            processedUrls.add(res);
+                            if (!admitUrl(res, currentUrl, scope, politeness, networkLog, onWarning)) return;
+                            downloadQueue.push({ url: res, initiator: currentUrl, discoveredVia: via, provenance });
+                        }
+                    });
                 }
             }
              downloadedCount++;
         } catch (error) {
+            if (control?.signal.aborted) {
+                networkLog.push({ url: currentUrl, status: 0, statusText: 'Cancelled', contentType: 'unknown', initiator, size: 0, isError: false, discoveredVia, provenance });
+                break;
+            }
             const errorMessage = error instanceof Error ? error.message : 'Unknown error';
             console.error(`Failed to download ${currentUrl}:`, error);
             failedUrls.push(currentUrl);
@@ -387,15 +753,150 @@ export const fetchWebsiteSource = async (
                 contentType: 'unknown',
                 initiator,
                 size: 0,
-                isError: true
+                isError: true,
+                discoveredVia,
+                provenance,
             });
             onWarning({ url: currentUrl, message: `Download failed. ${errorMessage}` });
+        } finally {
+            // Also on cancellation, so the origin's slot isn't left taken.
+            politeness.finish(currentUrl);
         }
         onProgress({ message: `Processing...`, downloaded: downloadedCount, total: processedUrls.size });
     }
     
     onProgress({ message: 'Finalizing ZIP file...', downloaded: downloadedCount, total: processedUrls.size });
-    return { zip, networkLog, failedUrls, internalLinks: Array.from(internalLinks) };
+    paths.writeManifest(zip);
+    return { zip, networkLog, failedUrls, internalLinks: crawler.getLinks(), cancelled: !!control?.signal.aborted };
+};
+
+/**
+ * Continues an interrupted V2 scan from its last checkpoint. Jobs that were queued or in
+ * flight when it was saved are downloaded again; finished files are restored from storage.
+ * @param checkpoint The checkpoint of the interrupted scan.
+ * @param options The session's transport and control. Headers, user agent and crawl, politeness
+ * and scope rules are taken from the checkpoint.
+ */
+export const resumeWebsiteSource = async (
+    checkpoint: ScanCheckpoint,
+    options: Pick<ScanOptions, 'transport' | 'control'>,
+    onProgress: (progress: { message: string; downloaded: number; total: number }) => void,
+    onWarning: (warning: { url: string; message: string }) => void
+): Promise<{ zip: any; networkLog: NetworkLogEntry[]; failedUrls: string[]; internalLinks: InternalLink[]; cancelled?: boolean }> => {
+    fetchCache.clear();
+    onProgress({ message: 'Restoring downloaded files...', downloaded: 0, total: 0 });
+    const files = await loadCheckpointFiles(checkpoint);
+    return runWorkerDownload(checkpoint.rootUrl, { ...checkpoint.options, ...options }, onProgress, onWarning, { checkpoint, files });
+};
+
+/**
+ * Downloads pages picked from the Site Pages list into an existing scan, together with
+ * any of their assets that are not in the archive yet. Requests follow the same robots.txt
+ * and rate-limit rules as a scan.
+ * @param pageUrls The pages to download.
+ * @param options The options of the original scan (headers, user agent, politeness, transport).
+ */
+export const downloadSelectedPages = async (
+    pageUrls: string[],
+    zip: any,
+    networkLog: NetworkLogEntry[],
+    options: ScanOptions,
+    onProgress: (progress: { message: string; downloaded: number; total: number }) => void,
+    onWarning: (warning: { url: string; message: string }) => void
+): Promise<{ zip: any; networkLog: NetworkLogEntry[]; failedUrls: string[]; cancelled?: boolean }> => {
+    const transport = options.transport || createTransport(DEFAULT_TRANSPORT_SETTINGS);
+    const failedUrls: string[] = [];
+    const processedUrls = new Set(networkLog.filter(entry => !entry.isError).map(entry => entry.url));
+    const downloadQueue: { url: string, initiator: string, discoveredVia?: DiscoveryMethod, provenance?: DiscoveryProvenance }[] = pageUrls
+        .filter(pageUrl => !processedUrls.has(pageUrl))
+        .map(pageUrl => ({ url: pageUrl, initiator: 'Site Pages' }));
+    downloadQueue.forEach(job => processedUrls.add(job.url));
+    let downloadedCount = 0;
+
+    const control = options.control;
+    const fetchOptions: RequestInit = { headers: { ...options.headers }, signal: control?.signal };
+    if (options.userAgent) {
+        (fetchOptions.headers as Record<string, string>)['User-Agent'] = options.userAgent;
+    }
+    const politeness = await createPolitenessPolicy(pageUrls[0], options.politeness, options.userAgent, transport, fetchOptions);
+    const scope = createScopeFilter(pageUrls[0], options.scope);
+    const paths = await loadPathMapper(zip, findRootUrl(networkLog, pageUrls[0]));
+
+    // Replaces the entry of a previously failed URL instead of listing it twice.
+    const logEntry = (entry: NetworkLogEntry) => {
+        const logIndex = networkLog.findIndex(existing => existing.url === entry.url);
+        if (logIndex > -1) networkLog[logIndex] = entry;
+        else networkLog.push(entry);
+    };
+
+    while (downloadQueue.length > 0) {
+        await control?.whenResumed();
+        if (control?.signal.aborted) break;
+        const { url: currentUrl, initiator, discoveredVia, provenance } = downloadQueue.shift()!;
+        onProgress({ message: `Downloading: ${currentUrl}`, downloaded: downloadedCount, total: downloadedCount + downloadQueue.length + 1 });
+
+        if (!politeness.isAllowed(currentUrl)) {
+            logSkippedUrl(networkLog, currentUrl, initiator, 'Skipped (robots.txt)');
+            onWarning({ url: currentUrl, message: 'Disallowed by robots.txt.' });
+            continue;
+        }
+
+        const wait = politeness.waitTime(currentUrl);
+        if (wait > 0) await sleep(wait);
+        politeness.start(currentUrl);
+
+        try {
+            const response = await cachedFetch(currentUrl, fetchOptions, transport, true);
+            const contentType = response.headers.get('content-type') || 'application/octet-stream';
+            const body = await readLimitedBody(response, initiator !== 'Site Pages' ? scope.maxAssetBytes : Infinity);
+            if (!body.blob) fetchCache.delete(currentUrl);
+            const content = body.blob ?? new Blob();
+            const tooLarge = response.ok && !body.blob;
+
+            logEntry({
+                url: currentUrl,
+                status: response.status,
+                statusText: tooLarge ? 'Skipped (too large)' : response.statusText,
+                contentType,
+                initiator,
+                size: body.size,
+                isError: !response.ok,
+                headers: headersToRecord(response.headers),
+                discoveredVia,
+                provenance,
+            });
+            if (!response.ok) {
+                throw new Error(`HTTP error! status: ${response.status}`);
+            }
+
+            if (!tooLarge) zip.file(paths.pathFor(currentUrl, contentType), content);
+
+            // Only the selected pages are parsed; their assets are fetched but not followed further.
+            if (initiator === 'Site Pages' && contentType.includes('html')) {
+                const newResources = (await findAllResources(contentType, await content.text(), currentUrl)).assets;
+                newResources.forEach(({ url: res, via, provenance }) => {
+                    if (processedUrls.has(res)) return;
+                    processedUrls.add(res);
+                    if (!admitUrl(res, currentUrl, scope, politeness, networkLog, onWarning)) return;
+                    downloadQueue.push({ url: res, initiator: currentUrl, discoveredVia: via, provenance });
+                });
+            }
+            downloadedCount++;
+        } catch (error) {
+            if (control?.signal.aborted) break;
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            failedUrls.push(currentUrl);
+            if (!networkLog.some(entry => entry.url === currentUrl)) {
+                logEntry({ url: currentUrl, status: 0, statusText: 'Download Failed', contentType: 'unknown', initiator, size: 0, isError: true, discoveredVia, provenance });
+            }
+            onWarning({ url: currentUrl, message: `Download failed. ${errorMessage}` });
+        } finally {
+            politeness.finish(currentUrl);
+        }
+    }
+
+    paths.writeManifest(zip);
+    return { zip, networkLog, failedUrls, cancelled: !!control?.signal.aborted };
 };
 
 
@@ -403,19 +904,27 @@ export const retryFailedDownloads = async (
     failedUrls: string[],
     zip: any,
     networkLog: NetworkLogEntry[],
-    onProgress: (progress: { message:string; downloaded: number; total: number }) => void
+    onProgress: (progress: { message:string; downloaded: number; total: number }) => void,
+    transport: FetchTransport = createTransport(DEFAULT_TRANSPORT_SETTINGS),
+    signal?: AbortSignal
 ): Promise<{ zip: any; networkLog: NetworkLogEntry[]; stillFailedUrls: string[] }> => {
     const stillFailedUrls: string[] = [];
+    const paths = await loadPathMapper(zip, findRootUrl(networkLog, failedUrls[0]));
     let downloadedCount = 0;
 
-    for (const url of failedUrls) {
+    for (const [index, url] of failedUrls.entries()) {
+        // On cancel, whatever hasn't been retried yet stays failed.
+        if (signal?.aborted) {
+            stillFailedUrls.push(...failedUrls.slice(index));
+            break;
+        }
         let success = false;
         let lastError: Error | null = null;
         onProgress({ message: `Force retrying: ${url}`, downloaded: downloadedCount, total: failedUrls.length });
         
         try {
-            // Attempt 1: Re-fetch with proxies
-            const response = await cachedFetch(url, {}, true); // forceFresh = true to retry
+            // Attempt 1: Re-fetch through the transport
+            const response = await cachedFetch(url, { signal }, transport, true); // forceFresh = true to retry
             if (!response.ok) throw new Error(`Retry failed with status: ${response.status}`);
             
             const contentType = response.headers.get('content-type') || 'application/octet-stream';
@@ -431,11 +940,11 @@ export const retryFailedDownloads = async (
                     contentType,
                     size,
                     isError: false,
+                    headers: headersToRecord(response.headers),
                 };
             }
 
-            const relativePath = new URL(url).pathname.substring(1) || new URL(url).hostname + '.html';
-            zip.file(relativePath, content);
+            zip.file(paths.pathFor(url, contentType), content);
             
             success = true;
             downloadedCount++;
@@ -447,13 +956,13 @@ export const retryFailedDownloads = async (
             
             const isCommonLib = /\.(js|css)$/i.test(url) && !url.includes('data:');
             
-            if (isCommonLib) {
+            if (isCommonLib && !signal?.aborted) {
                 try {
                     const cdnUrl = await findCdnUrl(url);
                     if (cdnUrl) {
                         onProgress({ message: `Found CDN: ${cdnUrl}`, downloaded: downloadedCount, total: failedUrls.length });
-                        // Fetch from CDN URL directly (no proxy needed)
-                        const cdnResponse = await fetch(cdnUrl);
+                        // CDNs allow CORS, but the request still goes through the transport so relays see it.
+                        const cdnResponse = await transport.fetch(cdnUrl, { signal });
                         if (!cdnResponse.ok) throw new Error(`CDN fetch failed with status: ${cdnResponse.status}`);
                         
                         const contentType = cdnResponse.headers.get('content-type') || 'application/octet-stream';
@@ -469,11 +978,11 @@ export const retryFailedDownloads = async (
                                 contentType,
                                 size,
                                 isError: false,
+                                headers: headersToRecord(cdnResponse.headers),
                             };
                         }
 
-                        const relativePath = new URL(url).pathname.substring(1) || new URL(url).hostname + '.html';
-                        zip.file(relativePath, content);
+                        zip.file(paths.pathFor(url, contentType), content);
 
                         success = true;
                         downloadedCount++;
@@ -495,6 +1004,7 @@ export const retryFailedDownloads = async (
     }
     
     onProgress({ message: `Retry complete.`, downloaded: downloadedCount, total: failedUrls.length });
+    paths.writeManifest(zip);
     return { zip, networkLog, stillFailedUrls };
 };
 
@@ -514,29 +1024,36 @@ async function blobToDataURI(blob: Blob): Promise<string> {
 
 /**
  * Attempts to re-download failed assets, convert them to Data URIs, and patch the source files.
- * This version uses a two-step fallback: direct fetch via proxy, then AI CDN lookup for JS/CSS.
+ * This version uses a two-step fallback: re-fetch via the transport, then AI CDN lookup for JS/CSS.
  */
 export const retryFailedDownloadsAsDataURI = async (
     failedUrls: string[],
     zip: any,
     networkLog: NetworkLogEntry[],
-    onProgress: (progress: { message: string; downloaded: number; total: number }) => void
+    onProgress: (progress: { message: string; downloaded: number; total: number }) => void,
+    transport: FetchTransport = createTransport(DEFAULT_TRANSPORT_SETTINGS),
+    signal?: AbortSignal
 ): Promise<{ zip: any; networkLog: NetworkLogEntry[]; stillFailedUrls: string[] }> => {
     const stillFailedUrls: string[] = [];
+    const paths = await loadPathMapper(zip, findRootUrl(networkLog, failedUrls[0]));
     let downloadedCount = 0;
     const total = failedUrls.length;
 
     const initiatorsToPatch: Map<string, { failedUrl: string, dataUri: string }[]> = new Map();
 
-    for (const url of failedUrls) {
+    for (const [index, url] of failedUrls.entries()) {
+        if (signal?.aborted) {
+            stillFailedUrls.push(...failedUrls.slice(index));
+            break;
+        }
         onProgress({ message: `Resolving: ${url}`, downloaded: downloadedCount, total });
 
         let blob: Blob | null = null;
         let lastError: Error | null = null;
 
         try {
-            // Attempt 1: Re-fetch with proxies
-            const response = await cachedFetch(url, {}, true);
+            // Attempt 1: Re-fetch through the transport
+            const response = await cachedFetch(url, { signal }, transport, true);
             if (!response.ok) throw new Error(`Fetch failed with status: ${response.status}`);
             blob = await response.blob();
         } catch (error) {
@@ -545,13 +1062,13 @@ export const retryFailedDownloadsAsDataURI = async (
 
             // Attempt 2: AI CDN finder for common libs
             const isCommonLib = /\.(js|css)$/i.test(url) && !url.includes('data:');
-            if (isCommonLib) {
+            if (isCommonLib && !signal?.aborted) {
                 try {
                     onProgress({ message: `AI lookup: ${url.split('/').pop()}`, downloaded: downloadedCount, total });
                     const cdnUrl = await findCdnUrl(url);
                     if (cdnUrl) {
                         onProgress({ message: `Found CDN: ${cdnUrl}`, downloaded: downloadedCount, total });
-                        const cdnResponse = await fetch(cdnUrl); // direct fetch, no proxy
+                        const cdnResponse = await transport.fetch(cdnUrl, { signal });
                         if (!cdnResponse.ok) throw new Error(`CDN fetch failed with status: ${cdnResponse.status}`);
                         blob = await cdnResponse.blob();
                     }
@@ -597,7 +1114,8 @@ export const retryFailedDownloadsAsDataURI = async (
     for (const [initiatorUrl, replacements] of initiatorsToPatch.entries()) {
         onProgress({ message: `Patching source: ${initiatorUrl.split('/').pop()}`, downloaded: downloadedCount, total });
         try {
-            const initiatorPath = new URL(initiatorUrl).pathname.substring(1) || 'index.html';
+            // Archives from before the path manifest stored files under their bare pathname.
+            const initiatorPath = paths.lookup(initiatorUrl) ?? (new URL(initiatorUrl).pathname.substring(1) || 'index.html');
             const zipFile = zip.file(initiatorPath);
             if (zipFile) {
                 let content = await zipFile.async('text');
@@ -627,20 +1145,28 @@ export const retryFailedDownloadsAsDataURI = async (
     }
 
     onProgress({ message: `Data URI resolution complete.`, downloaded: downloadedCount, total });
+    paths.writeManifest(zip);
     return { zip, networkLog, stillFailedUrls };
 };
 
 
-export const downloadZipFile = async (zip: any, siteName: string) => {
+/**
+ * Saves a blob to disk through a temporary download link.
+ */
+export const downloadBlob = (blob: Blob, fileName: string) => {
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(link.href);
+};
+
+export const downloadZipFile = async (zip: any, siteName: string, suffix = 'source') => {
     try {
         const content = await zip.generateAsync({ type: 'blob' });
-        const link = document.createElement('a');
-        link.href = URL.createObjectURL(content);
-        link.download = `${siteName}_source.zip`;
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
-        URL.revokeObjectURL(link.href);
+        downloadBlob(content, `${siteName}_${suffix}.zip`);
     } catch (error) {
         console.error("Failed to generate or download ZIP file:", error);
         alert("An error occurred while creating the ZIP file for download.");
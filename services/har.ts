@@ -0,0 +1,189 @@
+// HAR 1.2 export and import. Exports are built from the network log plus the bodies stored in
+// the zip; imports turn a HAR saved from browser devtools into a regular scan result.
+
+import { InternalLink, NetworkLogEntry } from '../types';
+import { findInternalLinksInHtml } from './assetDiscovery';
+import { createPathMapper, loadPathMapper } from './pathMapper';
+
+declare const JSZip: any;
+
+interface HarHeader {
+    name: string;
+    value: string;
+}
+
+interface HarEntry {
+    startedDateTime: string;
+    time: number;
+    request: {
+        method: string;
+        url: string;
+        httpVersion: string;
+        headers: HarHeader[];
+        queryString: HarHeader[];
+        cookies: any[];
+        headersSize: number;
+        bodySize: number;
+    };
+    response: {
+        status: number;
+        statusText: string;
+        httpVersion: string;
+        headers: HarHeader[];
+        cookies: any[];
+        content: { size: number; mimeType: string; text?: string; encoding?: string };
+        redirectURL: string;
+        headersSize: number;
+        bodySize: number;
+    };
+    cache: Record<string, never>;
+    timings: { send: number; wait: number; receive: number };
+    _initiator?: { type: string; url?: string };
+}
+
+export interface HarLog {
+    log: {
+        version: string;
+        creator: { name: string; version: string };
+        pages?: { startedDateTime: string; id: string; title: string; pageTimings: Record<string, number> }[];
+        entries: HarEntry[];
+    };
+}
+
+export const isTextualContentType = (contentType: string): boolean =>
+    /^text\/|json|javascript|ecmascript|xml|svg/i.test(contentType);
+
+/**
+ * Builds a HAR 1.2 log of a scan. Only requests that got a response are included; their
+ * bodies are read back from the zip. Timings are not recorded by the downloader and are zero.
+ * @param zip The JSZip instance of the scan.
+ * @param networkLog The scan's network log.
+ * @param rootUrl The scanned URL.
+ */
+export async function exportHar(zip: any, networkLog: NetworkLogEntry[], rootUrl: string): Promise<HarLog> {
+    const paths = await loadPathMapper(zip, rootUrl);
+    const startedDateTime = new Date().toISOString();
+    const entries: HarEntry[] = [];
+
+    for (const entry of networkLog.filter(item => item.status > 0)) {
+        const path = paths.lookup(entry.url);
+        const file = path ? zip.file(path) : null;
+        const textual = isTextualContentType(entry.contentType);
+        const body: string | undefined = file ? await file.async(textual ? 'text' : 'base64') : undefined;
+        const url = new URL(entry.url);
+
+        entries.push({
+            startedDateTime,
+            time: 0,
+            request: {
+                method: 'GET',
+                url: entry.url,
+                httpVersion: 'HTTP/1.1',
+                headers: [],
+                queryString: Array.from(url.searchParams.entries()).map(([name, value]) => ({ name, value })),
+                cookies: [],
+                headersSize: -1,
+                bodySize: 0,
+            },
+            response: {
+                status: entry.status,
+                statusText: entry.statusText,
+                httpVersion: 'HTTP/1.1',
+                headers: Object.entries(entry.headers || {}).map(([name, value]) => ({ name, value })),
+                cookies: [],
+                content: {
+                    size: entry.size,
+                    mimeType: entry.contentType,
+                    ...(body !== undefined ? { text: body, encoding: textual ? undefined : 'base64' } : {}),
+                },
+                redirectURL: '',
+                headersSize: -1,
+                bodySize: entry.size,
+            },
+            cache: {},
+            timings: { send: 0, wait: 0, receive: 0 },
+            _initiator: entry.initiator === 'Initial Request' ? { type: 'other' } : { type: 'parser', url: entry.initiator },
+        });
+    }
+
+    return {
+        log: {
+            version: '1.2',
+            creator: { name: 'Web Page Inspector', version: '1.0' },
+            pages: [{ startedDateTime, id: 'page_1', title: rootUrl, pageTimings: {} }],
+            entries,
+        },
+    };
+}
+
+/**
+ * Loads a HAR file (e.g. saved from the browser's Network panel) as a scan result.
+ * The first HTML document in the capture is treated as the scanned page.
+ * @param harText The content of the .har file.
+ */
+export async function importHar(harText: string): Promise<{ zip: any; networkLog: NetworkLogEntry[]; internalLinks: InternalLink[]; rootUrl: string }> {
+    let har: HarLog;
+    try {
+        har = JSON.parse(harText);
+    } catch (e) {
+        throw new Error('The file is not valid JSON.');
+    }
+    const harEntries = (har?.log?.entries || []).filter(entry => /^https?:/i.test(entry?.request?.url || ''));
+    if (harEntries.length === 0) {
+        throw new Error('The HAR file contains no HTTP requests.');
+    }
+
+    const rootEntry = harEntries.find(entry => (entry.response?.content?.mimeType || '').includes('html')) || harEntries[0];
+    const rootUrl = rootEntry.request.url;
+    const zip = new JSZip();
+    const paths = createPathMapper(rootUrl);
+    const networkLog: NetworkLogEntry[] = [];
+    let rootHtml = '';
+
+    for (const entry of harEntries) {
+        const { url } = entry.request;
+        const content = entry.response?.content || { size: 0, mimeType: '' };
+        const contentType = content.mimeType || 'application/octet-stream';
+        const status = entry.response?.status || 0;
+        const headers: Record<string, string> = {};
+        (entry.response?.headers || []).forEach(header => { headers[header.name.toLowerCase()] = header.value; });
+
+        // Devtools captures the same URL more than once (e.g. on reload); the first response wins.
+        if (networkLog.some(existing => existing.url === url)) continue;
+
+        let size = content.size > 0 ? content.size : 0;
+        if (content.text !== undefined && status >= 200 && status < 400) {
+            const path = paths.pathFor(url, contentType);
+            if (content.encoding === 'base64') {
+                zip.file(path, content.text, { base64: true });
+            } else {
+                zip.file(path, content.text);
+                size = size || new Blob([content.text]).size;
+            }
+            if (entry === rootEntry) {
+                // atob gives one character per byte, so a base64 body is decoded as UTF-8 from its bytes.
+                rootHtml = content.encoding === 'base64'
+                    ? new TextDecoder().decode(Uint8Array.from(atob(content.text), char => char.charCodeAt(0)))
+                    : content.text;
+            }
+        }
+
+        networkLog.push({
+            url,
+            status,
+            statusText: entry.response?.statusText || '',
+            contentType,
+            initiator: entry === rootEntry ? 'Initial Request' : entry._initiator?.url || rootUrl,
+            size,
+            isError: status === 0 || status >= 400,
+            headers,
+        });
+    }
+    paths.writeManifest(zip);
+
+    const internalLinks: InternalLink[] = rootHtml
+        ? Array.from(findInternalLinksInHtml(rootHtml, rootUrl)).filter(link => link !== rootUrl).map(link => ({ url: link, foundOn: rootUrl, depth: 1, source: 'anchor' }))
+        : [];
+
+    return { zip, networkLog, internalLinks, rootUrl };
+}
@@ -0,0 +1,157 @@
+// Extracts the code embedded in HTML pages (inline <script> blocks, on* event handler
+// attributes and javascript: URLs) into virtual files next to their page, e.g.
+// `index.html#script-3.js`, so the explorer, asset discovery and the security scanners
+// read it like any script. The files live in a derived zip for the inspector only, and each
+// links back to its page.
+
+import { createLocator } from '../utils/fileUtils';
+
+declare const JSZip: any;
+
+// The JavaScript MIME types of the HTML standard. Scripts of any other type (JSON, import maps,
+// speculation rules, shaders, templates...) are data blocks that browsers don't run.
+const JAVASCRIPT_MIME_TYPES = new Set([
+    'application/ecmascript', 'application/javascript', 'application/x-ecmascript', 'application/x-javascript',
+    'text/ecmascript', 'text/javascript', 'text/javascript1.0', 'text/javascript1.1', 'text/javascript1.2',
+    'text/javascript1.3', 'text/javascript1.4', 'text/javascript1.5', 'text/jscript', 'text/livescript',
+    'text/x-ecmascript', 'text/x-javascript',
+]);
+
+/** Whether a `<script type>` value makes the browser run the script: empty, `module` or a JavaScript MIME type. */
+export const isJavaScriptType = (type: string): boolean => {
+    const essence = type.split(';')[0].trim().toLowerCase();
+    return essence === '' || essence === 'module' || JAVASCRIPT_MIME_TYPES.has(essence);
+};
+
+// Comments, script and style elements (whose content isn't markup), and start tags.
+const MARKUP_REGEX = /<!--[\s\S]*?-->|<(script|style)\b((?:"[^"]*"|'[^']*'|[^'">])*)>([\s\S]*?)<\/\1\s*>|<([a-zA-Z][\w:-]*)((?:"[^"]*"|'[^']*'|[^'">])*)>/gi;
+const ATTRIBUTE_REGEX = /([^\s"'>\/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+const URL_ATTRIBUTES = new Set(['href', 'src', 'action', 'formaction']);
+// `javascript:void(0)` and the like only keep a link from navigating.
+const PLACEHOLDER_CODE = /^\s*(?:void\s*\(?\s*0\s*\)?|undefined|false|true)?\s*;?\s*$/i;
+
+export type InlineScriptKind = 'script' | 'eventHandler' | 'javascriptUrl';
+
+export interface InlineScript {
+    kind: InlineScriptKind;
+    code: string;
+    offset: number; // Where the code starts in the page.
+    attribute?: string; // For handlers and URLs, the attribute holding the code.
+}
+
+export interface InlineScriptFile {
+    path: string; // The virtual file, e.g. `index.html#script-1.js`.
+    document: string; // The page it was extracted from.
+    line: number;
+    column: number;
+    kind: InlineScriptKind;
+    attribute?: string;
+}
+
+export interface InspectionZip {
+    zip: any;
+    inlineScripts: InlineScriptFile[];
+}
+
+const decodeEntities = (value: string) => value.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (entity, name: string) => {
+    const lower = name.toLowerCase();
+    if (lower.startsWith('#x')) return String.fromCodePoint(parseInt(lower.substring(2), 16));
+    if (lower.startsWith('#')) return String.fromCodePoint(parseInt(lower.substring(1), 10));
+    return ({ amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" } as Record<string, string>)[lower] ?? entity;
+});
+
+/**
+ * Parses the attributes of a start tag, with the offset of each value in the page.
+ * @param attributes The source of the attributes.
+ * @param start Where they start in the page.
+ */
+function parseAttributes(attributes: string, start: number): { name: string; value: string; offset: number }[] {
+    const parsed: { name: string; value: string; offset: number }[] = [];
+    let match;
+    ATTRIBUTE_REGEX.lastIndex = 0;
+    while ((match = ATTRIBUTE_REGEX.exec(attributes))) {
+        const raw = match[2] ?? match[3] ?? match[4];
+        if (raw === undefined) continue;
+        const quoted = match[4] === undefined;
+        const offset = start + match.index + match[0].length - raw.length - (quoted ? 1 : 0);
+        parsed.push({ name: match[1].toLowerCase(), value: decodeEntities(raw), offset });
+    }
+    return parsed;
+}
+
+/**
+ * Finds the code embedded in an HTML page, in document order. The page is read as text rather
+ * than through a DOM, so each piece keeps its exact position.
+ * Scripts with a `src` or a data type, and empty or placeholder code, are left out.
+ * @param html The page content.
+ */
+export function extractInlineScripts(html: string): InlineScript[] {
+    const scripts: InlineScript[] = [];
+    let match;
+    MARKUP_REGEX.lastIndex = 0;
+    while ((match = MARKUP_REGEX.exec(html))) {
+        const [, rawTag, rawAttributes, body, tagName, tagAttributes] = match;
+        const attributes = rawAttributes ?? tagAttributes;
+        if (attributes === undefined) continue; // A comment.
+        const attributesStart = match.index + 1 + (rawTag ?? tagName).length;
+        const parsed = parseAttributes(attributes, attributesStart);
+
+        if (rawTag?.toLowerCase() === 'script') {
+            const type = parsed.find(a => a.name === 'type')?.value ?? '';
+            if (body.trim() && !parsed.some(a => a.name === 'src') && isJavaScriptType(type)) {
+                scripts.push({ kind: 'script', code: body, offset: attributesStart + rawAttributes.length + 1 });
+            }
+        }
+        parsed.forEach(({ name, value, offset }) => {
+            if (/^on[a-z]+$/.test(name) && value.trim()) {
+                scripts.push({ kind: 'eventHandler', code: value, offset, attribute: name });
+            } else if (URL_ATTRIBUTES.has(name) && /^\s*javascript:/i.test(value)) {
+                const prefix = value.match(/^\s*javascript:/i)![0];
+                let code = value.substring(prefix.length);
+                try {
+                    code = decodeURIComponent(code);
+                } catch (e) {
+                    // A stray `%` isn't an escape; the code is kept as written.
+                }
+                if (!PLACEHOLDER_CODE.test(code)) {
+                    scripts.push({ kind: 'javascriptUrl', code, offset: offset + prefix.length, attribute: name });
+                }
+            }
+        });
+    }
+    return scripts;
+}
+
+/**
+ * Builds the zip the inspector tabs read: the scan's files plus the code embedded in each
+ * HTML page, as virtual files next to the page. The scan zip itself is left untouched, so
+ * saved sessions and downloads only hold what the site served.
+ * @param zip The JSZip instance of the scan.
+ * @returns The derived zip, and its virtual files in page and document order.
+ */
+export async function createInspectionZip(zip: any): Promise<InspectionZip> {
+    const view = new JSZip();
+    // Zip entries aren't modified once added, so the view shares them instead of copying their content.
+    Object.keys(zip.files).forEach(name => { view.files[name] = zip.files[name]; });
+
+    const documents = Object.keys(zip.files)
+        .filter(name => !zip.files[name].dir && /\.html?$/i.test(name) && !name.startsWith('_inspector/'))
+        .sort();
+    const inlineScripts: InlineScriptFile[] = [];
+    for (const document of documents) {
+        const html: string = await zip.file(document).async('text');
+        const locate = createLocator(html);
+        const counters = new Map<string, number>();
+
+        extractInlineScripts(html).forEach(({ kind, code, offset, attribute }) => {
+            const label = kind === 'script' ? 'script' : kind === 'eventHandler' ? attribute! : 'javascript';
+            const count = (counters.get(label) ?? 0) + 1;
+            counters.set(label, count);
+            const { line = 1, column = 0 } = locate(offset);
+            const path = `${document}#${label}-${count}.js`;
+            view.file(path, code);
+            inlineScripts.push({ path, document, line, column, kind, ...(attribute && { attribute }) });
+        });
+    }
+    return { zip: view, inlineScripts };
+}
@@ -0,0 +1,187 @@
+// Maps downloaded URLs to file paths inside the zip. Paths are collision-free: query strings
+// are encoded into the file name, other origins get their own folder, and when two URLs still
+// end up on the same path the later one gets a numeric suffix. The mapping is saved in the zip
+// as a manifest so retries and later tools can find a URL's file again.
+
+export const MANIFEST_PATH = '_inspector/manifest.json';
+
+// Folder that holds assets from origins other than the scanned site's, one subfolder per host.
+const EXTERNAL_DIR = '_external';
+const MAX_QUERY_LENGTH = 40;
+
+export interface PathManifestEntry {
+    url: string;
+    path: string;
+    contentType?: string;
+}
+
+export interface PathManifest {
+    version: 1;
+    rootUrl: string;
+    files: PathManifestEntry[];
+}
+
+export interface PathMapper {
+    /** Returns the zip path of a URL, assigning one the first time the URL is seen. */
+    pathFor: (url: string, contentType?: string) => string;
+    /** Returns the path already assigned to a URL, if any. */
+    lookup: (url: string) => string | undefined;
+    getManifest: () => PathManifest;
+    writeManifest: (zip: any) => void;
+}
+
+const EXTENSIONS_BY_TYPE: [string, string][] = [
+    ['html', 'html'],
+    ['css', 'css'],
+    ['javascript', 'js'],
+    ['ecmascript', 'js'],
+    ['json', 'json'],
+    ['svg', 'svg'],
+    ['png', 'png'],
+    ['jpeg', 'jpg'],
+    ['gif', 'gif'],
+    ['webp', 'webp'],
+    ['avif', 'avif'],
+    ['icon', 'ico'],
+    ['woff2', 'woff2'],
+    ['woff', 'woff'],
+    ['ttf', 'ttf'],
+    ['otf', 'otf'],
+    ['wasm', 'wasm'],
+    ['pdf', 'pdf'],
+    ['xml', 'xml'],
+    ['text/plain', 'txt'],
+];
+
+// Extensions that are acceptable for a type even though they differ from the canonical one.
+const EQUIVALENT_EXTENSIONS: Record<string, string[]> = {
+    html: ['html', 'htm', 'xhtml'],
+    js: ['js', 'mjs', 'cjs'],
+    css: ['css'],
+};
+
+const extensionForContentType = (contentType: string): string | undefined => {
+    const type = contentType.toLowerCase();
+    return EXTENSIONS_BY_TYPE.find(([marker]) => type.includes(marker))?.[1];
+};
+
+// Characters that are invalid in file names on common file systems.
+const sanitizeSegment = (segment: string): string => segment.replace(/[<>:"\\|?*\x00-\x1f]/g, '_');
+
+const hashString = (value: string): string => {
+    let hash = 5381;
+    for (let i = 0; i < value.length; i++) {
+        hash = ((hash << 5) + hash + value.charCodeAt(i)) | 0;
+    }
+    return (hash >>> 0).toString(36);
+};
+
+const encodeQuery = (search: string): string => {
+    const query = search.substring(1).replace(/[^A-Za-z0-9._=-]/g, '_');
+    return query.length > MAX_QUERY_LENGTH ? `q${hashString(search)}` : query;
+};
+
+const splitExtension = (fileName: string): [string, string] => {
+    const dot = fileName.lastIndexOf('.');
+    return dot > 0 ? [fileName.substring(0, dot), fileName.substring(dot + 1)] : [fileName, ''];
+};
+
+/**
+ * Computes the preferred path of a URL, before collisions are resolved.
+ * Directory URLs become `index.html`, the query string is folded into the file name and the
+ * extension is added (or corrected for pages, scripts and styles) from the content type.
+ */
+function computePath(url: URL, rootOrigin: string, contentType: string): string {
+    let pathname = url.pathname.substring(1);
+    if (!pathname || pathname.endsWith('/')) {
+        pathname += 'index.html';
+    }
+    const segments = pathname.split('/').map(sanitizeSegment);
+    let [stem, extension] = splitExtension(segments.pop()!);
+
+    const expected = extensionForContentType(contentType);
+    if (expected && !extension) {
+        extension = expected;
+    } else if (expected && EQUIVALENT_EXTENSIONS[expected] && !EQUIVALENT_EXTENSIONS[expected].includes(extension.toLowerCase())) {
+        // e.g. `page.php` serving HTML becomes `page.php.html`, so it opens in a browser.
+        stem = `${stem}.${extension}`;
+        extension = expected;
+    }
+    if (url.search.length > 1) {
+        stem = `${stem}_${encodeQuery(url.search)}`;
+    }
+
+    segments.push(extension ? `${stem}.${extension}` : stem);
+    if (url.origin !== rootOrigin) {
+        segments.unshift(EXTERNAL_DIR, sanitizeSegment(url.host));
+    }
+    return segments.join('/');
+}
+
+/**
+ * Creates the URL-to-path mapper for a scan.
+ * @param rootUrl The scanned URL. Files from its origin are stored at the top of the zip.
+ * @param files Mappings restored from an existing manifest.
+ */
+export function createPathMapper(rootUrl: string, files: PathManifestEntry[] = []): PathMapper {
+    const rootOrigin = new URL(rootUrl).origin;
+    const byUrl = new Map<string, PathManifestEntry>();
+    const takenPaths = new Set<string>([MANIFEST_PATH]);
+    files.forEach(entry => {
+        byUrl.set(entry.url, entry);
+        takenPaths.add(entry.path);
+    });
+
+    const pathFor = (url: string, contentType = ''): string => {
+        const existing = byUrl.get(url);
+        if (existing) return existing.path;
+
+        let parsed: URL;
+        try {
+            parsed = new URL(url);
+        } catch (e) {
+            parsed = new URL(`${EXTERNAL_DIR}/invalid/${hashString(url)}`, rootUrl);
+        }
+        const preferred = computePath(parsed, rootOrigin, contentType);
+        let path = preferred;
+        for (let n = 2; takenPaths.has(path); n++) {
+            const slash = preferred.lastIndexOf('/');
+            const [stem, extension] = splitExtension(preferred.substring(slash + 1));
+            path = `${preferred.substring(0, slash + 1)}${stem}-${n}${extension ? `.${extension}` : ''}`;
+        }
+
+        takenPaths.add(path);
+        byUrl.set(url, { url, path, contentType: contentType || undefined });
+        return path;
+    };
+
+    const getManifest = (): PathManifest => ({ version: 1, rootUrl, files: Array.from(byUrl.values()) });
+
+    return {
+        pathFor,
+        lookup: (url: string) => byUrl.get(url)?.path,
+        getManifest,
+        writeManifest: (zip: any) => {
+            zip.file(MANIFEST_PATH, JSON.stringify(getManifest(), null, 2));
+        },
+    };
+}
+
+/**
+ * Restores the mapper of an existing scan from the manifest in its zip.
+ * Archives made before the manifest existed start with an empty mapping.
+ * @param zip The JSZip instance of the scan.
+ * @param fallbackRootUrl The scanned URL, used when the zip has no manifest.
+ */
+export async function loadPathMapper(zip: any, fallbackRootUrl: string): Promise<PathMapper> {
+    const manifestFile = zip.file(MANIFEST_PATH);
+    if (manifestFile) {
+        try {
+            const manifest: PathManifest = JSON.parse(await manifestFile.async('text'));
+            return createPathMapper(manifest.rootUrl, manifest.files);
+        } catch (e) {
+            console.warn('Could not read the path manifest, starting a new one.', e);
+        }
+    }
+    return createPathMapper(fallbackRootUrl);
+}
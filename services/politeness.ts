@@ -0,0 +1,107 @@
+// Crawl politeness: robots.txt rules for the scanned site and per-origin rate limiting
+// for every host the downloader talks to.
+
+import { FetchTransport, PolitenessOptions } from '../types';
+import { parseRobotsTxt, getRobotsPolicy, RobotsPolicy, RobotsTxt } from './robots';
+
+export const DEFAULT_POLITENESS_OPTIONS: PolitenessOptions = {
+    enabled: true,
+    respectRobots: true,
+    minDelayMs: 250,
+    maxConcurrentPerOrigin: 2,
+};
+
+export interface PolitenessPolicy {
+    // The scanned site's robots.txt, if one was found. It is read even when its rules
+    // are not enforced, since its Sitemap lines feed page discovery.
+    robots: RobotsTxt | null;
+    isAllowed: (url: string) => boolean;
+    // Milliseconds until a request to the URL's origin may start. 0 means it can start now.
+    waitTime: (url: string) => number;
+    canStart: (url: string) => boolean;
+    start: (url: string) => void;
+    finish: (url: string) => void;
+}
+
+const getOrigin = (url: string): string => {
+    try {
+        return new URL(url).origin;
+    } catch (e) {
+        return url;
+    }
+};
+
+/**
+ * Fetches and parses an origin's robots.txt. A missing file (4xx) or an unreachable
+ * one allows everything, as crawlers conventionally do.
+ */
+export async function fetchRobotsTxt(origin: string, transport: FetchTransport, fetchOptions: RequestInit): Promise<RobotsTxt | null> {
+    const robotsUrl = `${origin}/robots.txt`;
+    try {
+        const response = await transport.fetch(robotsUrl, fetchOptions);
+        if (!response.ok) return null;
+        const contentType = response.headers.get('content-type') || '';
+        // Some servers answer every path with their HTML shell; that isn't a robots.txt.
+        if (contentType.includes('html')) return null;
+        return parseRobotsTxt(await response.text(), robotsUrl);
+    } catch (e) {
+        console.warn(`Could not fetch ${robotsUrl}, assuming everything is allowed.`, e);
+        return null;
+    }
+}
+
+/**
+ * Builds the politeness policy for a scan. robots.txt is read for the scanned site's
+ * origin only; third-party origins (CDNs, fonts...) are rate limited but not checked.
+ * @param rootUrl The URL being scanned.
+ * @param options The politeness options. When disabled, the policy allows everything without delays.
+ * @param userAgent The User-Agent used to select the robots.txt group.
+ */
+export async function createPolitenessPolicy(
+    rootUrl: string,
+    options: PolitenessOptions | undefined,
+    userAgent: string,
+    transport: FetchTransport,
+    fetchOptions: RequestInit
+): Promise<PolitenessPolicy> {
+    const rootOrigin = getOrigin(rootUrl);
+    const enabled = !!options?.enabled;
+    const robots = await fetchRobotsTxt(rootOrigin, transport, fetchOptions);
+    const robotsPolicy: RobotsPolicy | null = robots && enabled && options!.respectRobots ? getRobotsPolicy(robots, userAgent || '*') : null;
+
+    const active = new Map<string, number>();
+    const lastStart = new Map<string, number>();
+
+    const delayFor = (origin: string): number => {
+        if (!enabled) return 0;
+        const crawlDelay = origin === rootOrigin ? robotsPolicy?.crawlDelayMs ?? 0 : 0;
+        return Math.max(options!.minDelayMs, crawlDelay);
+    };
+
+    const waitTime = (url: string): number => {
+        const origin = getOrigin(url);
+        const last = lastStart.get(origin);
+        if (last === undefined) return 0;
+        return Math.max(0, last + delayFor(origin) - Date.now());
+    };
+
+    return {
+        robots,
+        isAllowed: (url: string) => !robotsPolicy || getOrigin(url) !== rootOrigin || robotsPolicy.isAllowed(url),
+        waitTime,
+        canStart: (url: string) => {
+            if (!enabled) return true;
+            const origin = getOrigin(url);
+            return (active.get(origin) || 0) < options!.maxConcurrentPerOrigin && waitTime(url) === 0;
+        },
+        start: (url: string) => {
+            const origin = getOrigin(url);
+            active.set(origin, (active.get(origin) || 0) + 1);
+            lastStart.set(origin, Date.now());
+        },
+        finish: (url: string) => {
+            const origin = getOrigin(url);
+            active.set(origin, Math.max(0, (active.get(origin) || 0) - 1));
+        },
+    };
+}
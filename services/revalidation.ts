@@ -0,0 +1,102 @@
+// Conditional re-scans of a site that is already in history. Assets from the previous snapshot
+// are requested with their ETag and Last-Modified validators, a 304 is answered from the
+// previous zip, and every downloaded asset is marked as added, changed or unchanged.
+
+import { AssetChange, NetworkLogEntry, RefreshSummary, ScanBaseline } from '../types';
+import { loadPathMapper } from './pathMapper';
+import { bytesEqual } from '../utils/fileUtils';
+
+export interface SettledResponse {
+    blob: Blob;
+    contentType: string;
+    statusText: string;
+    headers: Record<string, string>;
+    change?: AssetChange;
+}
+
+export interface AssetRevalidator {
+    /** Adds the previous copy's validators to the request options of a URL, if it has any. */
+    withValidators: (url: string, options: RequestInit) => RequestInit;
+    /** Resolves the body of a response, reusing the previous copy on a 304. */
+    settle: (url: string, status: number, statusText: string, blob: Blob, contentType: string, headers: Record<string, string>) => Promise<SettledResponse>;
+}
+
+// Used for regular scans, which have nothing to compare against.
+const PASS_THROUGH: AssetRevalidator = {
+    withValidators: (_url, options) => options,
+    settle: async (_url, _status, statusText, blob, contentType, headers) => ({ blob, contentType, statusText, headers }),
+};
+
+const isSuccess = (status: number) => status >= 200 && status < 400;
+
+async function sameContent(a: Blob, b: Blob): Promise<boolean> {
+    if (a.size !== b.size) return false;
+    const [bytesA, bytesB] = await Promise.all([a.arrayBuffer(), b.arrayBuffer()]);
+    return bytesEqual(new Uint8Array(bytesA), new Uint8Array(bytesB));
+}
+
+/**
+ * Creates the revalidator of a scan.
+ * @param rootUrl The scanned URL.
+ * @param baseline The previous snapshot of the site. Without it, responses are passed through.
+ */
+export async function createRevalidator(rootUrl: string, baseline?: ScanBaseline): Promise<AssetRevalidator> {
+    if (!baseline) return PASS_THROUGH;
+
+    const paths = await loadPathMapper(baseline.zip, rootUrl);
+    const previous = new Map(baseline.networkLog.filter(entry => isSuccess(entry.status)).map(entry => [entry.url, entry]));
+
+    const readPrevious = async (url: string): Promise<Blob | null> => {
+        const path = paths.lookup(url);
+        const file = path ? baseline.zip.file(path) : null;
+        return file ? file.async('blob') : null;
+    };
+
+    return {
+        withValidators: (url, options) => {
+            const entry = previous.get(url);
+            const etag = entry?.headers?.['etag'];
+            const lastModified = entry?.headers?.['last-modified'];
+            // Without the previous file a 304 couldn't be answered, so ask for the full body.
+            if (!paths.lookup(url) || (!etag && !lastModified)) return options;
+            const headers: Record<string, string> = { ...(options.headers as Record<string, string>) };
+            if (etag) headers['If-None-Match'] = etag;
+            if (lastModified) headers['If-Modified-Since'] = lastModified;
+            return { ...options, headers };
+        },
+
+        settle: async (url, status, statusText, blob, contentType, headers) => {
+            const entry = previous.get(url);
+            if (status === 304 && entry) {
+                const previousBlob = await readPrevious(url);
+                if (previousBlob) {
+                    // A 304 only carries some of the headers; the rest still apply from last time.
+                    return { blob: previousBlob, contentType: entry.contentType, statusText: 'Not Modified (reused)', headers: { ...entry.headers, ...headers }, change: 'unchanged' };
+                }
+            }
+            if (!isSuccess(status)) return { blob, contentType, statusText, headers };
+            if (!entry) return { blob, contentType, statusText, headers, change: 'added' };
+            // Servers without validators send the full body every time; compare it to tell.
+            const previousBlob = await readPrevious(url);
+            const unchanged = previousBlob ? await sameContent(previousBlob, blob) : false;
+            return { blob, contentType, statusText, headers, change: unchanged ? 'unchanged' : 'changed' };
+        },
+    };
+}
+
+/**
+ * Sums up a refreshed scan against the snapshot it was compared to.
+ * @param networkLog The network log of the refreshed scan.
+ * @param baseline The previous snapshot.
+ */
+export function summarizeRefresh(networkLog: NetworkLogEntry[], baseline: ScanBaseline): RefreshSummary {
+    const urlsWith = (change: AssetChange) => networkLog.filter(entry => entry.change === change).map(entry => entry.url);
+    const requested = new Set(networkLog.map(entry => entry.url));
+    return {
+        previousTimestamp: baseline.timestamp,
+        added: urlsWith('added'),
+        changed: urlsWith('changed'),
+        unchanged: urlsWith('unchanged'),
+        removed: baseline.networkLog.filter(entry => isSuccess(entry.status) && !requested.has(entry.url)).map(entry => entry.url),
+    };
+}
@@ -0,0 +1,119 @@
+// A small robots.txt parser following RFC 9309: user-agent groups, Allow/Disallow
+// rules with `*` and `$` wildcards (longest match wins), plus the non-standard but
+// widely used Crawl-delay and Sitemap directives.
+
+interface RobotsRule {
+    allow: boolean;
+    path: string;
+}
+
+interface RobotsGroup {
+    userAgents: string[]; // Lower-cased product tokens, '*' for the catch-all group.
+    rules: RobotsRule[];
+    crawlDelay?: number; // In seconds.
+}
+
+export interface RobotsTxt {
+    groups: RobotsGroup[];
+    sitemaps: string[];
+}
+
+export interface RobotsPolicy {
+    isAllowed: (url: string) => boolean;
+    crawlDelayMs?: number;
+}
+
+/**
+ * Parses the content of a robots.txt file.
+ * @param content The raw robots.txt text.
+ * @param baseUrl The URL of the robots.txt file, used to resolve relative Sitemap URLs.
+ */
+export function parseRobotsTxt(content: string, baseUrl: string): RobotsTxt {
+    const groups: RobotsGroup[] = [];
+    const sitemaps: string[] = [];
+    let current: RobotsGroup | null = null;
+    // Consecutive user-agent lines share one group; the first rule line closes the header.
+    let collectingAgents = false;
+
+    for (const rawLine of content.split(/\r?\n/)) {
+        const line = rawLine.replace(/#.*$/, '').trim();
+        const separator = line.indexOf(':');
+        if (separator === -1) continue;
+
+        const field = line.substring(0, separator).trim().toLowerCase();
+        const value = line.substring(separator + 1).trim();
+
+        switch (field) {
+            case 'user-agent':
+                if (!current || !collectingAgents) {
+                    current = { userAgents: [], rules: [] };
+                    groups.push(current);
+                }
+                current.userAgents.push(value.toLowerCase());
+                collectingAgents = true;
+                break;
+            case 'allow':
+            case 'disallow':
+                collectingAgents = false;
+                // An empty Disallow means "allow everything" and adds no rule.
+                if (current && value) current.rules.push({ allow: field === 'allow', path: value });
+                break;
+            case 'crawl-delay':
+                collectingAgents = false;
+                if (current && !Number.isNaN(Number(value))) current.crawlDelay = Number(value);
+                break;
+            case 'sitemap':
+                try {
+                    sitemaps.push(new URL(value, baseUrl).href);
+                } catch (e) {
+                    console.warn(`Invalid Sitemap URL in robots.txt: ${value}`);
+                }
+                break;
+        }
+    }
+
+    return { groups, sitemaps };
+}
+
+/**
+ * Tells whether a robots.txt path pattern matches a URL path, returning the match
+ * length used for precedence (or -1 when it doesn't match).
+ */
+function matchLength(pattern: string, path: string): number {
+    const anchored = pattern.endsWith('$');
+    const body = anchored ? pattern.slice(0, -1) : pattern;
+    const regex = new RegExp('^' + body.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*') + (anchored ? '$' : ''));
+    return regex.test(path) ? body.length : -1;
+}
+
+/**
+ * Selects the group that applies to a user agent and returns a policy for it.
+ * A group applies when one of its product tokens appears in the user agent string;
+ * otherwise the `*` group is used. No matching group means everything is allowed.
+ * @param robots The parsed robots.txt.
+ * @param userAgent The User-Agent the requests are sent with.
+ */
+export function getRobotsPolicy(robots: RobotsTxt, userAgent: string): RobotsPolicy {
+    const ua = userAgent.toLowerCase();
+    const specific = robots.groups.filter(g => g.userAgents.some(token => token !== '*' && ua.includes(token)));
+    const applicable = specific.length > 0 ? specific : robots.groups.filter(g => g.userAgents.includes('*'));
+    const rules = applicable.flatMap(g => g.rules);
+    const crawlDelay = applicable.map(g => g.crawlDelay).find(d => d !== undefined);
+
+    return {
+        isAllowed: (url: string) => {
+            const { pathname, search } = new URL(url);
+            const path = pathname + search;
+            let best: { length: number; allow: boolean } = { length: -1, allow: true };
+            for (const rule of rules) {
+                const length = matchLength(rule.path, path);
+                // Longest match wins; on a tie, Allow wins.
+                if (length > best.length || (length === best.length && rule.allow)) {
+                    best = { length, allow: rule.allow };
+                }
+            }
+            return best.length === -1 || best.allow;
+        },
+        crawlDelayMs: crawlDelay !== undefined ? crawlDelay * 1000 : undefined,
+    };
+}
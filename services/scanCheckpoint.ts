@@ -0,0 +1,136 @@
+// Periodic checkpoints of a running V2 scan, so a crash or reload doesn't lose the crawl.
+// The queue, processed set, network log and crawler state are kept in one metadata record;
+// downloaded files are appended in chunks, each written before the metadata that counts it.
+
+import { InternalLink, NetworkLogEntry, ScanOptions } from '../types';
+import { clearCheckpoint, getCheckpointRecord, setCheckpointRecord } from '../utils/idb';
+
+const META_KEY = 'meta';
+const fileChunkKey = (index: number) => `files:${index}`;
+
+export interface CheckpointFile {
+    url: string;
+    path: string;
+    contentType: string;
+    blob: Blob;
+}
+
+export interface PageCrawlerState {
+    links: InternalLink[];
+    pageDepths: [string, number][];
+}
+
+// The parts of the scan options that can be stored; transport and control belong to the session.
+export type CheckpointOptions = Pick<ScanOptions, 'headers' | 'userAgent' | 'crawl' | 'politeness' | 'scope'>;
+
+export interface ScanProgressState {
+    queue: { url: string; initiator: string }[]; // Includes jobs that were in flight.
+    processedUrls: string[];
+    networkLog: NetworkLogEntry[];
+    failedUrls: string[];
+    downloadedCount: number;
+    crawler: PageCrawlerState;
+}
+
+export interface ScanCheckpoint extends ScanProgressState {
+    version: 1;
+    rootUrl: string;
+    options: CheckpointOptions;
+    fileChunks: number;
+    updatedAt: number;
+}
+
+export interface CheckpointWriter {
+    /** Buffers a downloaded file until the next save. */
+    addFile: (file: CheckpointFile) => void;
+    /** Writes the buffered files and the given progress. Overlapping calls are skipped. */
+    save: (state: ScanProgressState) => Promise<void>;
+}
+
+// Saves and clears are chained so a clear never lands before a save that started earlier.
+let writeChain: Promise<void> = Promise.resolve();
+
+const enqueueWrite = (write: () => Promise<void>): Promise<void> => {
+    writeChain = writeChain.then(write, write);
+    return writeChain;
+};
+
+/**
+ * Creates the checkpoint writer of a scan.
+ * @param rootUrl The scanned URL.
+ * @param options The scan options.
+ * @param resumeFrom The checkpoint being resumed. Without it, any older checkpoint is
+ * discarded on the first save.
+ */
+export function createCheckpointWriter(rootUrl: string, options: ScanOptions, resumeFrom?: ScanCheckpoint): CheckpointWriter {
+    const storedOptions: CheckpointOptions = {
+        headers: options.headers,
+        userAgent: options.userAgent,
+        crawl: options.crawl,
+        politeness: options.politeness,
+        scope: options.scope,
+    };
+    const pendingFiles: CheckpointFile[] = [];
+    let fileChunks = resumeFrom?.fileChunks ?? 0;
+    let started = !!resumeFrom;
+    let saving = false;
+
+    const write = async (state: ScanProgressState) => {
+        if (!started) {
+            await clearCheckpoint();
+            started = true;
+        }
+        const files = pendingFiles.splice(0);
+        if (files.length > 0) {
+            try {
+                await setCheckpointRecord(fileChunkKey(fileChunks), files);
+            } catch (e) {
+                pendingFiles.unshift(...files);
+                throw e;
+            }
+            fileChunks++;
+        }
+        const checkpoint: ScanCheckpoint = { ...state, version: 1, rootUrl, options: storedOptions, fileChunks, updatedAt: Date.now() };
+        await setCheckpointRecord(META_KEY, checkpoint);
+    };
+
+    return {
+        addFile: (file: CheckpointFile) => {
+            pendingFiles.push(file);
+        },
+        save: async (state: ScanProgressState) => {
+            if (saving) return;
+            saving = true;
+            try {
+                await enqueueWrite(() => write(state));
+            } finally {
+                saving = false;
+            }
+        },
+    };
+}
+
+/**
+ * Returns the checkpoint of an interrupted scan, if there is one.
+ */
+export async function loadScanCheckpoint(): Promise<ScanCheckpoint | null> {
+    const checkpoint = await getCheckpointRecord<ScanCheckpoint>(META_KEY);
+    return checkpoint?.version === 1 ? checkpoint : null;
+}
+
+/**
+ * Reads back the files saved with a checkpoint.
+ * @param checkpoint The checkpoint whose files to load.
+ */
+export async function loadCheckpointFiles(checkpoint: ScanCheckpoint): Promise<CheckpointFile[]> {
+    const files: CheckpointFile[] = [];
+    for (let i = 0; i < checkpoint.fileChunks; i++) {
+        files.push(...(await getCheckpointRecord<CheckpointFile[]>(fileChunkKey(i)) || []));
+    }
+    return files;
+}
+
+/**
+ * Discards the saved checkpoint, after any save that is still being written.
+ */
+export const clearScanCheckpoint = (): Promise<void> => enqueueWrite(clearCheckpoint);
@@ -0,0 +1,51 @@
+// Pause/resume/cancel state for a running scan. The UI keeps the controller; the downloader
+// only sees the ScanControl side of it.
+
+import { ScanControl } from '../types';
+
+export interface ScanController extends ScanControl {
+    pause: () => void;
+    resume: () => void;
+    cancel: () => void;
+}
+
+export function createScanController(): ScanController {
+    const abortController = new AbortController();
+    const listeners = new Set<() => void>();
+    let paused = false;
+
+    const notifyResume = () => listeners.forEach(listener => listener());
+    abortController.signal.addEventListener('abort', notifyResume);
+
+    return {
+        signal: abortController.signal,
+        isPaused: () => paused && !abortController.signal.aborted,
+        whenResumed: () => new Promise<void>(resolve => {
+            if (!paused || abortController.signal.aborted) {
+                resolve();
+                return;
+            }
+            const listener = () => {
+                listeners.delete(listener);
+                resolve();
+            };
+            listeners.add(listener);
+        }),
+        onResume: (listener: () => void) => {
+            listeners.add(listener);
+            return () => {
+                listeners.delete(listener);
+            };
+        },
+        pause: () => {
+            paused = true;
+        },
+        resume: () => {
+            if (!paused) return;
+            paused = false;
+            notifyResume();
+        },
+        cancel: () => abortController.abort(),
+    };
+}
+
@@ -0,0 +1,87 @@
+// Scope rules for a scan: which origins count as the site itself, include/exclude URL
+// patterns, what to do with third-party assets and how large a single asset may be.
+
+import { ScopeOptions } from '../types';
+
+export const DEFAULT_SCOPE_OPTIONS: ScopeOptions = {
+    allowedOrigins: [],
+    include: [],
+    exclude: [],
+    thirdPartyPolicy: 'download',
+    maxAssetSizeKb: 0,
+};
+
+// 'list' keeps the URL in the Network tab without fetching it.
+export type ScopeDecision = 'download' | 'list' | 'skip';
+
+export interface ScopeFilter {
+    decide: (url: string) => ScopeDecision;
+    isTooLarge: (size: number) => boolean;
+    maxAssetBytes: number; // Infinity when there is no limit.
+}
+
+/**
+ * Compiles a user pattern into a RegExp. `/.../flags` is taken as a regular expression;
+ * anything else is a glob matched against the full URL, where `*` matches any run of
+ * characters and `?` a single one.
+ */
+export function compileScopePattern(pattern: string): RegExp | null {
+    const trimmed = pattern.trim();
+    if (!trimmed) return null;
+    const regexMatch = trimmed.match(/^\/(.+)\/([a-z]*)$/);
+    try {
+        if (regexMatch) return new RegExp(regexMatch[1], regexMatch[2]);
+        const source = trimmed
+            .split('')
+            .map(char => (char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\/]/g, '\\$&')))
+            .join('');
+        return new RegExp(`^${source}$`, 'i');
+    } catch (e) {
+        console.warn(`Ignoring invalid scope pattern: ${pattern}`, e);
+        return null;
+    }
+}
+
+const normalizeOrigin = (origin: string): string | null => {
+    const trimmed = origin.trim();
+    if (!trimmed) return null;
+    try {
+        return new URL(trimmed.includes('://') ? trimmed : `https://${trimmed}`).origin;
+    } catch (e) {
+        return null;
+    }
+};
+
+/**
+ * Builds the scope filter of a scan. Exclude patterns win over include patterns; when
+ * include patterns are given, a URL must match one of them to be downloaded.
+ * @param rootUrl The URL being scanned. Its origin is always first-party.
+ * @param scope The scope options. When omitted, everything is downloaded.
+ */
+export function createScopeFilter(rootUrl: string, scope?: ScopeOptions): ScopeFilter {
+    const options = scope || DEFAULT_SCOPE_OPTIONS;
+    const firstPartyOrigins = new Set([new URL(rootUrl).origin]);
+    options.allowedOrigins.forEach(origin => {
+        const normalized = normalizeOrigin(origin);
+        if (normalized) firstPartyOrigins.add(normalized);
+    });
+    const include = options.include.map(compileScopePattern).filter((re): re is RegExp => re !== null);
+    const exclude = options.exclude.map(compileScopePattern).filter((re): re is RegExp => re !== null);
+    const maxBytes = options.maxAssetSizeKb > 0 ? options.maxAssetSizeKb * 1024 : Infinity;
+
+    return {
+        decide: (url: string) => {
+            if (exclude.some(re => re.test(url))) return 'skip';
+            if (include.length > 0 && !include.some(re => re.test(url))) return 'skip';
+            let origin: string;
+            try {
+                origin = new URL(url).origin;
+            } catch (e) {
+                return 'skip';
+            }
+            return firstPartyOrigins.has(origin) ? 'download' : options.thirdPartyPolicy;
+        },
+        isTooLarge: (size: number) => size > maxBytes,
+        maxAssetBytes: maxBytes,
+    };
+}
@@ -0,0 +1,206 @@
+// Portable session archives (.wpi), so an inspection can be shared and opened in another browser.
+// An archive is a zip with a versioned manifest, the source zip as saved, and one JSON file per
+// part of the session (network log, internal links, warnings, security findings, AI analysis).
+
+import { AppPhase, InternalLink, NetworkLogEntry, RefreshSummary, ScanOptions } from '../types';
+import { ScanResult } from '../features/security/types';
+
+declare const JSZip: any;
+
+/** A session as it is stored in IndexedDB. */
+export interface SavedSession {
+    id: string;
+    url: string;
+    phase: AppPhase;
+    siteName: string;
+    scanResult: {
+        zipAsBlob: Blob;
+        networkLog: NetworkLogEntry[];
+        internalLinks: InternalLink[];
+        refresh?: RefreshSummary;
+        analysis?: Record<string, any>; // AI analysis results by Analysis tab.
+        security?: ScanResult;
+    };
+    scanOptions: ScanOptions | null;
+    failedDownloads: string[];
+    warnings: { url: string; message: string }[];
+    retryAttempt: number;
+    timestamp: number;
+}
+
+export interface SessionArchiveManifest {
+    format: typeof ARCHIVE_FORMAT;
+    version: number;
+    exportedAt: number;
+    url: string;
+    siteName: string;
+    timestamp: number; // When the session was scanned.
+    phase: AppPhase;
+    retryAttempt: number;
+    scanOptions: ScanOptions | null;
+    failedDownloads: string[];
+    refresh?: RefreshSummary;
+}
+
+export const SESSION_ARCHIVE_EXTENSION = '.wpi';
+
+const ARCHIVE_FORMAT = 'web-inspector-session';
+// Bump when the layout changes in a way older versions can't read.
+const ARCHIVE_VERSION = 1;
+
+const ENTRIES = {
+    manifest: 'manifest.json',
+    source: 'source.zip',
+    networkLog: 'network-log.json',
+    internalLinks: 'internal-links.json',
+    warnings: 'warnings.json',
+    security: 'security.json',
+    analysis: 'analysis.json',
+};
+
+const isObject = (value: unknown): value is Record<string, any> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Packs a saved session into a .wpi archive.
+ * @param session The session to export.
+ */
+export async function exportSessionArchive(session: SavedSession): Promise<Blob> {
+    const manifest: SessionArchiveManifest = {
+        format: ARCHIVE_FORMAT,
+        version: ARCHIVE_VERSION,
+        exportedAt: Date.now(),
+        url: session.url,
+        siteName: session.siteName,
+        timestamp: session.timestamp,
+        phase: session.phase,
+        retryAttempt: session.retryAttempt,
+        scanOptions: session.scanOptions,
+        failedDownloads: session.failedDownloads,
+        refresh: session.scanResult.refresh,
+    };
+
+    const archive = new JSZip();
+    archive.file(ENTRIES.manifest, JSON.stringify(manifest, null, 2));
+    // Already compressed, so it is stored as is.
+    archive.file(ENTRIES.source, session.scanResult.zipAsBlob, { compression: 'STORE' });
+    archive.file(ENTRIES.networkLog, JSON.stringify(session.scanResult.networkLog));
+    archive.file(ENTRIES.internalLinks, JSON.stringify(session.scanResult.internalLinks));
+    archive.file(ENTRIES.warnings, JSON.stringify(session.warnings));
+    if (session.scanResult.security) archive.file(ENTRIES.security, JSON.stringify(session.scanResult.security));
+    if (session.scanResult.analysis) archive.file(ENTRIES.analysis, JSON.stringify(session.scanResult.analysis));
+    return archive.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+}
+
+// Resolves to undefined for optional entries that aren't in the archive.
+async function readJson(archive: any, name: string, required: boolean): Promise<unknown> {
+    const entry = archive.file(name);
+    if (!entry) {
+        if (required) throw new Error(`The archive is missing ${name}.`);
+        return undefined;
+    }
+    try {
+        return JSON.parse(await entry.async('text'));
+    } catch (e) {
+        throw new Error(`${name} in the archive is not valid JSON.`);
+    }
+}
+
+function validateManifest(manifest: unknown): SessionArchiveManifest {
+    if (!isObject(manifest) || manifest.format !== ARCHIVE_FORMAT) {
+        throw new Error('The file is not a Website Source Inspector session archive.');
+    }
+    if (typeof manifest.version !== 'number' || manifest.version < 1) {
+        throw new Error('The archive manifest has no valid version.');
+    }
+    if (manifest.version > ARCHIVE_VERSION) {
+        throw new Error(`The archive was exported by a newer version of the app (format v${manifest.version}, this one reads up to v${ARCHIVE_VERSION}).`);
+    }
+    if (typeof manifest.url !== 'string' || !/^https?:\/\//i.test(manifest.url)) {
+        throw new Error('The archive manifest has no valid URL.');
+    }
+    if (typeof manifest.siteName !== 'string' || typeof manifest.timestamp !== 'number') {
+        throw new Error('The archive manifest is missing the site name or the scan time.');
+    }
+    return manifest as SessionArchiveManifest;
+}
+
+function validateNetworkLog(networkLog: unknown): NetworkLogEntry[] {
+    if (!Array.isArray(networkLog)) throw new Error(`${ENTRIES.networkLog} is not a list of requests.`);
+    const invalid = networkLog.findIndex(entry =>
+        !isObject(entry) || typeof entry.url !== 'string' || typeof entry.status !== 'number' || typeof entry.contentType !== 'string'
+    );
+    if (invalid !== -1) throw new Error(`Request #${invalid + 1} in ${ENTRIES.networkLog} is missing its URL, status or content type.`);
+    return networkLog as NetworkLogEntry[];
+}
+
+function validateInternalLinks(internalLinks: unknown): InternalLink[] {
+    if (!Array.isArray(internalLinks) || internalLinks.some(link => !isObject(link) || typeof link.url !== 'string')) {
+        throw new Error(`${ENTRIES.internalLinks} is not a list of links.`);
+    }
+    return internalLinks as InternalLink[];
+}
+
+function validateWarnings(warnings: unknown): { url: string; message: string }[] {
+    if (!Array.isArray(warnings) || warnings.some(warning => !isObject(warning) || typeof warning.message !== 'string')) {
+        throw new Error(`${ENTRIES.warnings} is not a list of warnings.`);
+    }
+    return warnings as { url: string; message: string }[];
+}
+
+function validateSecurity(security: unknown): ScanResult | undefined {
+    if (security === undefined) return undefined;
+    if (!isObject(security) || !Array.isArray(security.findings) || !Array.isArray(security.headerCheck)) {
+        throw new Error(`${ENTRIES.security} is not a security scan result.`);
+    }
+    return security as ScanResult;
+}
+
+function validateAnalysis(analysis: unknown): Record<string, any> | undefined {
+    if (analysis === undefined) return undefined;
+    if (!isObject(analysis)) throw new Error(`${ENTRIES.analysis} is not an analysis cache.`);
+    return analysis;
+}
+
+/**
+ * Reads and validates a .wpi archive. Throws an Error describing the first problem found.
+ * The returned session has no id yet; the caller assigns one when saving it.
+ * @param file The archive file.
+ */
+export async function importSessionArchive(file: Blob): Promise<Omit<SavedSession, 'id'>> {
+    let archive: any;
+    try {
+        archive = await JSZip.loadAsync(file);
+    } catch (e) {
+        throw new Error('The file is not a Website Source Inspector session archive (it could not be opened as a zip).');
+    }
+
+    const manifest = validateManifest(await readJson(archive, ENTRIES.manifest, true));
+    const source = archive.file(ENTRIES.source);
+    if (!source) throw new Error(`The archive is missing ${ENTRIES.source}.`);
+    const zipAsBlob: Blob = await source.async('blob');
+    try {
+        await JSZip.loadAsync(zipAsBlob);
+    } catch (e) {
+        throw new Error(`${ENTRIES.source} in the archive is corrupted.`);
+    }
+
+    const networkLog = validateNetworkLog(await readJson(archive, ENTRIES.networkLog, true));
+    const internalLinks = validateInternalLinks(await readJson(archive, ENTRIES.internalLinks, true));
+    const warnings = validateWarnings(await readJson(archive, ENTRIES.warnings, true));
+    const security = validateSecurity(await readJson(archive, ENTRIES.security, false));
+    const analysis = validateAnalysis(await readJson(archive, ENTRIES.analysis, false));
+
+    return {
+        url: manifest.url,
+        // Only finished sessions are exported, but the phase is checked anyway before it's restored.
+        phase: manifest.phase === 'post-download-prompt' ? 'post-download-prompt' : 'viewing',
+        siteName: manifest.siteName,
+        scanResult: { zipAsBlob, networkLog, internalLinks, refresh: manifest.refresh, analysis, security },
+        scanOptions: isObject(manifest.scanOptions) ? manifest.scanOptions as ScanOptions : null,
+        failedDownloads: Array.isArray(manifest.failedDownloads) ? manifest.failedDownloads.filter((url: unknown) => typeof url === 'string') : [],
+        warnings,
+        retryAttempt: typeof manifest.retryAttempt === 'number' ? manifest.retryAttempt : 0,
+        timestamp: manifest.timestamp,
+    };
+}
@@ -0,0 +1,181 @@
+// Compares two saved sessions of a site: files added, removed or modified (matched by URL
+// through the path manifests), new network requests and third-party origins, and changes in
+// security headers, saved security findings and the detected tech stack.
+
+import { NetworkLogEntry, TechStack } from '../types';
+import { Finding, ScanResult, SecurityHeaderInfo } from '../features/security/types';
+import { evaluateSecurityHeaders } from '../features/security/headerCheck';
+import { loadPathMapper, MANIFEST_PATH } from './pathMapper';
+import { findRootUrl } from './downloader';
+import { bytesEqual } from '../utils/fileUtils';
+
+export interface SessionSnapshot {
+    url: string;
+    timestamp: number;
+    zip: any;
+    networkLog: NetworkLogEntry[];
+    security?: ScanResult; // The last security scan run on the session, if any.
+    techStack?: TechStack; // From the Analysis tab, if it was opened.
+}
+
+export type FileChangeStatus = 'added' | 'removed' | 'modified';
+
+export interface FileChange {
+    status: FileChangeStatus;
+    path: string; // In the newer session's zip, or in the older one for removed files.
+    previousPath?: string; // In the older session's zip, for modified files.
+    url?: string; // Absent for files that aren't in a path manifest.
+}
+
+export interface HeaderChange {
+    header: string;
+    before?: SecurityHeaderInfo;
+    after?: SecurityHeaderInfo;
+}
+
+export interface TechStackChange {
+    category: keyof TechStack;
+    added: string[];
+    removed: string[];
+}
+
+export interface SessionDiff {
+    before: SessionSnapshot;
+    after: SessionSnapshot;
+    files: FileChange[];
+    newRequests: NetworkLogEntry[];
+    newThirdPartyOrigins: string[];
+    removedThirdPartyOrigins: string[];
+    headerChanges: HeaderChange[] | null; // Null when one of the sessions has no captured headers.
+    findings: { added: Finding[]; resolved: Finding[] } | null; // Null unless both sessions were scanned.
+    techStack: TechStackChange[] | null; // Null unless both sessions were analyzed.
+}
+
+const TECH_STACK_CATEGORIES: (keyof TechStack)[] = ['jsFrameworks', 'cssFrameworks', 'buildTools', 'fonts'];
+
+/**
+ * Indexes the files of a session by URL, falling back to the zip path for files that
+ * aren't in the manifest (e.g. sessions saved before it existed).
+ */
+async function indexFiles(snapshot: SessionSnapshot): Promise<Map<string, { path: string; url?: string }>> {
+    const manifest = (await loadPathMapper(snapshot.zip, snapshot.url)).getManifest();
+    const index = new Map<string, { path: string; url?: string }>();
+    const mappedPaths = new Set<string>();
+    manifest.files.forEach(entry => {
+        if (!snapshot.zip.file(entry.path)) return;
+        index.set(entry.url, { path: entry.path, url: entry.url });
+        mappedPaths.add(entry.path);
+    });
+    Object.keys(snapshot.zip.files)
+        .filter(name => !snapshot.zip.files[name].dir && name !== MANIFEST_PATH && !mappedPaths.has(name))
+        .forEach(name => index.set(`path:${name}`, { path: name }));
+    return index;
+}
+
+async function diffFiles(before: SessionSnapshot, after: SessionSnapshot): Promise<FileChange[]> {
+    const [beforeFiles, afterFiles] = await Promise.all([indexFiles(before), indexFiles(after)]);
+    const changes: FileChange[] = [];
+
+    for (const [key, file] of afterFiles) {
+        const previous = beforeFiles.get(key);
+        if (!previous) {
+            changes.push({ status: 'added', ...file });
+            continue;
+        }
+        const [previousBytes, bytes] = await Promise.all([
+            before.zip.file(previous.path).async('uint8array'),
+            after.zip.file(file.path).async('uint8array'),
+        ]);
+        if (!bytesEqual(previousBytes, bytes)) {
+            changes.push({ status: 'modified', ...file, previousPath: previous.path });
+        }
+    }
+    for (const [key, file] of beforeFiles) {
+        if (!afterFiles.has(key)) changes.push({ status: 'removed', ...file });
+    }
+    return changes.sort((x, y) => x.path.localeCompare(y.path));
+}
+
+const rootOrigin = (snapshot: SessionSnapshot): string => {
+    const rootUrl = findRootUrl(snapshot.networkLog, snapshot.url);
+    try {
+        return new URL(rootUrl).origin;
+    } catch (e) {
+        return '';
+    }
+};
+
+function thirdPartyOrigins(snapshot: SessionSnapshot): Set<string> {
+    const own = rootOrigin(snapshot);
+    const origins = new Set<string>();
+    snapshot.networkLog.forEach(entry => {
+        try {
+            const origin = new URL(entry.url).origin;
+            if (origin !== own) origins.add(origin);
+        } catch (e) { /* Not a URL; nothing to count. */ }
+    });
+    return origins;
+}
+
+function diffHeaders(before: SessionSnapshot, after: SessionSnapshot): HeaderChange[] | null {
+    const beforeCheck = evaluateSecurityHeaders(before.networkLog).headerCheck;
+    const afterCheck = evaluateSecurityHeaders(after.networkLog).headerCheck;
+    if (beforeCheck.length === 0 || afterCheck.length === 0) return null;
+
+    const describe = (info?: SecurityHeaderInfo) => JSON.stringify([info?.present, info?.value, info?.issues || []]);
+    const headers = Array.from(new Set([...beforeCheck, ...afterCheck].map(info => info.header)));
+    return headers
+        .map(header => ({ header, before: beforeCheck.find(info => info.header === header), after: afterCheck.find(info => info.header === header) }))
+        .filter(change => describe(change.before) !== describe(change.after));
+}
+
+// Line numbers are left out so findings that only moved within a file still match.
+const findingKey = (finding: Finding) => [finding.sourceModule, finding.findingType, finding.title, finding.filePath].join('|');
+
+function diffFindings(before: SessionSnapshot, after: SessionSnapshot): SessionDiff['findings'] {
+    if (!before.security || !after.security) return null;
+    const beforeKeys = new Set(before.security.findings.map(findingKey));
+    const afterKeys = new Set(after.security.findings.map(findingKey));
+    return {
+        added: after.security.findings.filter(finding => !beforeKeys.has(findingKey(finding))),
+        resolved: before.security.findings.filter(finding => !afterKeys.has(findingKey(finding))),
+    };
+}
+
+function diffTechStack(before: SessionSnapshot, after: SessionSnapshot): TechStackChange[] | null {
+    if (!before.techStack || !after.techStack) return null;
+    return TECH_STACK_CATEGORIES
+        .map(category => {
+            const previous = before.techStack![category] || [];
+            const current = after.techStack![category] || [];
+            return {
+                category,
+                added: current.filter(item => !previous.includes(item)),
+                removed: previous.filter(item => !current.includes(item)),
+            };
+        })
+        .filter(change => change.added.length > 0 || change.removed.length > 0);
+}
+
+/**
+ * Compares two sessions.
+ * @param before The older session.
+ * @param after The newer session.
+ */
+export async function diffSessions(before: SessionSnapshot, after: SessionSnapshot): Promise<SessionDiff> {
+    const previousUrls = new Set(before.networkLog.map(entry => entry.url));
+    const beforeOrigins = thirdPartyOrigins(before);
+    const afterOrigins = thirdPartyOrigins(after);
+
+    return {
+        before,
+        after,
+        files: await diffFiles(before, after),
+        newRequests: after.networkLog.filter(entry => !previousUrls.has(entry.url)),
+        newThirdPartyOrigins: Array.from(afterOrigins).filter(origin => !beforeOrigins.has(origin)).sort(),
+        removedThirdPartyOrigins: Array.from(beforeOrigins).filter(origin => !afterOrigins.has(origin)).sort(),
+        headerChanges: diffHeaders(before, after),
+        findings: diffFindings(before, after),
+        techStack: diffTechStack(before, after),
+    };
+}
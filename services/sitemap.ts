@@ -0,0 +1,126 @@
+// Sitemap discovery: reads the sitemaps advertised in robots.txt plus the conventional
+// /sitemap.xml, following sitemap index files and transparently un-gzipping .xml.gz files.
+
+export interface SitemapEntry {
+    url: string;
+    sitemap: string; // The sitemap file that listed the URL.
+    lastmod?: string;
+    priority?: number;
+}
+
+// Large sites split their sitemaps into hundreds of files; we only need a representative list.
+const MAX_SITEMAP_FILES = 25;
+const MAX_SITEMAP_URLS = 5000;
+
+/**
+ * Decodes a sitemap response body, decompressing it when it is gzipped. Servers often
+ * decompress .gz files on the fly, so the gzip magic bytes are checked rather than the extension.
+ */
+async function readSitemapBody(response: Response): Promise<string> {
+    const buffer = await response.arrayBuffer();
+    const bytes = new Uint8Array(buffer);
+    if (bytes.length > 2 && bytes[0] === 0x1f && bytes[1] === 0x8b) {
+        const stream = new Blob([buffer]).stream().pipeThrough(new DecompressionStream('gzip'));
+        return new Response(stream).text();
+    }
+    return new TextDecoder().decode(buffer);
+}
+
+const childText = (parent: Element, name: string): string | undefined => {
+    const child = parent.getElementsByTagNameNS('*', name)[0];
+    const text = child?.textContent?.trim();
+    return text || undefined;
+};
+
+/**
+ * Parses a sitemap or sitemap index. Plain-text sitemaps (one URL per line) are supported too.
+ * @param content The decoded sitemap body.
+ * @param sitemapUrl The URL of the sitemap, used to resolve relative locations.
+ * @returns The page entries it lists and the child sitemaps of an index file.
+ */
+export function parseSitemap(content: string, sitemapUrl: string): { entries: SitemapEntry[]; sitemaps: string[] } {
+    const entries: SitemapEntry[] = [];
+    const sitemaps: string[] = [];
+    const resolve = (loc: string) => {
+        try {
+            return new URL(loc, sitemapUrl).href;
+        } catch (e) {
+            return null;
+        }
+    };
+
+    if (!content.trimStart().startsWith('<')) {
+        content.split(/\r?\n/).forEach(line => {
+            const url = /^https?:\/\//i.test(line.trim()) ? resolve(line.trim()) : null;
+            if (url) entries.push({ url, sitemap: sitemapUrl });
+        });
+        return { entries, sitemaps };
+    }
+
+    const doc = new DOMParser().parseFromString(content, 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) {
+        console.warn(`Could not parse sitemap ${sitemapUrl}.`);
+        return { entries, sitemaps };
+    }
+
+    Array.from(doc.getElementsByTagNameNS('*', 'sitemap')).forEach(node => {
+        const loc = childText(node, 'loc');
+        const url = loc ? resolve(loc) : null;
+        if (url) sitemaps.push(url);
+    });
+
+    Array.from(doc.getElementsByTagNameNS('*', 'url')).forEach(node => {
+        const loc = childText(node, 'loc');
+        const url = loc ? resolve(loc) : null;
+        if (!url) return;
+        const priority = parseFloat(childText(node, 'priority') || '');
+        entries.push({
+            url,
+            sitemap: sitemapUrl,
+            lastmod: childText(node, 'lastmod'),
+            priority: isNaN(priority) ? undefined : priority,
+        });
+    });
+
+    return { entries, sitemaps };
+}
+
+/**
+ * Collects the page URLs listed in a site's sitemaps. Only URLs on the site's own origin are kept.
+ * @param rootUrl The URL being scanned.
+ * @param robotsSitemaps The sitemaps declared with `Sitemap:` lines in robots.txt.
+ * @param fetchSitemap Fetches a sitemap file, so the caller can apply its transport and rate limits.
+ */
+export async function discoverSitemapEntries(
+    rootUrl: string,
+    robotsSitemaps: string[],
+    fetchSitemap: (url: string) => Promise<Response>
+): Promise<SitemapEntry[]> {
+    const origin = new URL(rootUrl).origin;
+    const queue = Array.from(new Set([...robotsSitemaps, `${origin}/sitemap.xml`]));
+    const visited = new Set<string>();
+    const entries = new Map<string, SitemapEntry>();
+
+    while (queue.length > 0 && visited.size < MAX_SITEMAP_FILES && entries.size < MAX_SITEMAP_URLS) {
+        const sitemapUrl = queue.shift()!;
+        if (visited.has(sitemapUrl)) continue;
+        visited.add(sitemapUrl);
+
+        try {
+            const response = await fetchSitemap(sitemapUrl);
+            if (!response.ok) continue;
+            const parsed = parseSitemap(await readSitemapBody(response), sitemapUrl);
+            queue.push(...parsed.sitemaps);
+            for (const entry of parsed.entries) {
+                if (entries.size >= MAX_SITEMAP_URLS) break;
+                if (new URL(entry.url).origin === origin && !entries.has(entry.url)) {
+                    entries.set(entry.url, entry);
+                }
+            }
+        } catch (e) {
+            console.warn(`Could not read sitemap ${sitemapUrl}.`, e);
+        }
+    }
+
+    return Array.from(entries.values());
+}
@@ -0,0 +1,215 @@
+// Builds an offline-browsable copy of a scan. References in HTML, CSS and JS are rewritten
+// from their original URLs to relative paths inside the zip, using the path manifest written
+// by the downloader. References to files that were not downloaded are kept and marked.
+
+import { loadPathMapper, MANIFEST_PATH, PathManifestEntry } from './pathMapper';
+
+declare const JSZip: any;
+
+export const UNRESOLVED_REPORT_PATH = '_inspector/unresolved.json';
+
+// Marker added to HTML elements whose reference could not be mapped to a local file.
+const UNRESOLVED_ATTRIBUTE = 'data-snapshot-unresolved';
+
+const URL_ATTRIBUTE_REGEX = /(\s(?:src|href|poster|data|action|data-src)\s*=\s*)(["'])(.*?)\2/gi;
+const SRCSET_ATTRIBUTE_REGEX = /(\s(?:srcset|data-srcset)\s*=\s*)(["'])(.*?)\2/gi;
+const STYLE_ATTRIBUTE_REGEX = /(\sstyle\s*=\s*)(["'])(.*?)\2/gi;
+const STYLE_BLOCK_REGEX = /(<style\b[^>]*>)([\s\S]*?)(<\/style>)/gi;
+const INLINE_SCRIPT_REGEX = /(<script\b(?![^>]*\ssrc\s*=)[^>]*>)([\s\S]*?)(<\/script>)/gi;
+const TAG_REGEX = /<[a-z][^>]*>/gi;
+const BASE_TAG_REGEX = /<base\b[^>]*\bhref\s*=\s*(["'])(.*?)\1[^>]*>/i;
+const CSS_REFERENCE_REGEX = /url\(\s*(['"]?)(.*?)\1\s*\)|(@import\s*)(['"])(.*?)\4/g;
+const JS_STRING_URL_REGEX = /(['"`])((?:https?:)?\/\/[^\s'"`]+|\.\.?\/[^\s'"`]+|\/[^\s'"`]+)\1/g;
+// Static and dynamic imports, re-exports and `new URL(x, import.meta.url)`: the strings a script resolves against itself.
+const JS_MODULE_SPECIFIER_REGEX = /(\bimport\s*\(\s*|\bimport\s+|\bfrom\s*|\bnew\s+URL\s*\(\s*)(['"`])([^'"`\s]+)\2(\s*,\s*import\.meta\.url\b)?/g;
+
+export interface UnresolvedReference {
+    file: string; // Zip path of the file containing the reference.
+    reference: string;
+}
+
+interface RewriteContext {
+    filePath: string;
+    baseUrl: string;
+    urlToPath: Map<string, string>;
+    unresolved: UnresolvedReference[];
+}
+
+/**
+ * Returns the path of `toPath` relative to the folder of `fromPath`, both zip paths.
+ */
+export function relativeZipPath(fromPath: string, toPath: string): string {
+    const fromDirs = fromPath.split('/').slice(0, -1);
+    const toParts = toPath.split('/');
+    let common = 0;
+    while (common < fromDirs.length && common < toParts.length - 1 && fromDirs[common] === toParts[common]) {
+        common++;
+    }
+    const ups = fromDirs.length - common;
+    return '../'.repeat(ups) + toParts.slice(common).join('/');
+}
+
+const isSkippableReference = (reference: string): boolean =>
+    !reference || /^(data:|blob:|javascript:|mailto:|tel:|about:|#)/i.test(reference.trim());
+
+/**
+ * Maps a reference found in a file to its local relative path.
+ * @returns The relative path (keeping any fragment), or null when the target wasn't downloaded.
+ */
+function resolveReference(reference: string, context: RewriteContext): string | null {
+    let url: URL;
+    try {
+        url = new URL(reference.trim(), context.baseUrl);
+    } catch (e) {
+        return null;
+    }
+    const hash = url.hash;
+    url.hash = '';
+    const targetPath = context.urlToPath.get(url.href);
+    if (!targetPath) return null;
+    return relativeZipPath(context.filePath, targetPath) + hash;
+}
+
+const escapeAttribute = (value: string) => value.replace(/"/g, '&quot;');
+const decodeAttribute = (value: string) => value.replace(/&amp;/g, '&').replace(/&quot;/g, '"').replace(/&#39;/g, "'");
+
+function rewriteCss(css: string, context: RewriteContext): string {
+    return css.replace(CSS_REFERENCE_REGEX, (match, quote, urlRef, importPrefix, importQuote, importRef) => {
+        const reference = urlRef ?? importRef;
+        if (isSkippableReference(reference)) return match;
+        const local = resolveReference(reference, context);
+        if (!local) {
+            context.unresolved.push({ file: context.filePath, reference });
+            return `${match}/* unresolved in snapshot */`;
+        }
+        return urlRef !== undefined ? `url(${quote}${local}${quote})` : `${importPrefix}${importQuote}${local}${importQuote}`;
+    });
+}
+
+/**
+ * Rewrites string literals that point at downloaded files, relative to `context.filePath`.
+ * Unlike HTML and CSS, strings that don't resolve are left alone, since most path-like strings
+ * in scripts are routes or API endpoints rather than files.
+ * Only inline scripts have every path-like string rewritten: a string used by `fetch`, `img.src`
+ * and the like resolves against the page, which is where an inline script sits. A script file
+ * may be loaded by pages in any folder, so only the strings it resolves against itself (module
+ * specifiers and `new URL(x, import.meta.url)`) are rewritten there; its other strings are kept.
+ * @param inline Whether the script is inline in the page the context describes.
+ */
+function rewriteJs(js: string, context: RewriteContext, inline: boolean): string {
+    if (inline) {
+        return js.replace(JS_STRING_URL_REGEX, (match, quote, reference) => {
+            const local = resolveReference(reference, context);
+            return local ? `${quote}${local}${quote}` : match;
+        });
+    }
+    return js.replace(JS_MODULE_SPECIFIER_REGEX, (match, prefix: string, quote, reference, metaUrl) => {
+        const isUrlConstructor = /^new\b/.test(prefix);
+        if (isUrlConstructor && !metaUrl) return match;
+        // Bare import specifiers (`react`) name packages, not files.
+        if (!isUrlConstructor && !/^(?:(?:https?:)?\/\/|\.\.?\/|\/)/.test(reference)) return match;
+        const local = resolveReference(reference, context);
+        if (!local) return match;
+        // Module specifiers must start with `./` or `../` to be read as paths.
+        const specifier = /^\.\.?\//.test(local) ? local : `./${local}`;
+        return `${prefix}${quote}${specifier}${quote}${metaUrl ?? ''}`;
+    });
+}
+
+function rewriteSrcset(srcset: string, context: RewriteContext): { value: string; unresolved: boolean } {
+    let unresolved = false;
+    const value = srcset.split(',').map(candidate => {
+        const [reference, ...descriptors] = candidate.trim().split(/\s+/);
+        if (isSkippableReference(reference)) return candidate.trim();
+        const local = resolveReference(reference, context);
+        if (!local) {
+            unresolved = true;
+            context.unresolved.push({ file: context.filePath, reference });
+            return candidate.trim();
+        }
+        return [local, ...descriptors].join(' ');
+    }).join(', ');
+    return { value, unresolved };
+}
+
+function rewriteHtml(html: string, context: RewriteContext): string {
+    // Honor a <base href> while resolving, then drop it so the relative paths work from disk.
+    const baseTag = html.match(BASE_TAG_REGEX);
+    if (baseTag) {
+        try {
+            context.baseUrl = new URL(decodeAttribute(baseTag[2]), context.baseUrl).href;
+        } catch (e) { /* Keep the document URL. */ }
+        html = html.replace(BASE_TAG_REGEX, '');
+    }
+
+    html = html.replace(STYLE_BLOCK_REGEX, (_, open, css, close) => open + rewriteCss(css, context) + close);
+    html = html.replace(INLINE_SCRIPT_REGEX, (_, open, js, close) => open + rewriteJs(js, context, true) + close);
+
+    return html.replace(TAG_REGEX, tag => {
+        let unresolved = false;
+        let rewritten = tag.replace(URL_ATTRIBUTE_REGEX, (match, prefix, quote, rawValue) => {
+            const reference = decodeAttribute(rawValue);
+            if (isSkippableReference(reference)) return match;
+            const local = resolveReference(reference, context);
+            if (!local) {
+                unresolved = true;
+                context.unresolved.push({ file: context.filePath, reference });
+                return match;
+            }
+            return `${prefix}${quote}${escapeAttribute(local)}${quote}`;
+        });
+        rewritten = rewritten.replace(SRCSET_ATTRIBUTE_REGEX, (_, prefix, quote, rawValue) => {
+            const result = rewriteSrcset(decodeAttribute(rawValue), context);
+            unresolved = unresolved || result.unresolved;
+            return `${prefix}${quote}${escapeAttribute(result.value)}${quote}`;
+        });
+        rewritten = rewritten.replace(STYLE_ATTRIBUTE_REGEX, (_, prefix, quote, rawValue) =>
+            `${prefix}${quote}${escapeAttribute(rewriteCss(decodeAttribute(rawValue), context))}${quote}`
+        );
+        if (unresolved && !rewritten.includes(UNRESOLVED_ATTRIBUTE)) {
+            rewritten = rewritten.replace(/^<[a-z][^\s/>]*/i, name => `${name} ${UNRESOLVED_ATTRIBUTE}`);
+        }
+        return rewritten;
+    });
+}
+
+const fileKind = (entry: PathManifestEntry): 'html' | 'css' | 'js' | null => {
+    const type = (entry.contentType || '').toLowerCase();
+    if (type.includes('html') || /\.html?$/i.test(entry.path)) return 'html';
+    if (type.includes('css') || /\.css$/i.test(entry.path)) return 'css';
+    if (type.includes('javascript') || type.includes('ecmascript') || /\.m?js$/i.test(entry.path)) return 'js';
+    return null;
+};
+
+/**
+ * Creates an offline snapshot of a scan's zip. The original zip is left untouched.
+ * @param zip The JSZip instance of the scan. It must contain the path manifest.
+ * @param rootUrl The scanned URL, used if the manifest is missing.
+ * @returns The snapshot zip and the references that could not be mapped to local files.
+ */
+export async function createOfflineSnapshot(zip: any, rootUrl: string): Promise<{ zip: any; unresolved: UnresolvedReference[] }> {
+    const manifest = (await loadPathMapper(zip, rootUrl)).getManifest();
+    const urlToPath = new Map(manifest.files.map(entry => [entry.url, entry.path]));
+    const entriesByPath = new Map(manifest.files.map(entry => [entry.path, entry]));
+    const snapshot = new JSZip();
+    const unresolved: UnresolvedReference[] = [];
+
+    const fileNames = Object.keys(zip.files).filter(name => !zip.files[name].dir && name !== MANIFEST_PATH);
+    for (const fileName of fileNames) {
+        const entry = entriesByPath.get(fileName);
+        const kind = entry ? fileKind(entry) : null;
+        if (!entry || !kind) {
+            snapshot.file(fileName, await zip.file(fileName).async('blob'));
+            continue;
+        }
+
+        const context: RewriteContext = { filePath: fileName, baseUrl: entry.url, urlToPath, unresolved };
+        const content = await zip.file(fileName).async('text');
+        const rewritten = kind === 'html' ? rewriteHtml(content, context) : kind === 'css' ? rewriteCss(content, context) : rewriteJs(content, context, false);
+        snapshot.file(fileName, rewritten);
+    }
+
+    snapshot.file(MANIFEST_PATH, JSON.stringify(manifest, null, 2));
+    snapshot.file(UNRESOLVED_REPORT_PATH, JSON.stringify(unresolved, null, 2));
+    return { zip: snapshot, unresolved };
+}
@@ -0,0 +1,233 @@
+// Source maps of the downloaded bundles: finding them (inline or external), rebuilding the
+// original sources they list, and mapping a position in a minified file back to its source.
+
+import { loadPathMapper, PathMapper } from './pathMapper';
+
+declare const JSZip: any;
+
+export interface RawSourceMap {
+    version: number;
+    file?: string;
+    sourceRoot?: string;
+    sources: (string | null)[];
+    sourcesContent?: (string | null)[];
+    names?: string[];
+    mappings: string;
+}
+
+// [generated column, source index, original line, original column, name index or -1], 0-based.
+type MappingSegment = [number, number, number, number, number];
+
+export interface LoadedSourceMap {
+    generatedPath: string; // The minified file in the scan's zip.
+    mapUrl: string | null; // Null for inline maps.
+    map: RawSourceMap;
+    sourcePaths: (string | null)[]; // Where each source was rebuilt in the original sources zip.
+    lines?: MappingSegment[][]; // Decoded on first lookup.
+}
+
+export interface OriginalPosition {
+    path: string; // In the original sources zip.
+    line: number; // 1-based.
+    column: number; // 0-based.
+    name?: string;
+}
+
+export interface SourceMapIndex {
+    zip: any; // The rebuilt original sources, as a JSZip instance.
+    maps: Map<string, LoadedSourceMap>; // By generated file path.
+}
+
+const SOURCE_MAPPING_URL_REGEX = /(?:\/\/|\/\*)[#@]\s*sourceMappingURL=([^\s'"*]+)\s*(?:\*\/)?\s*$/;
+const MAPPABLE_FILE_REGEX = /\.(m?js|cjs|css)$/i;
+const BASE64_DIGITS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const BASE64_VALUES = new Map(Array.from(BASE64_DIGITS, (char, index) => [char, index]));
+const MISSING_SOURCE_NOTE = '// The source map lists this file but does not embed its content (no sourcesContent),\n// and it was not among the downloaded files.\n';
+
+/**
+ * Reads the `sourceMappingURL` comment of a script or stylesheet. Only the last comment
+ * counts, and only if nothing but whitespace follows it.
+ * @param content The file content.
+ */
+export function findSourceMappingUrl(content: string): string | null {
+    // Inline maps make the comment long, so only the text from its last occurrence is matched.
+    const start = content.lastIndexOf('sourceMappingURL=');
+    if (start === -1) return null;
+    const tail = content.slice(Math.max(0, start - 4));
+    const match = tail.match(SOURCE_MAPPING_URL_REGEX);
+    return match ? match[1] : null;
+}
+
+function decodeVlq(segment: string): number[] {
+    const values: number[] = [];
+    let value = 0;
+    let shift = 0;
+    for (const char of segment) {
+        const digit = BASE64_VALUES.get(char);
+        if (digit === undefined) throw new Error(`Invalid character "${char}" in source map mappings.`);
+        value += (digit & 31) * 2 ** shift;
+        if (digit & 32) {
+            shift += 5;
+        } else {
+            values.push(value & 1 ? -Math.floor(value / 2) : Math.floor(value / 2));
+            value = 0;
+            shift = 0;
+        }
+    }
+    return values;
+}
+
+/**
+ * Decodes the `mappings` field of a source map into segments per generated line.
+ * Segments without a source are dropped, since they map to nothing.
+ * @param mappings The Base64 VLQ mappings.
+ */
+export function decodeMappings(mappings: string): MappingSegment[][] {
+    let source = 0;
+    let originalLine = 0;
+    let originalColumn = 0;
+    let name = 0;
+    return mappings.split(';').map(line => {
+        let generatedColumn = 0;
+        const segments: MappingSegment[] = [];
+        line.split(',').forEach(segment => {
+            if (!segment) return;
+            const values = decodeVlq(segment);
+            generatedColumn += values[0];
+            if (values.length < 4) return;
+            source += values[1];
+            originalLine += values[2];
+            originalColumn += values[3];
+            if (values.length >= 5) name += values[4];
+            segments.push([generatedColumn, source, originalLine, originalColumn, values.length >= 5 ? name : -1]);
+        });
+        return segments.sort((a, b) => a[0] - b[0]);
+    });
+}
+
+/**
+ * Maps a position in a minified file to the original source.
+ * @param loaded The source map of the minified file.
+ * @param line The 1-based line in the minified file.
+ * @param column The 0-based column in the minified file.
+ */
+export function originalPositionFor(loaded: LoadedSourceMap, line: number, column: number): OriginalPosition | null {
+    if (!loaded.lines) loaded.lines = decodeMappings(loaded.map.mappings);
+    const segments = loaded.lines[line - 1];
+    if (!segments || segments.length === 0) return null;
+
+    // The last segment that starts at or before the column covers it.
+    let low = 0;
+    let high = segments.length - 1;
+    let found = -1;
+    while (low <= high) {
+        const mid = (low + high) >> 1;
+        if (segments[mid][0] <= column) {
+            found = mid;
+            low = mid + 1;
+        } else {
+            high = mid - 1;
+        }
+    }
+    if (found === -1) return null;
+
+    const [, sourceIndex, originalLine, originalColumn, nameIndex] = segments[found];
+    const path = loaded.sourcePaths[sourceIndex];
+    if (!path) return null;
+    return { path, line: originalLine + 1, column: originalColumn, name: nameIndex >= 0 ? loaded.map.names?.[nameIndex] : undefined };
+}
+
+/**
+ * Turns a source name into a readable path for the original sources tree: bundler schemes
+ * (webpack://, vite's /@fs/, file://) and query strings are dropped, and parent references
+ * are folded so nothing escapes the tree. Sources from other hosts are grouped by host.
+ */
+function originalSourcePath(source: string, sourceRoot = ''): string {
+    let path = (sourceRoot && !/^[a-z][\w+.-]*:/i.test(source) ? `${sourceRoot.replace(/\/?$/, '/')}${source}` : source)
+        .replace(/[?#].*$/, '');
+    const remote = path.match(/^https?:\/\/([^/]+)(.*)$/i);
+    if (remote) {
+        path = `${remote[1]}/${remote[2]}`;
+    } else {
+        path = path.replace(/^[a-z][\w+.-]*:\/*/i, '').replace(/^\/@fs\//, '');
+    }
+    const parts: string[] = [];
+    path.split('/').forEach(part => {
+        if (part === '' || part === '.') return;
+        if (part === '..') parts.pop();
+        else parts.push(part);
+    });
+    return parts.join('/');
+}
+
+const parseDataUrl = (dataUrl: string): string => {
+    const comma = dataUrl.indexOf(',');
+    const meta = dataUrl.slice(5, comma);
+    const data = dataUrl.slice(comma + 1);
+    if (!meta.includes(';base64')) return decodeURIComponent(data);
+    const bytes = Uint8Array.from(atob(data), char => char.charCodeAt(0));
+    return new TextDecoder().decode(bytes);
+};
+
+async function readSourceMap(zip: any, paths: PathMapper, fileUrl: string | undefined, mappingUrl: string): Promise<{ map: RawSourceMap; mapUrl: string | null } | null> {
+    if (mappingUrl.startsWith('data:')) {
+        return { map: JSON.parse(parseDataUrl(mappingUrl)), mapUrl: null };
+    }
+    if (!fileUrl) return null;
+    const mapUrl = new URL(mappingUrl, fileUrl).href;
+    const mapPath = paths.lookup(mapUrl);
+    const mapFile = mapPath ? zip.file(mapPath) : null;
+    if (!mapFile) return null;
+    return { map: JSON.parse(await mapFile.async('text')), mapUrl };
+}
+
+/**
+ * Finds the source maps of the scripts and stylesheets in a scan and rebuilds the original
+ * sources into a separate zip. Sources without embedded content are taken from the scan when
+ * they were downloaded too, and otherwise get a placeholder explaining why they are empty.
+ * @param zip The JSZip instance of the scan.
+ * @param rootUrl The scanned URL.
+ */
+export async function loadSourceMaps(zip: any, rootUrl: string): Promise<SourceMapIndex> {
+    const paths = await loadPathMapper(zip, rootUrl);
+    const urlsByPath = new Map(paths.getManifest().files.map(entry => [entry.path, entry.url]));
+    const originals = new JSZip();
+    const maps = new Map<string, LoadedSourceMap>();
+    // Paths are claimed before their content is awaited, so sources that fold to the same path don't race.
+    const claimedPaths = new Set<string>();
+
+    const generatedFiles = Object.keys(zip.files).filter(name => !zip.files[name].dir && MAPPABLE_FILE_REGEX.test(name));
+    for (const generatedPath of generatedFiles) {
+        try {
+            const mappingUrl = findSourceMappingUrl(await zip.file(generatedPath).async('text'));
+            if (!mappingUrl) continue;
+            const fileUrl = urlsByPath.get(generatedPath);
+            const loaded = await readSourceMap(zip, paths, fileUrl, mappingUrl);
+            if (!loaded || !Array.isArray(loaded.map.sources) || typeof loaded.map.mappings !== 'string') continue;
+
+            const { map, mapUrl } = loaded;
+            const sourcePaths = await Promise.all(map.sources.map(async (source, i) => {
+                if (!source) return null;
+                const path = originalSourcePath(source, map.sourceRoot) || `source-${i}`;
+                // The same module is often listed by several bundles; the first copy wins.
+                if (claimedPaths.has(path)) return path;
+                claimedPaths.add(path);
+
+                let content = map.sourcesContent?.[i];
+                const baseUrl = mapUrl || fileUrl;
+                if (typeof content !== 'string' && baseUrl) {
+                    try {
+                        const downloadedPath = paths.lookup(new URL((map.sourceRoot || '') + source, baseUrl).href);
+                        if (downloadedPath) content = await zip.file(downloadedPath)?.async('text');
+                    } catch (e) { /* Not a resolvable URL. */ }
+                }
+                originals.file(path, typeof content === 'string' ? content : MISSING_SOURCE_NOTE);
+                return path;
+            }));
+            maps.set(generatedPath, { generatedPath, mapUrl, map, sourcePaths });
+        } catch (e) {
+            console.warn(`Failed to read the source map of ${generatedPath}`, e);
+        }
+    }
+    return { zip: originals, maps };
+}
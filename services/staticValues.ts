@@ -0,0 +1,169 @@
+// Static evaluation of JavaScript expressions: the values that can be known from an acorn AST
+// without running any code, such as string concatenations of literals and constants.
+
+// The value of an expression that can't be known without running the code.
+export const UNKNOWN = Symbol('unknown');
+export type StaticValue = string | number | boolean | null | undefined | typeof UNKNOWN;
+
+export function forEachNode(node: any, visit: (node: any) => void) {
+    if (!node || typeof node.type !== 'string') return;
+    visit(node);
+    for (const key in node) {
+        const child = node[key];
+        if (Array.isArray(child)) child.forEach(item => forEachNode(item, visit));
+        else if (child && typeof child === 'object') forEachNode(child, visit);
+    }
+}
+
+// The property name of `a.b` or `a['b']`.
+export const memberName = (node: any): string | undefined =>
+    node?.type !== 'MemberExpression' ? undefined : node.computed ? node.property.value : node.property.name;
+
+export const propertyKey = (property: any): string | null => {
+    if (property.type !== 'Property' || property.computed) return null;
+    return property.key.type === 'Identifier' ? property.key.name : String(property.key.value);
+};
+
+/**
+ * Evaluates an expression made of literals, concatenations, comparisons, `||`/`&&`/`??`,
+ * conditionals and lookups into object literals. Anything else is UNKNOWN.
+ * @param node The expression's AST node.
+ * @param scope Values of the identifiers in scope.
+ * @param member Values of non-computed member expressions such as `r.p`, by property name.
+ */
+export function staticValue(node: any, scope: Map<string, StaticValue>, member?: (name: string) => StaticValue): StaticValue {
+    if (!node) return UNKNOWN;
+    const evaluate = (child: any) => staticValue(child, scope, member);
+    switch (node.type) {
+        case 'Literal':
+            return node.regex ? UNKNOWN : node.value;
+        case 'TemplateLiteral': {
+            let result = node.quasis[0].value.cooked;
+            for (let i = 0; i < node.expressions.length; i++) {
+                const value = evaluate(node.expressions[i]);
+                if (value === UNKNOWN) return UNKNOWN;
+                result += String(value) + node.quasis[i + 1].value.cooked;
+            }
+            return result;
+        }
+        case 'Identifier':
+            if (scope.has(node.name)) return scope.get(node.name);
+            return node.name === 'undefined' ? undefined : UNKNOWN;
+        case 'SequenceExpression':
+            return evaluate(node.expressions[node.expressions.length - 1]);
+        case 'BinaryExpression': {
+            const left = evaluate(node.left);
+            const right = evaluate(node.right);
+            if (left === UNKNOWN || right === UNKNOWN) return UNKNOWN;
+            switch (node.operator) {
+                case '+': return (left as any) + (right as any);
+                case '===': return left === right;
+                case '!==': return left !== right;
+                case '==': return left == right;
+                case '!=': return left != right;
+                default: return UNKNOWN;
+            }
+        }
+        case 'LogicalExpression': {
+            const left = evaluate(node.left);
+            if (left === UNKNOWN) return UNKNOWN;
+            if (node.operator === '||') return left || evaluate(node.right);
+            if (node.operator === '&&') return left && evaluate(node.right);
+            return left ?? evaluate(node.right);
+        }
+        case 'ConditionalExpression': {
+            const test = evaluate(node.test);
+            if (test === UNKNOWN) return UNKNOWN;
+            return test ? evaluate(node.consequent) : evaluate(node.alternate);
+        }
+        case 'MemberExpression': {
+            if (!node.computed) return member && node.property.type === 'Identifier' ? member(node.property.name) : UNKNOWN;
+            if (node.object.type !== 'ObjectExpression') return UNKNOWN;
+            const key = evaluate(node.property);
+            if (key === UNKNOWN) return UNKNOWN;
+            if (node.object.properties.some((property: any) => propertyKey(property) === null)) return UNKNOWN;
+            const match = node.object.properties.find((property: any) => propertyKey(property) === String(key));
+            return match ? evaluate(match.value) : undefined;
+        }
+        default:
+            return UNKNOWN;
+    }
+}
+
+
+/**
+ * Collects the `const` bindings of a script whose values are static, for use as a scope by
+ * `staticValue`. A name declared more than once (in different blocks) is left out, since which
+ * declaration a reference means would depend on scoping.
+ * @param ast The script's acorn AST.
+ */
+export function collectConstants(ast: any): Map<string, StaticValue> {
+    const declarations = new Map<string, any>();
+    const ambiguous = new Set<string>();
+    forEachNode(ast, node => {
+        if (node.type !== 'VariableDeclaration') return;
+        node.declarations.forEach((declarator: any) => {
+            if (declarator.id.type !== 'Identifier') return;
+            const name = declarator.id.name;
+            if (declarations.has(name) || node.kind !== 'const') ambiguous.add(name);
+            else declarations.set(name, declarator.init);
+        });
+    });
+    ambiguous.forEach(name => declarations.delete(name));
+
+    // Constants may be defined in terms of each other, in any order; each pass resolves one more level.
+    const scope = new Map<string, StaticValue>();
+    for (let pass = 0; pass < 4; pass++) {
+        let changed = false;
+        declarations.forEach((init, name) => {
+            if (scope.has(name)) return;
+            const value = staticValue(init, scope);
+            if (value !== UNKNOWN && (typeof value === 'string' || typeof value === 'number')) {
+                scope.set(name, value);
+                changed = true;
+            }
+        });
+        if (!changed) break;
+    }
+    return scope;
+}
+
+// A placeholder name for an expression in a URL pattern: `id` for `id` or `user.id`.
+const placeholderName = (node: any): string => {
+    if (node.type === 'Identifier') return node.name;
+    if (node.type === 'MemberExpression' && !node.computed) return node.property.name;
+    return 'param';
+};
+
+/**
+ * Evaluates a string expression whose parts may be unknown, writing each unknown part as a
+ * `{name}` placeholder: `` `/api/users/${user.id}` `` gives `/api/users/{id}`. Returns null when
+ * the expression has no static part at all.
+ * @param node The expression's AST node.
+ * @param scope Values of the identifiers in scope.
+ */
+export function stringPattern(node: any, scope: Map<string, StaticValue>): string | null {
+    const value = staticValue(node, scope);
+    if (value !== UNKNOWN) return typeof value === 'string' ? value : null;
+    const parts: (string | null)[] = [];
+    const placeholders: string[] = [];
+    const collect = (part: any) => {
+        if (part.type === 'TemplateLiteral') {
+            part.quasis.forEach((quasi: any, i: number) => {
+                parts.push(quasi.value.cooked);
+                if (i < part.expressions.length) collect(part.expressions[i]);
+            });
+        } else if (part.type === 'BinaryExpression' && part.operator === '+') {
+            collect(part.left);
+            collect(part.right);
+        } else {
+            const partValue = staticValue(part, scope);
+            parts.push(partValue === UNKNOWN ? null : String(partValue));
+            if (partValue === UNKNOWN) placeholders.push(placeholderName(part));
+        }
+    };
+    collect(node);
+    if (!parts.some(part => part)) return null;
+    let placeholder = 0;
+    return parts.map(part => part ?? `{${placeholders[placeholder++]}}`).join('');
+}
@@ -0,0 +1,71 @@
+// Storage accounting for saved snapshots: their sizes, the browser's quota, and which snapshot
+// the eviction policy gives up first when a save runs out of space.
+
+import { EvictionPolicy, HistoryEntry } from '../types';
+import { getKV, getSession, setKV } from '../utils/idb';
+import { SavedSession } from './sessionArchive';
+
+const POLICY_KEY = 'evictionPolicy';
+
+export const DEFAULT_EVICTION_POLICY: EvictionPolicy = 'oldest';
+
+export const EVICTION_POLICY_LABELS: Record<EvictionPolicy, string> = {
+    oldest: 'Oldest scan',
+    largest: 'Largest snapshot',
+    leastRecentlyOpened: 'Least recently opened',
+};
+
+export interface StorageEstimate {
+    usage: number;
+    quota: number;
+}
+
+export const loadEvictionPolicy = async (): Promise<EvictionPolicy> =>
+    (await getKV<EvictionPolicy>(POLICY_KEY)) || DEFAULT_EVICTION_POLICY;
+
+export const saveEvictionPolicy = (policy: EvictionPolicy): Promise<void> =>
+    setKV(POLICY_KEY, policy);
+
+/** Resolves to null in browsers without the StorageManager API. */
+export async function getStorageEstimate(): Promise<StorageEstimate | null> {
+    if (!navigator.storage?.estimate) return null;
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    return { usage, quota };
+}
+
+/**
+ * Approximates the space a snapshot takes in IndexedDB: the zip plus its JSON-serialized parts.
+ * @param session The saved snapshot.
+ */
+export function estimateSessionSize(session: Omit<SavedSession, 'id'>): number {
+    const { zipAsBlob, ...rest } = session.scanResult;
+    const json = JSON.stringify({ ...session, scanResult: rest });
+    return zipAsBlob.size + new Blob([json]).size;
+}
+
+/**
+ * Measures a snapshot saved before sizes were tracked.
+ * @param id The snapshot id.
+ */
+export async function measureSnapshot(id: string): Promise<number | null> {
+    const session = await getSession<SavedSession>(id);
+    return session ? estimateSessionSize(session) : null;
+}
+
+/**
+ * Picks the snapshot to evict next, or null when every candidate is pinned.
+ * Snapshots without a recorded size count as empty under the 'largest' policy.
+ * @param history All saved snapshots.
+ * @param policy The eviction policy.
+ * @param keepId The snapshot being saved, which is never a candidate.
+ */
+export function pickEvictionCandidate(history: HistoryEntry[], policy: EvictionPolicy, keepId: string): HistoryEntry | null {
+    const candidates = history.filter(entry => entry.id !== keepId && !entry.pinned);
+    if (candidates.length === 0) return null;
+    const rank: Record<EvictionPolicy, (entry: HistoryEntry) => number> = {
+        oldest: entry => entry.timestamp,
+        largest: entry => -(entry.size || 0),
+        leastRecentlyOpened: entry => entry.lastOpened ?? entry.timestamp,
+    };
+    return candidates.reduce((best, entry) => rank[policy](entry) < rank[policy](best) ? entry : best);
+}
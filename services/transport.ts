@@ -0,0 +1,117 @@
+// This service decides how requests leave the browser. Every fetch made by the downloader,
+// whether from the V1 loop, the V2 workers or the retry functions, goes through a transport.
+
+import { FetchTransport, TransportSettings } from '../types';
+import { getKV, setKV } from '../utils/idb';
+
+const SETTINGS_KEY = 'transportSettings';
+
+// Public CORS proxies, tried in order when the 'proxies' mode is selected.
+export const DEFAULT_PROXY_TEMPLATES = [
+    'https://api.allorigins.win/raw?url={url}',
+    'https://corsproxy.io/?{url}',
+    'https://api.codetabs.com/v1/proxy?quest={url}',
+    'https://corsproxy.org/?{url}',
+    'https://thingproxy.freeboard.io/fetch/{rawUrl}',
+    'https://cors.eu.org/{rawUrl}',
+    'https://cors-anywhere.herokuapp.com/{rawUrl}',
+];
+
+export const DEFAULT_TRANSPORT_SETTINGS: TransportSettings = {
+    mode: 'proxies',
+    proxyTemplates: DEFAULT_PROXY_TEMPLATES,
+    relayUrl: 'http://localhost:8787/fetch?url={url}',
+};
+
+/**
+ * Builds a request URL from a proxy template.
+ * Templates without a placeholder get the encoded target URL appended.
+ * @param template The proxy or relay template.
+ * @param url The target URL.
+ */
+export function expandTemplate(template: string, url: string): string {
+    if (template.includes('{url}')) {
+        return template.replace('{url}', encodeURIComponent(url));
+    }
+    if (template.includes('{rawUrl}')) {
+        return template.replace('{rawUrl}', url);
+    }
+    return template + encodeURIComponent(url);
+}
+
+/**
+ * Tries each candidate URL in turn. Network errors and 5xx responses are blamed on the
+ * proxy and move on to the next candidate; any other response is returned as-is.
+ * The V2 worker code in downloader.ts mirrors this loop.
+ */
+async function fetchFromCandidates(url: string, candidates: string[], options: RequestInit): Promise<Response> {
+    for (const candidate of candidates) {
+        try {
+            const response = await fetch(candidate, options);
+            if (response.status >= 500 && response.status < 600) {
+                console.warn(`Transport ${candidate} returned status ${response.status}. Trying next...`);
+                continue;
+            }
+            return response;
+        } catch (err) {
+            // A cancelled scan must not fall through to the next candidate.
+            if (options.signal?.aborted) throw err;
+            console.warn(`Transport ${candidate} failed to connect for ${url}. Trying next...`);
+        }
+    }
+    throw new Error(candidates.length > 1 ? 'All proxies failed.' : `Request failed for ${url}.`);
+}
+
+/**
+ * Creates a transport from the user's settings.
+ * @param settings The transport settings, usually loaded from IndexedDB.
+ */
+export function createTransport(settings: TransportSettings): FetchTransport {
+    let label: string;
+    let getCandidateUrls: (url: string) => string[];
+
+    switch (settings.mode) {
+        case 'direct':
+            label = 'Direct fetch';
+            getCandidateUrls = url => [url];
+            break;
+        case 'relay':
+            label = `Relay (${settings.relayUrl})`;
+            getCandidateUrls = url => [expandTemplate(settings.relayUrl, url)];
+            break;
+        default: {
+            const templates = settings.proxyTemplates.length > 0 ? settings.proxyTemplates : DEFAULT_PROXY_TEMPLATES;
+            label = `CORS proxies (${templates.length})`;
+            getCandidateUrls = url => templates.map(template => expandTemplate(template, url));
+        }
+    }
+
+    return {
+        label,
+        getCandidateUrls,
+        fetch: (url, options) => fetchFromCandidates(url, getCandidateUrls(url), options),
+    };
+}
+
+/**
+ * Creates a transport that answers requests from a handler instead of the network.
+ * Meant for tests and offline fixtures: the V2 engine runs its fetches on the main thread
+ * for transports like this one.
+ * @param handler Returns the response for a target URL.
+ */
+export function createStandInTransport(
+    handler: (url: string, options: RequestInit) => Response | Promise<Response>
+): FetchTransport {
+    return {
+        label: 'Stand-in',
+        fetch: async (url, options) => handler(url, options),
+    };
+}
+
+export const loadTransportSettings = async (): Promise<TransportSettings> => {
+    const saved = await getKV<Partial<TransportSettings>>(SETTINGS_KEY);
+    return { ...DEFAULT_TRANSPORT_SETTINGS, ...(saved || {}) };
+};
+
+export const saveTransportSettings = (settings: TransportSettings): Promise<void> =>
+    setKV(SETTINGS_KEY, settings);
@@ -0,0 +1,109 @@
+// WARC 1.1 export of a scan: a warcinfo record followed by a request/response record pair
+// for every captured URL, with response bodies read back from the zip.
+
+import { NetworkLogEntry } from '../types';
+import { loadPathMapper } from './pathMapper';
+
+const CRLF = '\r\n';
+const encoder = new TextEncoder();
+
+// The stored bodies are already decoded, so headers describing the wire encoding would be wrong.
+const DROPPED_RESPONSE_HEADERS = new Set(['content-encoding', 'transfer-encoding', 'content-length']);
+
+// Standard reason phrases. The log's status texts may carry the app's own notes, e.g.
+// "OK (Retried)", which don't belong in a status line.
+const REASON_PHRASES: Record<number, string> = {
+    200: 'OK', 201: 'Created', 202: 'Accepted', 203: 'Non-Authoritative Information', 204: 'No Content',
+    206: 'Partial Content', 301: 'Moved Permanently', 302: 'Found', 303: 'See Other', 304: 'Not Modified',
+    307: 'Temporary Redirect', 308: 'Permanent Redirect', 400: 'Bad Request', 401: 'Unauthorized',
+    403: 'Forbidden', 404: 'Not Found', 405: 'Method Not Allowed', 406: 'Not Acceptable', 408: 'Request Timeout',
+    410: 'Gone', 429: 'Too Many Requests', 500: 'Internal Server Error', 501: 'Not Implemented',
+    502: 'Bad Gateway', 503: 'Service Unavailable', 504: 'Gateway Timeout',
+};
+
+const newRecordId = () => `<urn:uuid:${crypto.randomUUID()}>`;
+
+/**
+ * Serializes one WARC record. The block is the record's payload (an HTTP message for
+ * request and response records).
+ */
+function buildRecord(headers: Record<string, string>, block: Uint8Array): BlobPart[] {
+    const headerLines = Object.entries({ ...headers, 'Content-Length': String(block.byteLength) })
+        .map(([name, value]) => `${name}: ${value}`)
+        .join(CRLF);
+    return [`WARC/1.1${CRLF}${headerLines}${CRLF}${CRLF}`, block, `${CRLF}${CRLF}`];
+}
+
+const concatBytes = (...parts: Uint8Array[]): Uint8Array => {
+    const result = new Uint8Array(parts.reduce((total, part) => total + part.byteLength, 0));
+    let offset = 0;
+    parts.forEach(part => {
+        result.set(part, offset);
+        offset += part.byteLength;
+    });
+    return result;
+};
+
+/**
+ * Builds a WARC file of a scan. The downloader doesn't record request headers, so request
+ * records carry a minimal GET with the Host and User-Agent.
+ * @param zip The JSZip instance of the scan.
+ * @param networkLog The scan's network log. Entries without a response are left out.
+ * @param rootUrl The scanned URL.
+ * @param userAgent The User-Agent used for the scan, if any.
+ */
+export async function exportWarc(zip: any, networkLog: NetworkLogEntry[], rootUrl: string, userAgent = ''): Promise<Blob> {
+    const paths = await loadPathMapper(zip, rootUrl);
+    const warcDate = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+    const parts: BlobPart[] = [];
+
+    const info = encoder.encode([
+        'software: Web Page Inspector',
+        'format: WARC File Format 1.1',
+        `isPartOf: ${rootUrl}`,
+    ].join(CRLF) + CRLF);
+    parts.push(...buildRecord({
+        'WARC-Type': 'warcinfo',
+        'WARC-Record-ID': newRecordId(),
+        'WARC-Date': warcDate,
+        'Content-Type': 'application/warc-fields',
+    }, info));
+
+    for (const entry of networkLog.filter(item => item.status > 0)) {
+        const url = new URL(entry.url);
+        const requestId = newRecordId();
+        const requestHead = [
+            `GET ${url.pathname}${url.search} HTTP/1.1`,
+            `Host: ${url.host}`,
+            ...(userAgent ? [`User-Agent: ${userAgent}`] : []),
+        ].join(CRLF) + CRLF + CRLF;
+        parts.push(...buildRecord({
+            'WARC-Type': 'request',
+            'WARC-Record-ID': requestId,
+            'WARC-Date': warcDate,
+            'WARC-Target-URI': entry.url,
+            'Content-Type': 'application/http;msgtype=request',
+        }, encoder.encode(requestHead)));
+
+        const path = paths.lookup(entry.url);
+        const file = path ? zip.file(path) : null;
+        const body: Uint8Array = file ? await file.async('uint8array') : new Uint8Array();
+        const headerLines = Object.entries(entry.headers || { 'content-type': entry.contentType })
+            .filter(([name]) => !DROPPED_RESPONSE_HEADERS.has(name.toLowerCase()))
+            .map(([name, value]) => `${name}: ${value}`);
+        headerLines.push(`content-length: ${body.byteLength}`);
+        // A refresh answers a 304 with the body kept from the previous scan, so the record is the full 200 response.
+        const status = entry.status === 304 && file ? 200 : entry.status;
+        const responseHead = `HTTP/1.1 ${status} ${REASON_PHRASES[status] ?? ''}${CRLF}${headerLines.join(CRLF)}${CRLF}${CRLF}`;
+        parts.push(...buildRecord({
+            'WARC-Type': 'response',
+            'WARC-Record-ID': newRecordId(),
+            'WARC-Date': warcDate,
+            'WARC-Target-URI': entry.url,
+            'WARC-Concurrent-To': requestId,
+            'Content-Type': 'application/http;msgtype=response',
+        }, concatBytes(encoder.encode(responseHead), body)));
+    }
+
+    return new Blob(parts, { type: 'application/warc' });
+}
@@ -2,6 +2,35 @@ export type AppPhase = 'initial' | 'downloading' | 'post-download-prompt' | 'ret
 
 export type NetworkLogStatus = 'success' | 'error';
 
+// How an asset compares to the previous snapshot, on a refreshed scan.
+export type AssetChange = 'added' | 'changed' | 'unchanged';
+
+// How a URL was found, for the patterns that hide code from plain references: module preloads,
+// import maps, service worker registrations, worker constructors, importScripts calls,
+// sourceMappingURL comments and bundler chunk tables (webpack, Vite, Next.js).
+export type DiscoveryMethod = 'modulepreload' | 'importmap' | 'serviceWorker' | 'worker' | 'importScripts' | 'sourceMap'
+    | 'webpackChunk' | 'viteChunk' | 'nextBuildManifest';
+
+// The syntax a URL was read from. Every discovered URL has one, unlike DiscoveryMethod.
+export type DiscoveryMechanism = 'attribute' | 'cssUrl' | 'cssImport' | 'astLiteral' | 'dynamicImport' | 'callArgument'
+    | 'importMap' | 'manifestIcon' | 'manifestScreenshot' | 'manifestStartUrl' | 'sourceMapComment' | 'bundlerTable' | 'regexFallback'
+    | 'stringExpression' | 'urlConstructor' | 'requestCall';
+
+export interface DiscoveryProvenance {
+    mechanism: DiscoveryMechanism;
+    attribute?: string; // The HTML attribute, for 'attribute' (e.g. 'src', 'srcset').
+    atRules?: string[]; // The CSS at-rules the URL is nested in, outermost first (e.g. '@media print', '@font-face').
+    line?: number; // 1-based, in the initiator's file. Unset when the position couldn't be found.
+    column?: number; // 0-based.
+}
+
+// A position in a file of the File Explorer.
+export interface SourceLocation {
+    path: string;
+    line: number; // 1-based.
+    column: number; // 0-based.
+}
+
 export type NetworkLogEntry = {
     url: string;
     status: number; // HTTP status code, e.g., 200, 404. 0 for internal errors.
@@ -10,9 +39,99 @@ export type NetworkLogEntry = {
     initiator: string; // URL of the file that requested this resource. 'initial' for the root document.
     size: number; // size in bytes
     isError: boolean;
+    headers?: Record<string, string>; // Response headers, lower-cased names. Absent for entries saved before capture existed.
+    change?: AssetChange; // Only set on refreshed scans.
+    discoveredVia?: DiscoveryMethod; // Unset for plain references (src, href, url(), string literals).
+    provenance?: DiscoveryProvenance; // How the initiator referenced this URL. Unset for the root document and selected pages.
 };
 
 
+export interface CrawlOptions {
+    enabled: boolean;
+    maxDepth: number; // How many links away from the root document to follow. 0 = root only.
+    maxPages: number; // Upper bound on the number of HTML pages downloaded, root included.
+}
+
+export interface PolitenessOptions {
+    enabled: boolean;
+    respectRobots: boolean; // Honor Disallow and Crawl-delay from the scanned site's robots.txt.
+    minDelayMs: number; // Minimum time between two requests to the same origin.
+    maxConcurrentPerOrigin: number;
+}
+
+export type TransportMode = 'proxies' | 'direct' | 'relay';
+
+export interface TransportSettings {
+    mode: TransportMode;
+    proxyTemplates: string[]; // e.g. "https://proxy.example/?url={url}". `{url}` is URL-encoded, `{rawUrl}` is not.
+    relayUrl: string; // A local or internal relay; used as a template like the proxies.
+}
+
+export interface FetchTransport {
+    label: string;
+    // The request URLs to try, in order, for a target URL. The V2 worker receives this list since
+    // functions can't be posted to it. Transports without it are fetched on the main thread.
+    getCandidateUrls?: (url: string) => string[];
+    fetch: (url: string, options: RequestInit) => Promise<Response>;
+}
+
+export type ThirdPartyPolicy = 'download' | 'list' | 'skip';
+
+export interface ScopeOptions {
+    allowedOrigins: string[]; // Extra origins treated like the scanned site (e.g. its asset CDN).
+    include: string[]; // Glob or /regex/ patterns; when set, a URL must match one to be downloaded.
+    exclude: string[];
+    thirdPartyPolicy: ThirdPartyPolicy;
+    maxAssetSizeKb: number; // 0 means no limit.
+}
+
+// Handed to the downloader so the UI can pause, resume and cancel a running scan.
+export interface ScanControl {
+    signal: AbortSignal; // Aborted when the scan is cancelled.
+    isPaused: () => boolean;
+    // Resolves once the scan is resumed or cancelled; immediately if it is running.
+    whenResumed: () => Promise<void>;
+    // Registers a callback for when a paused scan resumes. Returns an unsubscribe function.
+    onResume: (listener: () => void) => () => void;
+}
+
+// The previous snapshot of a site, which a refresh revalidates instead of downloading again.
+export interface ScanBaseline {
+    zip: any;
+    networkLog: NetworkLogEntry[];
+    timestamp: number;
+}
+
+export interface ScanOptions {
+    headers: Record<string, string>;
+    userAgent: string;
+    crawl?: CrawlOptions;
+    politeness?: PolitenessOptions;
+    scope?: ScopeOptions;
+    control?: ScanControl;
+    transport?: FetchTransport;
+    baseline?: ScanBaseline;
+}
+
+// What a refresh found compared to the previous snapshot, as lists of URLs.
+export interface RefreshSummary {
+    previousTimestamp: number;
+    added: string[];
+    changed: string[];
+    unchanged: string[];
+    removed: string[]; // Downloaded last time, not requested this time.
+}
+
+export interface InternalLink {
+    url: string;
+    foundOn: string; // URL of the page whose anchor pointed here, or of the sitemap that listed it.
+    depth: number; // Link distance from the root document.
+    source: 'anchor' | 'sitemap';
+    lastmod?: string; // From the sitemap, when the page is listed there.
+    priority?: number;
+}
+
+
 export interface FileNode {
     name: string;
     path: string;
@@ -52,12 +171,20 @@ export interface AiChatMessage {
     text: string;
 }
 
+// One saved snapshot. A site scanned several times has an entry per snapshot.
 export interface HistoryEntry {
+    id: string; // The snapshot's key in the sessions store.
     url:string;
     siteName: string;
     timestamp: number;
+    size?: number; // Approximate bytes used in IndexedDB. Absent for entries saved before sizes were tracked.
+    pinned?: boolean; // Pinned snapshots are never evicted.
+    lastOpened?: number;
 }
 
+// Which snapshot to evict first when IndexedDB runs out of space.
+export type EvictionPolicy = 'oldest' | 'largest' | 'leastRecentlyOpened';
+
 export interface RecreatedFile {
     fileName: string;
     content: string;
@@ -100,4 +100,38 @@ export const getLanguageFromPath = (path: string): string => {
         case 'java': return 'java';
         default: return 'clike'; // A safe default
     }
-};
\ No newline at end of file
+};
+
+// Turns a character offset into a 1-based line and 0-based column, or nothing for an unknown offset (-1).
+export type Locate = (offset: number) => { line?: number; column?: number };
+
+/**
+ * Builds a Locate function for a file's content.
+ * @param content The file content.
+ */
+export function createLocator(content: string): Locate {
+    const lineStarts = [0];
+    for (let i = content.indexOf('\n'); i !== -1; i = content.indexOf('\n', i + 1)) lineStarts.push(i + 1);
+    return offset => {
+        if (offset < 0) return {};
+        let low = 0;
+        let high = lineStarts.length - 1;
+        while (low < high) {
+            const mid = (low + high + 1) >> 1;
+            if (lineStarts[mid] <= offset) low = mid;
+            else high = mid - 1;
+        }
+        return { line: low + 1, column: offset - lineStarts[low] };
+    };
+}
+
+/**
+ * Compares two byte arrays, e.g. a file's content in two snapshots.
+ */
+export const bytesEqual = (a: Uint8Array, b: Uint8Array): boolean => {
+    if (a.byteLength !== b.byteLength) return false;
+    for (let i = 0; i < a.byteLength; i++) {
+        if (a[i] !== b[i]) return false;
+    }
+    return true;
+};
@@ -3,12 +3,53 @@
 // replacing the restrictive localStorage API.
 
 const DB_NAME = 'web-inspector-db';
-const DB_VERSION = 1;
-const SESSIONS_STORE = 'sessions';
+const DB_VERSION = 3;
+const SESSIONS_STORE = 'sessions'; // One record per snapshot; a site can have several.
 const KV_STORE = 'kv_store'; // For storing history, settings, etc.
+const CHECKPOINT_STORE = 'scan_checkpoint'; // Mid-flight state of the running scan, for resuming.
 
 let dbPromise: Promise<IDBDatabase> | null = null;
 
+/** The key of a saved snapshot: the scanned URL and when the scan was saved. */
+export const snapshotId = (url: string, timestamp: number): string => `${url}@${timestamp}`;
+
+function createSessionsStore(db: IDBDatabase): IDBObjectStore {
+    const store = db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+    store.createIndex('url', 'url');
+    return store;
+}
+
+/**
+ * Version 2 kept a single session per URL, keyed by 'url'. Each of them becomes the first
+ * snapshot of its site, and the history list is rebuilt with one entry per snapshot.
+ * @param db The database being upgraded.
+ * @param tx The upgrade transaction.
+ */
+function migrateSessionsToSnapshots(db: IDBDatabase, tx: IDBTransaction) {
+    const request = tx.objectStore(SESSIONS_STORE).getAll();
+    request.onsuccess = () => {
+        const sessions: any[] = request.result;
+        // The key path can't be changed in place, so the store is recreated.
+        db.deleteObjectStore(SESSIONS_STORE);
+        const store = createSessionsStore(db);
+        const kv = tx.objectStore(KV_STORE);
+
+        const history = sessions.map(session => {
+            const timestamp = session.timestamp || 0;
+            const id = snapshotId(session.url, timestamp);
+            store.put({ ...session, id, timestamp });
+            return { id, url: session.url, siteName: session.siteName, timestamp };
+        }).sort((a, b) => b.timestamp - a.timestamp);
+        kv.put(history, 'history');
+
+        const lastActive = kv.get('lastActiveUrl');
+        lastActive.onsuccess = () => {
+            kv.put(history.find(entry => entry.url === lastActive.result)?.id || null, 'lastActiveSnapshot');
+            kv.delete('lastActiveUrl');
+        };
+    };
+}
+
 function getDb(): Promise<IDBDatabase> {
     if (!dbPromise) {
         dbPromise = new Promise((resolve, reject) => {
@@ -32,14 +73,20 @@ function getDb(): Promise<IDBDatabase> {
 
             request.onupgradeneeded = (event) => {
                 const db = (event.target as IDBOpenDBRequest).result;
-                if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
-                    // keyPath is 'url', which will exist on the session objects we store.
-                    db.createObjectStore(SESSIONS_STORE, { keyPath: 'url' });
-                }
                 if (!db.objectStoreNames.contains(KV_STORE)) {
                     // A simple key-value store with no keyPath.
                     db.createObjectStore(KV_STORE);
                 }
+                if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+                    // keyPath is 'id' (see snapshotId), with an index to find the snapshots of a URL.
+                    createSessionsStore(db);
+                } else if (event.oldVersion < 3) {
+                    migrateSessionsToSnapshots(db, request.transaction!);
+                }
+                if (!db.objectStoreNames.contains(CHECKPOINT_STORE)) {
+                    // Keyed by record name: one metadata record plus chunks of downloaded files.
+                    db.createObjectStore(CHECKPOINT_STORE);
+                }
             };
         });
     }
@@ -99,16 +146,27 @@ export const getKV = <T>(key: IDBValidKey): Promise<T | undefined> =>
 export const setKV = (key: IDBValidKey, value: any): Promise<void> =>
     performTx<void>(KV_STORE, 'readwrite', store => store.put(value, key));
 
-export const getSession = <T>(url: string): Promise<T | undefined> =>
-    performTx<T | undefined>(SESSIONS_STORE, 'readonly', store => store.get(url));
+export const getSession = <T>(id: string): Promise<T | undefined> =>
+    performTx<T | undefined>(SESSIONS_STORE, 'readonly', store => store.get(id));
 
+/** Saves a snapshot; `data.id` must be set (see snapshotId). */
 export const setSession = (data: any): Promise<void> =>
     performTx<void>(SESSIONS_STORE, 'readwrite', store => store.put(data));
 
-export const deleteSession = (url: string): Promise<void> =>
-    performTx<void>(SESSIONS_STORE, 'readwrite', store => store.delete(url));
+export const deleteSession = (id: string): Promise<void> =>
+    performTx<void>(SESSIONS_STORE, 'readwrite', store => store.delete(id));
     
+export const getCheckpointRecord = <T>(key: string): Promise<T | undefined> =>
+    performTx<T | undefined>(CHECKPOINT_STORE, 'readonly', store => store.get(key));
+
+export const setCheckpointRecord = (key: string, value: any): Promise<void> =>
+    performTx<void>(CHECKPOINT_STORE, 'readwrite', store => store.put(value, key));
+
+export const clearCheckpoint = (): Promise<void> =>
+    performTx<void>(CHECKPOINT_STORE, 'readwrite', store => store.clear());
+
 export const clearAll = async (): Promise<void> => {
     await performTx<void>(SESSIONS_STORE, 'readwrite', store => store.clear());
     await performTx<void>(KV_STORE, 'readwrite', store => store.clear());
+    await clearCheckpoint();
 };
\ No newline at end of file
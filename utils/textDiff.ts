@@ -0,0 +1,97 @@
+// Line-based diff for showing two versions of a file side by side.
+
+export interface DiffLine {
+    number: number; // 1-based line number in its own version.
+    text: string;
+}
+
+export interface DiffRow {
+    kind: 'same' | 'removed' | 'added' | 'changed';
+    left?: DiffLine; // The older version.
+    right?: DiffLine; // The newer version.
+}
+
+// Above this many LCS table cells the differing middle is shown as a whole block replacement.
+const MAX_LCS_CELLS = 4_000_000;
+
+type EditOp = { kind: 'same' | 'removed' | 'added'; left?: number; right?: number };
+
+/**
+ * Aligns the lines of two texts. Lines removed and added at the same spot are paired
+ * as 'changed' rows, so a side-by-side view keeps them on the same line.
+ * @param before The older text.
+ * @param after The newer text.
+ */
+export function diffLines(before: string, after: string): DiffRow[] {
+    const a = before.split('\n');
+    const b = after.split('\n');
+
+    // Common head and tail are trimmed first; they are usually most of the file.
+    let start = 0;
+    while (start < a.length && start < b.length && a[start] === b[start]) start++;
+    let endA = a.length;
+    let endB = b.length;
+    while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+        endA--;
+        endB--;
+    }
+
+    const ops: EditOp[] = [];
+    for (let i = 0; i < start; i++) ops.push({ kind: 'same', left: i, right: i });
+
+    const n = endA - start;
+    const m = endB - start;
+    if (n * m > MAX_LCS_CELLS) {
+        for (let i = start; i < endA; i++) ops.push({ kind: 'removed', left: i });
+        for (let j = start; j < endB; j++) ops.push({ kind: 'added', right: j });
+    } else {
+        // lcs[i][j] is the LCS length of a[start + i..endA) and b[start + j..endB).
+        const width = m + 1;
+        const lcs = new Uint32Array((n + 1) * width);
+        for (let i = n - 1; i >= 0; i--) {
+            for (let j = m - 1; j >= 0; j--) {
+                lcs[i * width + j] = a[start + i] === b[start + j]
+                    ? lcs[(i + 1) * width + j + 1] + 1
+                    : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+            }
+        }
+        let i = 0;
+        let j = 0;
+        while (i < n || j < m) {
+            if (i < n && j < m && a[start + i] === b[start + j]) {
+                ops.push({ kind: 'same', left: start + i++, right: start + j++ });
+            } else if (j < m && (i === n || lcs[i * width + j + 1] >= lcs[(i + 1) * width + j])) {
+                ops.push({ kind: 'added', right: start + j++ });
+            } else {
+                ops.push({ kind: 'removed', left: start + i++ });
+            }
+        }
+    }
+
+    for (let k = 0; k < a.length - endA; k++) ops.push({ kind: 'same', left: endA + k, right: endB + k });
+
+    const line = (lines: string[], index?: number): DiffLine | undefined =>
+        index === undefined ? undefined : { number: index + 1, text: lines[index] };
+
+    const rows: DiffRow[] = [];
+    for (let k = 0; k < ops.length;) {
+        if (ops[k].kind === 'same') {
+            rows.push({ kind: 'same', left: line(a, ops[k].left), right: line(b, ops[k].right) });
+            k++;
+            continue;
+        }
+        const removed: number[] = [];
+        const added: number[] = [];
+        while (k < ops.length && ops[k].kind !== 'same') {
+            if (ops[k].kind === 'removed') removed.push(ops[k].left!);
+            else added.push(ops[k].right!);
+            k++;
+        }
+        for (let p = 0; p < Math.max(removed.length, added.length); p++) {
+            const left = line(a, removed[p]);
+            const right = line(b, added[p]);
+            rows.push({ kind: left && right ? 'changed' : left ? 'removed' : 'added', left, right });
+        }
+    }
+    return rows;
+}